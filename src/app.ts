@@ -5,9 +5,10 @@ import swaggerJsdoc from 'swagger-jsdoc';
 import config from './config/environment';
 import routes from './routes';
 import { errorHandler } from './middleware/errorHandler';
-import { authenticate } from './middleware/auth';
+import { authenticate, requireReceptorToken } from './middleware/auth';
 import logger from './utils/logger';
-import { receiveEcf, receiveAcecf, getSeed, validateCertificate } from './controllers/invoiceController';
+import { receiveReceptorEcf, receiveAcecf, getSeed, validateCertificate } from './controllers/invoiceController';
+import certificateMonitorService from './services/certificateMonitorService';
 
 const app = express();
 
@@ -54,7 +55,7 @@ const swaggerOptions: swaggerJsdoc.Options = {
           type: 'apiKey',
           in: 'header',
           name: 'x-api-key',
-          description: 'API Key para autenticación',
+          description: 'API key maestra (administrador) o API key de un tenant (solo sus RNC y su certificado)',
         },
       },
       schemas: {
@@ -71,6 +72,308 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
           },
         },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: false,
+            },
+            error: {
+              type: 'string',
+              example: 'ECF does not conform to ECF-31.xsd: 1 error(s)',
+            },
+            details: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  message: {
+                    type: 'string',
+                    example: "Element 'MontoTotal': 'abc' is not a valid value of the atomic type 'Decimal18D1or2ValidationType'.",
+                  },
+                  xpath: {
+                    type: 'string',
+                    example: '/ECF/Encabezado/Totales/MontoTotal',
+                  },
+                  line: {
+                    type: 'integer',
+                    example: 42,
+                  },
+                },
+              },
+            },
+          },
+        },
+        InboxEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'ID del documento recibido (también en /api/documents)',
+            },
+            tipoEcf: {
+              type: 'string',
+              example: '31',
+            },
+            rncEmisor: {
+              type: 'string',
+            },
+            rncComprador: {
+              type: 'string',
+            },
+            encf: {
+              type: 'string',
+              example: 'E310000000001',
+            },
+            fechaEmision: {
+              type: 'string',
+              example: '01-04-2026',
+            },
+            montoTotal: {
+              type: 'number',
+            },
+            fileName: {
+              type: 'string',
+            },
+            environment: {
+              type: 'string',
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            arecfDocumentId: {
+              type: 'string',
+            },
+            arecfStatus: {
+              type: 'string',
+              example: 'e-CF Recibido',
+            },
+            approvalStatus: {
+              type: 'string',
+              enum: ['pending', 'sending', 'approved', 'rejected', 'expired'],
+            },
+            approvalDeadline: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Plazo para aprobar o rechazar (solo e-CF acusados como recibidos)',
+            },
+            approvalDocumentId: {
+              type: 'string',
+              description: 'ID del ACECF enviado',
+            },
+            approvalReason: {
+              type: 'string',
+              description: 'Motivo del rechazo comercial',
+            },
+            approvedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            acknowledged: {
+              type: 'boolean',
+            },
+            acknowledgedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        CreateNoteRequest: {
+          type: 'object',
+          required: ['rnc'],
+          properties: {
+            rnc: {
+              type: 'string',
+              description: 'RNC del emisor del e-CF original',
+              example: '130862346',
+            },
+            encf: {
+              type: 'string',
+              description: 'e-NCF de la nota. Si no se envía, se asigna de los rangos registrados',
+            },
+            sequenceExpiryDate: {
+              type: 'string',
+              format: 'date',
+              description: 'FechaVencimientoSecuencia (solo notas de débito con encf)',
+            },
+            environment: {
+              type: 'string',
+              enum: ['test', 'cert', 'prod'],
+              description: 'Ambiente del e-CF original, si se emitió el mismo e-NCF en varios',
+            },
+            code: {
+              type: 'string',
+              enum: ['void', 'text_correction', 'amount_correction', 'contingency_replacement', 'consumer_reference'],
+              description: 'CodigoModificacion (1-5)',
+            },
+            reason: {
+              type: 'string',
+              maxLength: 90,
+              description: 'RazonModificacion',
+            },
+            internalNumber: {
+              type: 'string',
+              description: 'NumeroFacturaInterna de la nota',
+            },
+            lines: {
+              type: 'array',
+              description: 'Líneas del e-CF original incluidas en la nota. Si se omite, se incluyen todas',
+              items: {
+                type: 'object',
+                required: ['line'],
+                properties: {
+                  line: {
+                    type: 'integer',
+                    description: 'NumeroLinea en el e-CF original',
+                  },
+                  quantity: {
+                    type: 'number',
+                    description: 'Cantidad (excluyente con amount)',
+                  },
+                  amount: {
+                    type: 'number',
+                    description: 'Monto de la línea (excluyente con quantity)',
+                  },
+                },
+              },
+            },
+          },
+        },
+        CommercialApprovalResult: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'ID del e-CF recibido',
+            },
+            approvalStatus: {
+              type: 'string',
+              enum: ['approved', 'rejected'],
+            },
+            approvalDocumentId: {
+              type: 'string',
+              description: 'ID del ACECF enviado',
+            },
+            fileName: {
+              type: 'string',
+            },
+            error: {
+              type: 'string',
+              description: 'Motivo por el que no se envió el ACECF (solo en operaciones masivas)',
+            },
+            statusCode: {
+              type: 'integer',
+              example: 409,
+            },
+          },
+        },
+        CommercialApprovalResults: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+            },
+            data: {
+              type: 'object',
+              properties: {
+                succeeded: {
+                  type: 'integer',
+                },
+                failed: {
+                  type: 'integer',
+                },
+                results: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/CommercialApprovalResult',
+                  },
+                },
+              },
+            },
+          },
+        },
+        ContingencyPeriod: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            environment: {
+              type: 'string',
+              enum: ['test', 'cert', 'prod'],
+            },
+            source: {
+              type: 'string',
+              enum: ['manual', 'automatic'],
+              description: 'manual: activada por el administrador; automatic: por fallas consecutivas de DGII',
+            },
+            reason: {
+              type: 'string',
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            endedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Vacío mientras la contingencia está activa',
+            },
+          },
+        },
+        ContingencyReportItem: {
+          type: 'object',
+          properties: {
+            documentId: {
+              type: 'string',
+            },
+            documentType: {
+              type: 'string',
+              enum: ['ECF', 'RFCE'],
+              description: 'RFCE para las facturas de consumo resumidas',
+            },
+            rncEmisor: {
+              type: 'string',
+            },
+            encf: {
+              type: 'string',
+            },
+            environment: {
+              type: 'string',
+            },
+            periodId: {
+              type: 'string',
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'sent', 'failed'],
+            },
+            signedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            sentAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            delayMinutes: {
+              type: 'integer',
+              description: 'Minutos entre la firma y el envío a DGII',
+            },
+            trackId: {
+              type: 'string',
+            },
+            dgiiStatus: {
+              type: 'string',
+            },
+            error: {
+              type: 'string',
+              description: 'Motivo del rechazo al enviarlo (status failed)',
+            },
+          },
+        },
         Success: {
           type: 'object',
           properties: {
@@ -109,28 +412,34 @@ app.get('/api-docs.json', (req, res) => {
 });
 
 app.get('/health', (req, res) => {
+  const certificates = certificateMonitorService.getHealth();
+
   res.json({
-    status: 'ok',
+    // Un certificado vencido detiene la facturación: el servicio responde pero está degradado
+    status: certificates.status === 'expired' ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     environment: config.dgiiEnvironment,
+    certificates,
   });
 });
 
 /**
- * Endpoint Emisor-Receptor de DGII (SIN AUTENTICACIÓN)
+ * Endpoint Emisor-Receptor de DGII (token Bearer de validacioncertificado)
  * Este es el endpoint que DGII llamará para enviar ECFs durante certificación
  * Path exacto requerido por el estándar: /fe/recepcion/api/ecf
  *
- * DGII envía el ECF como multipart/form-data y espera recibir el ARECF firmado como respuesta
+ * DGII envía el ECF como multipart/form-data y espera recibir el ARECF firmado como respuesta.
+ * El receptor y el certificado del ARECF se toman del RNCComprador del e-CF; no se aceptan parámetros.
  */
-app.post('/fe/recepcion/api/ecf', express.raw({ type: '*/*', limit: '10mb' }), receiveEcf);
+app.post('/fe/recepcion/api/ecf', requireReceptorToken, express.raw({ type: '*/*', limit: '10mb' }), receiveReceptorEcf);
 
 /**
- * Endpoint para recibir Aprobaciones Comerciales (ACECF) (SIN AUTENTICACIÓN)
- * Este es el endpoint que DGII o emisores llamarán para enviar sus ACECFs
+ * Endpoint para recibir Aprobaciones Comerciales (ACECF) (token Bearer de validacioncertificado)
+ * Los compradores de nuestros e-CF (y DGII durante certificación) envían aquí sus ACECFs;
+ * se verifican, se asocian al e-CF emitido y actualizan su estado comercial
  * Path: /fe/aprobacioncomercial/api/ecf
  */
-app.post('/fe/aprobacioncomercial/api/ecf', express.raw({ type: '*/*', limit: '10mb' }), receiveAcecf);
+app.post('/fe/aprobacioncomercial/api/ecf', requireReceptorToken, express.raw({ type: '*/*', limit: '10mb' }), receiveAcecf);
 
 /**
  * Endpoint para obtener semilla de autenticación (SIN AUTENTICACIÓN)
@@ -0,0 +1,365 @@
+import { AppError } from '../middleware/errorHandler';
+import {
+  Ecf,
+  EcfComprador,
+  EcfDescuentoORecargo,
+  EcfEmisor,
+  EcfFieldError,
+  EcfIdDoc,
+  EcfInformacionReferencia,
+  EcfInformacionesAdicionales,
+  EcfItem,
+  EcfOtraMoneda,
+  EcfPagina,
+  EcfSubtotal,
+  EcfTipo,
+  EcfTotales,
+  EcfTransporte,
+  InvoiceData,
+} from '../types';
+import { ECF_FIELD_ORDER, orderFields } from './ecfFieldOrder';
+import { ECF_TYPE_RULES, EcfTypeRules } from './ecfTypeRules';
+
+export const ECF_VERSION = '1.0';
+
+// Los números de línea se asignan en el orden en que se agregan si no se indican
+type WithOptional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+
+export type EcfItemInput = WithOptional<EcfItem, 'NumeroLinea'>;
+export type EcfSubtotalInput = WithOptional<EcfSubtotal, 'NumeroSubTotal'>;
+export type EcfDescuentoORecargoInput = WithOptional<EcfDescuentoORecargo, 'NumeroLinea'>;
+
+export interface EcfBuildOptions {
+  // El e-NCF se asignará al enviar (ver DGIIService.resolveEncf), que también completa estos campos
+  encfPending?: boolean;
+}
+
+const ENCF_ALLOCATED_FIELDS = ['Encabezado/IdDoc/eNCF', 'Encabezado/IdDoc/FechaVencimientoSecuencia'];
+
+const isEmptyValue = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Valores de una ruta relativa a /ECF, expandiendo las listas que atraviesa
+ */
+const resolvePath = (value: any, segments: string[], xpath: string): { xpath: string; value: any }[] => {
+  if (Array.isArray(value) && segments.length > 0) {
+    return value.flatMap((element, index) =>
+      resolvePath(element, segments, value.length > 1 ? `${xpath}[${index + 1}]` : xpath)
+    );
+  }
+
+  if (segments.length === 0) {
+    return [{ xpath, value }];
+  }
+
+  const [field, ...rest] = segments;
+  return resolvePath(value?.[field], rest, `${xpath}/${field}`);
+};
+
+/**
+ * Verifica un e-CF contra las reglas de su TipoeCF y lo retorna con los campos en el orden del XSD
+ */
+export const validateEcf = (
+  ecf: Ecf,
+  rules: EcfTypeRules,
+  options: EcfBuildOptions = {}
+): { ecf: Ecf; errors: EcfFieldError[] } => {
+  const errors: EcfFieldError[] = [];
+  const ordered: Ecf = orderFields(ecf, ECF_FIELD_ORDER, '/ECF', errors);
+
+  const tipoeCF = Number(ordered.Encabezado?.IdDoc?.TipoeCF);
+  if (ordered.Encabezado?.IdDoc?.TipoeCF !== undefined && tipoeCF !== rules.tipoeCF) {
+    errors.push({ xpath: '/ECF/Encabezado/IdDoc/TipoeCF', message: `Expected ${rules.tipoeCF}, got ${tipoeCF}` });
+  }
+
+  // Si falta una sección obligatoria (p.ej. DetallesItems/Item) no se reportan también sus campos
+  const missing: string[] = [];
+  for (const path of rules.required) {
+    if (options.encfPending && ENCF_ALLOCATED_FIELDS.includes(path)) {
+      continue;
+    }
+    for (const { xpath, value } of resolvePath(ordered, path.split('/'), '/ECF')) {
+      if (isEmptyValue(value) && !missing.some((parent) => xpath.startsWith(`${parent}/`))) {
+        missing.push(xpath);
+        errors.push({ xpath, message: `Required for e-CF ${rules.tipoeCF}` });
+      }
+    }
+  }
+
+  for (const path of rules.forbidden) {
+    for (const { xpath, value } of resolvePath(ordered, path.split('/'), '/ECF')) {
+      if (!isEmptyValue(value)) {
+        errors.push({ xpath, message: `Not allowed for e-CF ${rules.tipoeCF}` });
+      }
+    }
+  }
+
+  const indicadores = [
+    ...resolvePath(ordered, ['DetallesItems', 'Item', 'IndicadorFacturacion'], '/ECF'),
+    ...resolvePath(ordered, ['DescuentosORecargos', 'DescuentoORecargo', 'IndicadorFacturacionDescuentooRecargo'], '/ECF'),
+  ];
+  for (const { xpath, value } of indicadores) {
+    if (!isEmptyValue(value) && !rules.indicadoresFacturacion.some((indicador) => indicador === Number(value))) {
+      errors.push({
+        xpath,
+        message: `IndicadorFacturacion ${value} is not allowed for e-CF ${rules.tipoeCF}. Allowed: ${rules.indicadoresFacturacion.join(', ')}`,
+      });
+    }
+  }
+
+  errors.push(...(rules.check?.(ordered) || []));
+
+  return { ecf: ordered, errors };
+};
+
+/**
+ * Construye el JSON de un e-CF para Transformer: asigna TipoeCF, Version y números de línea,
+ * verifica los campos obligatorios y no permitidos del tipo y ordena los campos según el XSD.
+ *
+ * Se usa a través del builder de cada tipo (p.ej. new CreditoFiscalBuilder()) o de createEcfBuilder.
+ */
+export class EcfBuilder {
+  protected idDocData: Omit<EcfIdDoc, 'TipoeCF'> = {};
+  protected emisorData?: EcfEmisor;
+  protected compradorData?: EcfComprador;
+  protected informacionesAdicionalesData?: EcfInformacionesAdicionales;
+  protected transporteData?: EcfTransporte;
+  protected totalesData?: EcfTotales;
+  protected otraMonedaData?: EcfOtraMoneda;
+  protected items: EcfItem[] = [];
+  protected subtotales: EcfSubtotal[] = [];
+  protected descuentosORecargos: EcfDescuentoORecargo[] = [];
+  protected paginas: EcfPagina[] = [];
+  protected informacionReferenciaData?: EcfInformacionReferencia;
+
+  constructor(readonly rules: EcfTypeRules) {}
+
+  get tipoeCF(): EcfTipo {
+    return this.rules.tipoeCF;
+  }
+
+  idDoc(idDoc: Omit<EcfIdDoc, 'TipoeCF'>): this {
+    this.idDocData = { ...this.idDocData, ...idDoc };
+    return this;
+  }
+
+  emisor(emisor: EcfEmisor): this {
+    this.emisorData = emisor;
+    return this;
+  }
+
+  comprador(comprador: EcfComprador): this {
+    this.compradorData = comprador;
+    return this;
+  }
+
+  informacionesAdicionales(informacionesAdicionales: EcfInformacionesAdicionales): this {
+    this.informacionesAdicionalesData = informacionesAdicionales;
+    return this;
+  }
+
+  transporte(transporte: EcfTransporte): this {
+    this.transporteData = transporte;
+    return this;
+  }
+
+  totales(totales: EcfTotales): this {
+    this.totalesData = totales;
+    return this;
+  }
+
+  otraMoneda(otraMoneda: EcfOtraMoneda): this {
+    this.otraMonedaData = otraMoneda;
+    return this;
+  }
+
+  addItem(item: EcfItemInput): this {
+    this.items.push({ ...item, NumeroLinea: item.NumeroLinea ?? this.items.length + 1 } as EcfItem);
+    return this;
+  }
+
+  addSubtotal(subtotal: EcfSubtotalInput): this {
+    this.subtotales.push({ ...subtotal, NumeroSubTotal: subtotal.NumeroSubTotal ?? this.subtotales.length + 1 } as EcfSubtotal);
+    return this;
+  }
+
+  addDescuentoORecargo(ajuste: EcfDescuentoORecargoInput): this {
+    this.descuentosORecargos.push({
+      ...ajuste,
+      NumeroLinea: ajuste.NumeroLinea ?? this.descuentosORecargos.length + 1,
+    } as EcfDescuentoORecargo);
+    return this;
+  }
+
+  addPagina(pagina: EcfPagina): this {
+    this.paginas.push(pagina);
+    return this;
+  }
+
+  informacionReferencia(informacionReferencia: EcfInformacionReferencia): this {
+    this.informacionReferenciaData = informacionReferencia;
+    return this;
+  }
+
+  /**
+   * Errores del e-CF construido hasta el momento, con la ruta XPath de cada campo
+   */
+  validate(options: EcfBuildOptions = {}): EcfFieldError[] {
+    return validateEcf(this.toEcf(), this.rules, options).errors;
+  }
+
+  /**
+   * Retorna el InvoiceData listo para Transformer. Lanza 422 con los errores por campo si no es válido.
+   */
+  build(options: EcfBuildOptions = {}): InvoiceData {
+    const { ecf, errors } = validateEcf(this.toEcf(), this.rules, options);
+    if (errors.length > 0) {
+      throw new AppError(`Invalid e-CF ${this.tipoeCF} (${this.rules.name}): ${errors.length} error(s)`, 422, errors);
+    }
+    return { ECF: ecf };
+  }
+
+  protected toEcf(): Ecf {
+    return {
+      Encabezado: {
+        Version: ECF_VERSION,
+        IdDoc: { TipoeCF: this.tipoeCF, ...this.idDocData },
+        Emisor: this.emisorData as EcfEmisor,
+        Comprador: this.compradorData,
+        InformacionesAdicionales: this.informacionesAdicionalesData,
+        Transporte: this.transporteData,
+        Totales: this.totalesData as EcfTotales,
+        OtraMoneda: this.otraMonedaData,
+      },
+      DetallesItems: { Item: this.items },
+      ...(this.subtotales.length > 0 && { Subtotales: { Subtotal: this.subtotales } }),
+      ...(this.descuentosORecargos.length > 0 && { DescuentosORecargos: { DescuentoORecargo: this.descuentosORecargos } }),
+      ...(this.paginas.length > 0 && { Paginacion: { Pagina: this.paginas } }),
+      ...(this.informacionReferenciaData && { InformacionReferencia: this.informacionReferenciaData }),
+    };
+  }
+}
+
+type CompradorIdentificado = EcfComprador & Required<Pick<EcfComprador, 'RNCComprador' | 'RazonSocialComprador'>>;
+
+export class CreditoFiscalBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[31]);
+  }
+
+  comprador(comprador: CompradorIdentificado): this {
+    return super.comprador(comprador);
+  }
+}
+
+export class ConsumoBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[32]);
+  }
+}
+
+export class NotaDebitoBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[33]);
+  }
+}
+
+export class NotaCreditoBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[34]);
+  }
+}
+
+export class ComprasBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[41]);
+  }
+
+  comprador(comprador: CompradorIdentificado): this {
+    return super.comprador(comprador);
+  }
+}
+
+export class GastosMenoresBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[43]);
+  }
+}
+
+export class RegimenesEspecialesBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[44]);
+  }
+
+  comprador(comprador: CompradorIdentificado): this {
+    return super.comprador(comprador);
+  }
+}
+
+export class GubernamentalBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[45]);
+  }
+
+  comprador(comprador: CompradorIdentificado): this {
+    return super.comprador(comprador);
+  }
+}
+
+export class ExportacionesBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[46]);
+  }
+}
+
+export class PagosExteriorBuilder extends EcfBuilder {
+  constructor() {
+    super(ECF_TYPE_RULES[47]);
+  }
+
+  comprador(comprador: Omit<EcfComprador, 'RNCComprador'>): this {
+    return super.comprador(comprador);
+  }
+}
+
+const BUILDERS: Record<EcfTipo, new () => EcfBuilder> = {
+  31: CreditoFiscalBuilder,
+  32: ConsumoBuilder,
+  33: NotaDebitoBuilder,
+  34: NotaCreditoBuilder,
+  41: ComprasBuilder,
+  43: GastosMenoresBuilder,
+  44: RegimenesEspecialesBuilder,
+  45: GubernamentalBuilder,
+  46: ExportacionesBuilder,
+  47: PagosExteriorBuilder,
+};
+
+/**
+ * Builder del TipoeCF indicado (acepta "31" o 31)
+ */
+export const createEcfBuilder = (tipoeCF: number | string): EcfBuilder => {
+  const Builder = BUILDERS[Number(tipoeCF) as EcfTipo];
+  if (!Builder) {
+    throw new AppError(`Unsupported TipoeCF: ${tipoeCF}. Allowed: ${Object.keys(BUILDERS).join(', ')}`, 400);
+  }
+  return new Builder();
+};
+
+/**
+ * Verifica y ordena un InvoiceData armado fuera de los builders, según el TipoeCF de IdDoc
+ */
+export const buildEcf = (invoiceData: InvoiceData, options: EcfBuildOptions = {}): InvoiceData => {
+  const tipoeCF = invoiceData?.ECF?.Encabezado?.IdDoc?.TipoeCF;
+  const rules = ECF_TYPE_RULES[Number(tipoeCF) as EcfTipo];
+  if (!rules) {
+    throw new AppError(`Unsupported TipoeCF: ${tipoeCF}. Allowed: ${Object.keys(ECF_TYPE_RULES).join(', ')}`, 400);
+  }
+
+  const { ecf, errors } = validateEcf(invoiceData.ECF, rules, options);
+  if (errors.length > 0) {
+    throw new AppError(`Invalid e-CF ${rules.tipoeCF} (${rules.name}): ${errors.length} error(s)`, 422, errors);
+  }
+  return { ECF: ecf };
+};
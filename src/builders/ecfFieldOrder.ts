@@ -0,0 +1,299 @@
+import { EcfFieldError } from '../types';
+
+/**
+ * Orden de los campos de cada sección según el XSD de DGII. El XML que genera Transformer
+ * conserva el orden de las claves del JSON, y DGII rechaza los elementos fuera de orden.
+ *
+ * Cada clave es un campo; null indica un valor simple y un objeto indica una sección.
+ * Las listas (Item, FormaDePago, ...) se describen con la estructura de cada elemento.
+ */
+export type FieldOrder = { [field: string]: FieldOrder | null };
+
+const IMPUESTO_ADICIONAL: FieldOrder = {
+  TipoImpuesto: null,
+  TasaImpuestoAdicional: null,
+  MontoImpuestoSelectivoConsumoEspecifico: null,
+  MontoImpuestoSelectivoConsumoAdvalorem: null,
+  OtrosImpuestosAdicionales: null,
+};
+
+const IMPUESTO_ADICIONAL_OTRA_MONEDA: FieldOrder = {
+  TipoImpuestoOtraMoneda: null,
+  TasaImpuestoAdicionalOtraMoneda: null,
+  MontoImpuestoSelectivoConsumoEspecificoOtraMoneda: null,
+  MontoImpuestoSelectivoConsumoAdvaloremOtraMoneda: null,
+  OtrosImpuestosAdicionalesOtraMoneda: null,
+};
+
+export const ECF_FIELD_ORDER: FieldOrder = {
+  Encabezado: {
+    Version: null,
+    IdDoc: {
+      TipoeCF: null,
+      eNCF: null,
+      FechaVencimientoSecuencia: null,
+      IndicadorNotaCredito: null,
+      IndicadorEnvioDiferido: null,
+      IndicadorMontoGravado: null,
+      IndicadorServicioTodoIncluido: null,
+      TipoIngresos: null,
+      TipoPago: null,
+      FechaLimitePago: null,
+      TerminoPago: null,
+      TablaFormasPago: {
+        FormaDePago: { FormaPago: null, MontoPago: null },
+      },
+      TipoCuentaPago: null,
+      NumeroCuentaPago: null,
+      BancoPago: null,
+      FechaDesde: null,
+      FechaHasta: null,
+      TotalPaginas: null,
+    },
+    Emisor: {
+      RNCEmisor: null,
+      RazonSocialEmisor: null,
+      NombreComercial: null,
+      Sucursal: null,
+      DireccionEmisor: null,
+      Municipio: null,
+      Provincia: null,
+      TablaTelefonoEmisor: { TelefonoEmisor: null },
+      CorreoEmisor: null,
+      WebSite: null,
+      ActividadEconomica: null,
+      CodigoVendedor: null,
+      NumeroFacturaInterna: null,
+      NumeroPedidoInterno: null,
+      ZonaVenta: null,
+      RutaVenta: null,
+      InformacionAdicionalEmisor: null,
+      FechaEmision: null,
+    },
+    Comprador: {
+      RNCComprador: null,
+      IdentificadorExtranjero: null,
+      RazonSocialComprador: null,
+      ContactoComprador: null,
+      CorreoComprador: null,
+      DireccionComprador: null,
+      MunicipioComprador: null,
+      ProvinciaComprador: null,
+      FechaEntrega: null,
+      ContactoEntrega: null,
+      DireccionEntrega: null,
+      TelefonoAdicional: null,
+      FechaOrdenCompra: null,
+      NumeroOrdenCompra: null,
+      CodigoInternoComprador: null,
+      ResponsablePago: null,
+      InformacionAdicionalComprador: null,
+    },
+    InformacionesAdicionales: {
+      FechaEmbarque: null,
+      NumeroEmbarque: null,
+      NumeroContenedor: null,
+      NumeroReferencia: null,
+      PesoBruto: null,
+      PesoNeto: null,
+      UnidadPesoBruto: null,
+      UnidadPesoNeto: null,
+      CantidadBulto: null,
+      UnidadBulto: null,
+      VolumenBulto: null,
+      UnidadVolumen: null,
+    },
+    Transporte: {
+      Conductor: null,
+      DocumentoTransporte: null,
+      Ficha: null,
+      Placa: null,
+      RutaTransporte: null,
+      ZonaTransporte: null,
+      NumeroAlbaran: null,
+    },
+    Totales: {
+      MontoGravadoTotal: null,
+      MontoGravadoI1: null,
+      MontoGravadoI2: null,
+      MontoGravadoI3: null,
+      MontoExento: null,
+      ITBIS1: null,
+      ITBIS2: null,
+      ITBIS3: null,
+      TotalITBIS: null,
+      TotalITBIS1: null,
+      TotalITBIS2: null,
+      TotalITBIS3: null,
+      MontoImpuestoAdicional: null,
+      ImpuestosAdicionales: { ImpuestoAdicional: IMPUESTO_ADICIONAL },
+      MontoTotal: null,
+      MontoNoFacturable: null,
+      MontoPeriodo: null,
+      SaldoAnterior: null,
+      MontoAvancePago: null,
+      ValorPagar: null,
+      TotalITBISRetenido: null,
+      TotalISRRetencion: null,
+      TotalITBISPercepcion: null,
+      TotalISRPercepcion: null,
+    },
+    OtraMoneda: {
+      TipoMoneda: null,
+      TipoCambio: null,
+      MontoGravadoTotalOtraMoneda: null,
+      MontoGravado1OtraMoneda: null,
+      MontoGravado2OtraMoneda: null,
+      MontoGravado3OtraMoneda: null,
+      MontoExentoOtraMoneda: null,
+      TotalITBISOtraMoneda: null,
+      TotalITBIS1OtraMoneda: null,
+      TotalITBIS2OtraMoneda: null,
+      TotalITBIS3OtraMoneda: null,
+      MontoImpuestoAdicionalOtraMoneda: null,
+      ImpuestosAdicionalesOtraMoneda: { ImpuestoAdicionalOtraMoneda: IMPUESTO_ADICIONAL_OTRA_MONEDA },
+      MontoTotalOtraMoneda: null,
+    },
+  },
+  DetallesItems: {
+    Item: {
+      NumeroLinea: null,
+      TablaCodigosItem: { CodigosItem: { TipoCodigo: null, CodigoItem: null } },
+      IndicadorFacturacion: null,
+      Retencion: {
+        IndicadorAgenteRetencionoPercepcion: null,
+        MontoITBISRetenido: null,
+        MontoISRRetenido: null,
+      },
+      NombreItem: null,
+      IndicadorBienoServicio: null,
+      DescripcionItem: null,
+      CantidadItem: null,
+      UnidadMedida: null,
+      CantidadReferencia: null,
+      UnidadReferencia: null,
+      TablaSubcantidad: { SubcantidadItem: { Subcantidad: null, CodigoSubcantidad: null } },
+      GradosAlcohol: null,
+      PrecioUnitarioReferencia: null,
+      FechaElaboracion: null,
+      FechaVencimientoItem: null,
+      PrecioUnitarioItem: null,
+      DescuentoMonto: null,
+      TablaSubDescuento: {
+        SubDescuento: { TipoSubDescuento: null, SubDescuentoPorcentaje: null, MontoSubDescuento: null },
+      },
+      RecargoMonto: null,
+      TablaSubRecargo: {
+        SubRecargo: { TipoSubRecargo: null, SubRecargoPorcentaje: null, MontoSubRecargo: null },
+      },
+      TablaImpuestoAdicional: { ImpuestoAdicional: { TipoImpuesto: null } },
+      OtraMonedaDetalle: {
+        PrecioOtraMoneda: null,
+        DescuentoOtraMoneda: null,
+        RecargoOtraMoneda: null,
+        MontoItemOtraMoneda: null,
+      },
+      MontoItem: null,
+    },
+  },
+  Subtotales: {
+    Subtotal: {
+      NumeroSubTotal: null,
+      DescripcionSubtotal: null,
+      Orden: null,
+      SubTotalMontoGravadoTotal: null,
+      SubTotalMontoGravadoI1: null,
+      SubTotalMontoGravadoI2: null,
+      SubTotalMontoGravadoI3: null,
+      SubTotaITBIS: null,
+      SubTotaITBIS1: null,
+      SubTotaITBIS2: null,
+      SubTotaITBIS3: null,
+      SubTotalImpuestoAdicional: null,
+      SubTotalExento: null,
+      MontoSubTotal: null,
+      Lineas: null,
+    },
+  },
+  DescuentosORecargos: {
+    DescuentoORecargo: {
+      NumeroLinea: null,
+      TipoAjuste: null,
+      IndicadorNorma1007: null,
+      DescripcionDescuentooRecargo: null,
+      TipoValor: null,
+      ValorDescuentooRecargo: null,
+      MontoDescuentooRecargo: null,
+      MontoDescuentooRecargoOtraMoneda: null,
+      IndicadorFacturacionDescuentooRecargo: null,
+    },
+  },
+  Paginacion: {
+    Pagina: {
+      PaginaNo: null,
+      NoLineaDesde: null,
+      NoLineaHasta: null,
+      SubtotalMontoGravadoPagina: null,
+      SubtotalMontoGravado1Pagina: null,
+      SubtotalMontoGravado2Pagina: null,
+      SubtotalMontoGravado3Pagina: null,
+      SubtotalExentoPagina: null,
+      SubtotalItbisPagina: null,
+      SubtotalItbis1Pagina: null,
+      SubtotalItbis2Pagina: null,
+      SubtotalItbis3Pagina: null,
+      SubtotalImpuestoAdicionalPagina: null,
+      SubtotalImpuestoAdicional: {
+        SubtotalImpuestoSelectivoConsumoEspecificoPagina: null,
+        SubtotalOtrosImpuesto: null,
+      },
+      MontoSubtotalPagina: null,
+      SubtotalMontoNoFacturablePagina: null,
+    },
+  },
+  InformacionReferencia: {
+    NCFModificado: null,
+    RNCOtroContribuyente: null,
+    FechaNCFModificado: null,
+    CodigoModificacion: null,
+    RazonModificacion: null,
+  },
+  FechaHoraFirma: null,
+};
+
+const isEmpty = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Copia el valor con las claves en el orden del XSD y sin los campos vacíos.
+ * Los campos que no existen en la sección se reportan en errors.
+ */
+export const orderFields = (value: any, order: FieldOrder, xpath: string, errors: EcfFieldError[]): any => {
+  if (Array.isArray(value)) {
+    return value.map((element, index) =>
+      orderFields(element, order, value.length > 1 ? `${xpath}[${index + 1}]` : xpath, errors)
+    );
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    errors.push({ xpath, message: 'Expected a section, got a value' });
+    return value;
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!(field in order)) {
+      errors.push({ xpath: `${xpath}/${field}`, message: 'Unknown field' });
+    }
+  }
+
+  const ordered: Record<string, any> = {};
+  for (const [field, child] of Object.entries(order)) {
+    const fieldValue = value[field];
+    if (isEmpty(fieldValue)) {
+      continue;
+    }
+    ordered[field] = child ? orderFields(fieldValue, child, `${xpath}/${field}`, errors) : fieldValue;
+  }
+
+  return ordered;
+};
@@ -0,0 +1,230 @@
+import { Ecf, EcfFieldError, EcfTipo, IndicadorFacturacion } from '../types';
+
+/**
+ * Monto a partir del cual una factura de consumo (32) debe identificar al comprador
+ */
+export const CONSUMO_IDENTIFICATION_THRESHOLD = 250000;
+
+/**
+ * Campos obligatorios y no permitidos de un TipoeCF. Las rutas son relativas a /ECF;
+ * si atraviesan una lista (p.ej. DetallesItems/Item/Retencion) aplican a cada elemento.
+ */
+export interface EcfTypeRules {
+  tipoeCF: EcfTipo;
+  name: string;
+  required: string[];
+  forbidden: string[];
+  // IndicadorFacturacion permitidos en las líneas y en los descuentos o recargos globales
+  indicadoresFacturacion: IndicadorFacturacion[];
+  check?: (ecf: Ecf) => EcfFieldError[];
+}
+
+const COMMON_REQUIRED = [
+  'Encabezado/Version',
+  'Encabezado/IdDoc/TipoeCF',
+  'Encabezado/Emisor/RNCEmisor',
+  'Encabezado/Emisor/RazonSocialEmisor',
+  'Encabezado/Emisor/DireccionEmisor',
+  'Encabezado/Emisor/FechaEmision',
+  'Encabezado/Totales/MontoTotal',
+  'DetallesItems/Item',
+  'DetallesItems/Item/NumeroLinea',
+  'DetallesItems/Item/IndicadorFacturacion',
+  'DetallesItems/Item/NombreItem',
+  'DetallesItems/Item/IndicadorBienoServicio',
+  'DetallesItems/Item/CantidadItem',
+  'DetallesItems/Item/PrecioUnitarioItem',
+  'DetallesItems/Item/MontoItem',
+];
+
+const COMPRADOR_IDENTIFICADO = ['Encabezado/Comprador/RNCComprador', 'Encabezado/Comprador/RazonSocialComprador'];
+
+const INFORMACION_REFERENCIA = [
+  'InformacionReferencia/NCFModificado',
+  'InformacionReferencia/FechaNCFModificado',
+  'InformacionReferencia/CodigoModificacion',
+];
+
+// Montos y tasas de ITBIS, para los tipos que no llevan ITBIS
+const ITBIS_TOTALES = [
+  'Encabezado/Totales/MontoGravadoTotal',
+  'Encabezado/Totales/MontoGravadoI1',
+  'Encabezado/Totales/MontoGravadoI2',
+  'Encabezado/Totales/MontoGravadoI3',
+  'Encabezado/Totales/ITBIS1',
+  'Encabezado/Totales/ITBIS2',
+  'Encabezado/Totales/ITBIS3',
+  'Encabezado/Totales/TotalITBIS',
+  'Encabezado/Totales/TotalITBIS1',
+  'Encabezado/Totales/TotalITBIS2',
+  'Encabezado/Totales/TotalITBIS3',
+];
+
+const ALL_INDICADORES: IndicadorFacturacion[] = [0, 1, 2, 3, 4];
+
+/**
+ * Una factura de consumo igual o mayor a CONSUMO_IDENTIFICATION_THRESHOLD debe identificar al comprador
+ */
+const consumoIdentification = (ecf: Ecf): EcfFieldError[] => {
+  const comprador = ecf.Encabezado?.Comprador;
+  if (Number(ecf.Encabezado?.Totales?.MontoTotal) < CONSUMO_IDENTIFICATION_THRESHOLD) {
+    return [];
+  }
+
+  const errors: EcfFieldError[] = [];
+  if (!comprador?.RNCComprador && !comprador?.IdentificadorExtranjero) {
+    errors.push({
+      xpath: '/ECF/Encabezado/Comprador/RNCComprador',
+      message: `Required when MontoTotal is ${CONSUMO_IDENTIFICATION_THRESHOLD} or more`,
+    });
+  }
+  if (!comprador?.RazonSocialComprador) {
+    errors.push({
+      xpath: '/ECF/Encabezado/Comprador/RazonSocialComprador',
+      message: `Required when MontoTotal is ${CONSUMO_IDENTIFICATION_THRESHOLD} or more`,
+    });
+  }
+  return errors;
+};
+
+export const ECF_TYPE_RULES: Record<EcfTipo, EcfTypeRules> = {
+  31: {
+    tipoeCF: 31,
+    name: 'Factura de Crédito Fiscal Electrónica',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/IdDoc/TipoPago',
+      ...COMPRADOR_IDENTIFICADO,
+    ],
+    forbidden: ['Encabezado/IdDoc/IndicadorNotaCredito'],
+    indicadoresFacturacion: ALL_INDICADORES,
+  },
+  32: {
+    tipoeCF: 32,
+    name: 'Factura de Consumo Electrónica',
+    required: [...COMMON_REQUIRED, 'Encabezado/IdDoc/TipoIngresos', 'Encabezado/IdDoc/TipoPago'],
+    forbidden: ['Encabezado/IdDoc/FechaVencimientoSecuencia', 'Encabezado/IdDoc/IndicadorNotaCredito'],
+    indicadoresFacturacion: ALL_INDICADORES,
+    check: consumoIdentification,
+  },
+  33: {
+    tipoeCF: 33,
+    name: 'Nota de Débito Electrónica',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoIngresos',
+      ...INFORMACION_REFERENCIA,
+    ],
+    forbidden: ['Encabezado/IdDoc/IndicadorNotaCredito'],
+    indicadoresFacturacion: ALL_INDICADORES,
+  },
+  34: {
+    tipoeCF: 34,
+    name: 'Nota de Crédito Electrónica',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/IndicadorNotaCredito',
+      'Encabezado/IdDoc/TipoIngresos',
+      ...INFORMACION_REFERENCIA,
+    ],
+    forbidden: ['Encabezado/IdDoc/FechaVencimientoSecuencia'],
+    indicadoresFacturacion: ALL_INDICADORES,
+  },
+  41: {
+    tipoeCF: 41,
+    name: 'Comprobante Electrónico de Compras',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoPago',
+      ...COMPRADOR_IDENTIFICADO,
+    ],
+    forbidden: ['Encabezado/IdDoc/TipoIngresos', 'Encabezado/IdDoc/IndicadorNotaCredito'],
+    indicadoresFacturacion: ALL_INDICADORES,
+  },
+  43: {
+    tipoeCF: 43,
+    name: 'Comprobante Electrónico para Gastos Menores',
+    required: [...COMMON_REQUIRED, 'Encabezado/IdDoc/FechaVencimientoSecuencia'],
+    forbidden: [
+      'Encabezado/IdDoc/IndicadorNotaCredito',
+      'Encabezado/IdDoc/IndicadorMontoGravado',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/Comprador',
+      ...ITBIS_TOTALES,
+      'DetallesItems/Item/Retencion',
+    ],
+    indicadoresFacturacion: [0, 4],
+  },
+  44: {
+    tipoeCF: 44,
+    name: 'Comprobante Electrónico para Regímenes Especiales',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/IdDoc/TipoPago',
+      ...COMPRADOR_IDENTIFICADO,
+    ],
+    forbidden: ['Encabezado/IdDoc/IndicadorNotaCredito', 'Encabezado/IdDoc/IndicadorMontoGravado', ...ITBIS_TOTALES],
+    indicadoresFacturacion: [0, 4],
+  },
+  45: {
+    tipoeCF: 45,
+    name: 'Comprobante Electrónico Gubernamental',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/IdDoc/TipoPago',
+      ...COMPRADOR_IDENTIFICADO,
+    ],
+    forbidden: ['Encabezado/IdDoc/IndicadorNotaCredito'],
+    indicadoresFacturacion: ALL_INDICADORES,
+  },
+  46: {
+    tipoeCF: 46,
+    name: 'Comprobante Electrónico para Exportaciones',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/IdDoc/TipoPago',
+      'Encabezado/Comprador/RazonSocialComprador',
+    ],
+    // Las exportaciones solo llevan ITBIS a tasa 0%
+    forbidden: [
+      'Encabezado/IdDoc/IndicadorNotaCredito',
+      'Encabezado/IdDoc/IndicadorMontoGravado',
+      'Encabezado/Totales/MontoGravadoI1',
+      'Encabezado/Totales/MontoGravadoI2',
+      'Encabezado/Totales/ITBIS1',
+      'Encabezado/Totales/ITBIS2',
+      'Encabezado/Totales/TotalITBIS1',
+      'Encabezado/Totales/TotalITBIS2',
+    ],
+    indicadoresFacturacion: [0, 3, 4],
+  },
+  47: {
+    tipoeCF: 47,
+    name: 'Comprobante Electrónico para Pagos al Exterior',
+    required: [
+      ...COMMON_REQUIRED,
+      'Encabezado/IdDoc/FechaVencimientoSecuencia',
+      'Encabezado/Comprador/RazonSocialComprador',
+      'DetallesItems/Item/Retencion',
+    ],
+    // El beneficiario del exterior se identifica con IdentificadorExtranjero, no con RNC
+    forbidden: [
+      'Encabezado/IdDoc/IndicadorNotaCredito',
+      'Encabezado/IdDoc/IndicadorMontoGravado',
+      'Encabezado/IdDoc/TipoIngresos',
+      'Encabezado/Comprador/RNCComprador',
+      ...ITBIS_TOTALES,
+    ],
+    indicadoresFacturacion: [0, 4],
+  },
+};
@@ -0,0 +1,3 @@
+export * from './ecfBuilder';
+export { ECF_TYPE_RULES, CONSUMO_IDENTIFICATION_THRESHOLD, EcfTypeRules } from './ecfTypeRules';
+export { ECF_FIELD_ORDER } from './ecfFieldOrder';
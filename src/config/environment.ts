@@ -9,12 +9,50 @@ interface Config {
   certificatePath: string;
   certificatePassword: string;
   certificateBase64: string;
+  certificateTrustAnchorsPath: string; // Directorio con los certificados de las CA aceptadas por DGII
   dgiiEnvironment: 'test' | 'cert' | 'prod';
-  apiKey: string;
+  apiKey: string; // API key maestra: acceso de administrador (gestión de tenants y todos los RNC)
+  encryptionKey: string; // Clave para cifrar los certificados y contraseñas de los tenants
   logLevel: string;
   rncReceptor: string; // RNC del receptor para el endpoint Emisor-Receptor
-  odooWebhookUrl: string; // URL del endpoint de Odoo para notificar recepciones
+  receptorAuthEnabled: boolean; // Exigir el token de validacioncertificado en los endpoints de recepción
+  receptorSeedTtlMs: number; // Vigencia de una semilla emitida para firmarla y validarla
+  odooWebhookUrl: string; // URL de Odoo; al iniciar se registra como suscripción al evento ecf.received
   odooWebhookApiKey: string; // API Key para autenticar con Odoo
+  databaseClient: 'sqlite' | 'postgres'; // Motor de persistencia de documentos
+  databasePath: string; // Archivo SQLite
+  databaseUrl: string; // Cadena de conexión PostgreSQL
+  sequenceLowThreshold: number; // Cantidad restante de e-NCF a partir de la cual se advierte
+  sequenceExpiryWarningDays: number; // Días antes del vencimiento del rango para advertir
+  jobPollIntervalMs: number; // Frecuencia con la que el worker busca trabajos pendientes
+  jobMaxAttempts: number; // Intentos máximos por trabajo antes de marcarlo como fallido
+  jobRetryBaseDelayMs: number; // Espera del primer reintento (se duplica en cada intento)
+  jobRetryMaxDelayMs: number; // Espera máxima entre reintentos
+  statusPollEnabled: boolean; // Consultar en segundo plano el estado de los trackId pendientes
+  statusPollIntervalMs: number; // Frecuencia de la consulta de estados
+  statusPollBatchSize: number; // Documentos consultados por ciclo
+  statusPollMaxAgeHours: number; // Antigüedad máxima de un documento para seguir consultándolo
+  xsdPath: string; // Directorio con los XSD oficiales de DGII
+  xsdValidationEnabled: boolean; // Validar cada documento contra su XSD antes de firmarlo
+  xsdRequireSchemas: boolean; // Rechazar documentos cuyo XSD no está instalado en lugar de omitir la validación
+  invoiceRulesEnabled: boolean; // Verificar que los totales del e-CF cuadren con las líneas antes de firmarlo
+  invoiceTotalsTolerance: number; // Diferencia máxima admitida en Totales y Subtotales
+  invoiceItemTolerance: number; // Diferencia máxima admitida en MontoItem
+  consumoSummaryThreshold: number; // Facturas de consumo (32) por debajo de este monto se envían como RFCE; 0 las envía siempre como e-CF
+  receivedSignatureVerificationEnabled: boolean; // Verificar la firma de los e-CF (antes de emitir el ARECF) y ACECF recibidos
+  receptorDisabledRules: string[]; // Reglas de recepción desactivadas por defecto (los tenants pueden activarlas)
+  commercialApprovalDeadlineDays: number; // Plazo de DGII para aprobar o rechazar comercialmente un e-CF recibido
+  commercialApprovalReminderDays: number[]; // Días antes del plazo en los que se recuerda (una vez por umbral)
+  commercialApprovalAutoApprove: boolean; // Aprobar automáticamente los e-CF pendientes al vencer el plazo
+  commercialApprovalCheckEnabled: boolean; // Revisar periódicamente los plazos de aprobación
+  commercialApprovalCheckIntervalMs: number; // Frecuencia de la revisión de plazos
+  contingencyAutoEnabled: boolean; // Activar la contingencia cuando DGII falla de forma consecutiva
+  contingencyFailureThreshold: number; // Fallas transitorias consecutivas que activan la contingencia
+  contingencyCheckEnabled: boolean; // Enviar periódicamente los documentos pendientes de contingencia
+  contingencyCheckIntervalMs: number; // Frecuencia del envío de pendientes (y prueba de conectividad)
+  certificateCheckEnabled: boolean; // Revisar periódicamente el vencimiento de los certificados
+  certificateCheckIntervalMs: number; // Frecuencia de la revisión de vencimiento
+  certificateExpiryWarningDays: number[]; // Días antes del vencimiento en los que se alerta (una vez por umbral)
 }
 
 const config: Config = {
@@ -23,12 +61,62 @@ const config: Config = {
   certificatePath: process.env.CERTIFICATE_PATH || path.join(__dirname, '../../certificates/certificado.p12'),
   certificatePassword: process.env.CERTIFICATE_PASSWORD || '',
   certificateBase64: process.env.CERTIFICATE_BASE64 || '',
+  certificateTrustAnchorsPath:
+    process.env.CERTIFICATE_TRUST_ANCHORS_PATH || path.join(__dirname, '../../certificates/trust-anchors'),
   dgiiEnvironment: (process.env.DGII_ENVIRONMENT as 'test' | 'cert' | 'prod') || 'test',
   apiKey: process.env.API_KEY || 'development_api_key',
+  encryptionKey: process.env.ENCRYPTION_KEY || '',
   logLevel: process.env.LOG_LEVEL || 'info',
   rncReceptor: process.env.RNC_RECEPTOR || '', // RNC del receptor para endpoint DGII
+  receptorAuthEnabled: process.env.RECEPTOR_AUTH_ENABLED !== 'false',
+  receptorSeedTtlMs: parseInt(process.env.RECEPTOR_SEED_TTL_MS || '120000', 10),
   odooWebhookUrl: process.env.ODOO_WEBHOOK_URL || '', // URL del endpoint de Odoo
   odooWebhookApiKey: process.env.ODOO_WEBHOOK_API_KEY || '', // API Key para Odoo
+  databaseClient: (process.env.DATABASE_CLIENT as 'sqlite' | 'postgres') || 'sqlite',
+  databasePath: process.env.DATABASE_PATH || path.join(__dirname, '../../data/dgii-ecf.db'),
+  databaseUrl: process.env.DATABASE_URL || '',
+  sequenceLowThreshold: parseInt(process.env.SEQUENCE_LOW_THRESHOLD || '100', 10),
+  sequenceExpiryWarningDays: parseInt(process.env.SEQUENCE_EXPIRY_WARNING_DAYS || '30', 10),
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10),
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '8', 10),
+  jobRetryBaseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000', 10),
+  jobRetryMaxDelayMs: parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || '600000', 10),
+  statusPollEnabled: process.env.STATUS_POLL_ENABLED !== 'false',
+  statusPollIntervalMs: parseInt(process.env.STATUS_POLL_INTERVAL_MS || '60000', 10),
+  statusPollBatchSize: parseInt(process.env.STATUS_POLL_BATCH_SIZE || '20', 10),
+  statusPollMaxAgeHours: parseInt(process.env.STATUS_POLL_MAX_AGE_HOURS || '72', 10),
+  xsdPath: process.env.XSD_PATH || path.join(__dirname, '../../xsd'),
+  xsdValidationEnabled: process.env.XSD_VALIDATION_ENABLED !== 'false',
+  xsdRequireSchemas: process.env.XSD_REQUIRE_SCHEMAS === 'true',
+  invoiceRulesEnabled: process.env.INVOICE_RULES_ENABLED !== 'false',
+  invoiceTotalsTolerance: parseFloat(process.env.INVOICE_TOTALS_TOLERANCE || '1'),
+  invoiceItemTolerance: parseFloat(process.env.INVOICE_ITEM_TOLERANCE || '0.01'),
+  consumoSummaryThreshold: parseFloat(process.env.CONSUMO_SUMMARY_THRESHOLD || '250000'),
+  receivedSignatureVerificationEnabled: process.env.RECEIVED_SIGNATURE_VERIFICATION_ENABLED !== 'false',
+  receptorDisabledRules: (process.env.RECEPTOR_DISABLED_RULES || '')
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter(Boolean),
+  commercialApprovalDeadlineDays: parseInt(process.env.COMMERCIAL_APPROVAL_DEADLINE_DAYS || '30', 10),
+  commercialApprovalReminderDays: (process.env.COMMERCIAL_APPROVAL_REMINDER_DAYS || '7,3,1')
+    .split(',')
+    .map((days) => parseInt(days, 10))
+    .filter((days) => !isNaN(days) && days > 0)
+    .sort((a, b) => b - a),
+  commercialApprovalAutoApprove: process.env.COMMERCIAL_APPROVAL_AUTO_APPROVE === 'true',
+  commercialApprovalCheckEnabled: process.env.COMMERCIAL_APPROVAL_CHECK_ENABLED !== 'false',
+  commercialApprovalCheckIntervalMs: parseInt(process.env.COMMERCIAL_APPROVAL_CHECK_INTERVAL_MS || '3600000', 10),
+  contingencyAutoEnabled: process.env.CONTINGENCY_AUTO_ENABLED !== 'false',
+  contingencyFailureThreshold: parseInt(process.env.CONTINGENCY_FAILURE_THRESHOLD || '3', 10),
+  contingencyCheckEnabled: process.env.CONTINGENCY_CHECK_ENABLED !== 'false',
+  contingencyCheckIntervalMs: parseInt(process.env.CONTINGENCY_CHECK_INTERVAL_MS || '60000', 10),
+  certificateCheckEnabled: process.env.CERTIFICATE_CHECK_ENABLED !== 'false',
+  certificateCheckIntervalMs: parseInt(process.env.CERTIFICATE_CHECK_INTERVAL_MS || '21600000', 10),
+  certificateExpiryWarningDays: (process.env.CERTIFICATE_EXPIRY_WARNING_DAYS || '60,30,7,1')
+    .split(',')
+    .map((days) => parseInt(days, 10))
+    .filter((days) => !isNaN(days) && days > 0)
+    .sort((a, b) => b - a),
 };
 
 export default config;
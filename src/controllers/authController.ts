@@ -2,11 +2,12 @@ import { Request, Response } from 'express';
 import dgiiService from '../services/dgiiService';
 import { ApiResponse, AuthRequest } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
+import { resolveEnvironment, resolveRnc } from '../middleware/auth';
 
 export const authenticate = asyncHandler(async (req: Request, res: Response) => {
-  const { environment } = req.body as AuthRequest;
+  const { rnc, environment } = req.body as AuthRequest;
 
-  const tokenData = await dgiiService.authenticate(undefined, environment);
+  const tokenData = await dgiiService.authenticate(resolveRnc(req, rnc), resolveEnvironment(req, environment));
 
   const response: ApiResponse = {
     success: true,
@@ -1,12 +1,14 @@
 import { Request, Response } from 'express';
 import certificateService from '../services/certificateService';
-import { ApiResponse } from '../types';
-import { asyncHandler } from '../middleware/errorHandler';
+import certificateMonitorService from '../services/certificateMonitorService';
+import { ApiResponse, UploadCertificateRequest } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { canAccessRnc, resolveRnc } from '../middleware/auth';
 
 export const getCertificateInfo = asyncHandler(async (req: Request, res: Response) => {
   const { rnc } = req.query;
 
-  const info = certificateService.getCertificateInfo(rnc as string);
+  const info = await certificateService.getCertificateInfo(resolveRnc(req, rnc as string | undefined));
 
   const response: ApiResponse = {
     success: true,
@@ -15,3 +17,67 @@ export const getCertificateInfo = asyncHandler(async (req: Request, res: Respons
 
   res.json(response);
 });
+
+/**
+ * Sube y activa un nuevo certificado para el RNC; el activo queda disponible para rollback
+ */
+export const uploadCertificate = asyncHandler(async (req: Request, res: Response) => {
+  const data = req.body as UploadCertificateRequest;
+
+  const certificate = await certificateService.uploadCertificate({ ...data, rnc: resolveRnc(req, data.rnc) as string });
+
+  const response: ApiResponse = {
+    success: true,
+    data: certificate,
+  };
+
+  res.status(201).json(response);
+});
+
+export const listCertificates = asyncHandler(async (req: Request, res: Response) => {
+  const rnc = req.query.rnc as string | undefined;
+
+  const certificates = await certificateService.listStoredCertificates(rnc ? resolveRnc(req, rnc) : undefined);
+
+  const response: ApiResponse = {
+    success: true,
+    data: certificates.filter((certificate) => canAccessRnc(req, certificate.rnc)),
+  };
+
+  res.json(response);
+});
+
+export const rollbackCertificate = asyncHandler(async (req: Request, res: Response) => {
+  const { rnc } = req.body as { rnc: string };
+
+  const certificate = await certificateService.rollbackCertificate(resolveRnc(req, rnc) as string);
+
+  const response: ApiResponse = {
+    success: true,
+    data: certificate,
+  };
+
+  res.json(response);
+});
+
+/**
+ * Certificados en uso que vencen dentro de `days` días (por defecto el mayor umbral de alerta) o ya vencidos
+ */
+export const listExpiringCertificates = asyncHandler(async (req: Request, res: Response) => {
+  const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+  if (days !== undefined && (isNaN(days) || days < 0)) {
+    throw new AppError('days must be a non-negative integer', 400);
+  }
+
+  const certificates = await certificateMonitorService.listExpiring(days);
+
+  const response: ApiResponse = {
+    success: true,
+    // El certificado por defecto (sin RNC) solo lo ve el administrador
+    data: certificates.filter((certificate) =>
+      certificate.rncs.length ? certificate.rncs.some((rnc) => canAccessRnc(req, rnc)) : canAccessRnc(req)
+    ),
+  };
+
+  res.json(response);
+});
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import contingencyService from '../services/contingencyService';
+import contingencyMonitorService from '../services/contingencyMonitorService';
+import { ApiResponse } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { resolveEnvironment, resolveRnc } from '../middleware/auth';
+
+export const getContingency = asyncHandler(async (req: Request, res: Response) => {
+  const state = await contingencyService.getState(resolveEnvironment(req, req.query.environment as string | undefined));
+
+  const response: ApiResponse = {
+    success: true,
+    data: state,
+  };
+
+  res.json(response);
+});
+
+export const startContingency = asyncHandler(async (req: Request, res: Response) => {
+  const { environment, reason } = req.body as { environment?: string; reason?: string };
+
+  const period = await contingencyService.start(environment, 'manual', reason);
+
+  const response: ApiResponse = {
+    success: true,
+    data: period,
+    message: 'Contingency started',
+  };
+
+  res.status(201).json(response);
+});
+
+/**
+ * Termina la contingencia y empieza a enviar los pendientes en segundo plano
+ */
+export const endContingency = asyncHandler(async (req: Request, res: Response) => {
+  const { environment } = req.body as { environment?: string };
+
+  const period = await contingencyService.end(environment);
+  const { pending } = await contingencyService.getState(period.environment);
+
+  contingencyMonitorService.check();
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...period, pending },
+  };
+
+  res.json(response);
+});
+
+export const getContingencyReport = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  const report = await contingencyService.getReport({
+    environment: query.environment,
+    rncs: query.rnc ? [resolveRnc(req, query.rnc) as string] : req.tenant?.rncs,
+    from: query.from,
+    to: query.to,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: report,
+  };
+
+  res.json(response);
+});
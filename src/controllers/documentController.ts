@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import documentService from '../services/documentService';
+import { ApiResponse, DocumentSearchFilters } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { canAccessRnc } from '../middleware/auth';
+
+/**
+ * Un tenant solo ve los documentos emitidos o recibidos por sus RNC
+ */
+const getAccessibleDocument = async (req: Request, id: string) => {
+  const document = await documentService.getById(id);
+  if (!canAccessRnc(req, document.rncEmisor) && !canAccessRnc(req, document.rncComprador)) {
+    throw new AppError(`Document not found: ${id}`, 404);
+  }
+  return document;
+};
+
+export const searchDocuments = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  const filters: DocumentSearchFilters = {
+    direction: query.direction as DocumentSearchFilters['direction'],
+    documentType: query.documentType as DocumentSearchFilters['documentType'],
+    tipoEcf: query.tipoEcf,
+    rncEmisor: query.rncEmisor,
+    rncComprador: query.rncComprador,
+    rncs: req.tenant?.rncs,
+    encf: query.encf,
+    trackId: query.trackId,
+    environment: query.environment,
+    commercialStatus: query.commercialStatus as DocumentSearchFilters['commercialStatus'],
+    from: query.from,
+    to: query.to,
+    limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    offset: query.offset ? parseInt(query.offset, 10) : undefined,
+  };
+
+  const result = await documentService.search(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+export const getDocument = asyncHandler(async (req: Request, res: Response) => {
+  const document = await getAccessibleDocument(req, req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: document,
+  };
+
+  res.json(response);
+});
+
+/**
+ * Descarga el XML firmado tal como fue emitido o recibido
+ */
+export const getDocumentXml = asyncHandler(async (req: Request, res: Response) => {
+  const document = await getAccessibleDocument(req, req.params.id);
+  const filename = document.fileName || `${document.documentType}_${document.id}.xml`;
+
+  res.set('Content-Type', 'application/xml');
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(document.signedXml);
+});
+
+/**
+ * Historial de estados DGII del documento, registrado por el consultor de trackId
+ */
+export const getDocumentStatusHistory = asyncHandler(async (req: Request, res: Response) => {
+  await getAccessibleDocument(req, req.params.id);
+  const history = await documentService.getStatusHistory(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: history,
+  };
+
+  res.json(response);
+});
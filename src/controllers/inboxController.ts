@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import inboxService from '../services/inboxService';
+import commercialApprovalService from '../services/commercialApprovalService';
+import documentService from '../services/documentService';
+import { ApiResponse, InboxSearchFilters } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { canAccessRnc } from '../middleware/auth';
+
+/**
+ * Un tenant solo ve los e-CF recibidos por sus RNC
+ */
+const getAccessibleEntry = async (req: Request, id: string) => {
+  const entry = await inboxService.getEntry(id);
+  if (!canAccessRnc(req, entry.rncComprador)) {
+    throw new AppError(`Inbox entry not found: ${id}`, 404);
+  }
+  return entry;
+};
+
+const parseBoolean = (value?: string): boolean | undefined =>
+  value === undefined ? undefined : value === 'true';
+
+export const searchInbox = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  const filters: InboxSearchFilters = {
+    rncEmisor: query.rncEmisor,
+    rncComprador: query.rncComprador,
+    rncs: req.tenant?.rncs,
+    tipoEcf: query.tipoEcf,
+    arecfStatus: query.arecfStatus,
+    approvalStatus: query.approvalStatus as InboxSearchFilters['approvalStatus'],
+    acknowledged: parseBoolean(query.acknowledged),
+    from: query.from,
+    to: query.to,
+    limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    offset: query.offset ? parseInt(query.offset, 10) : undefined,
+  };
+
+  const result = await inboxService.search(filters);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+export const getInboxEntry = asyncHandler(async (req: Request, res: Response) => {
+  const entry = await getAccessibleEntry(req, req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: entry,
+  };
+
+  res.json(response);
+});
+
+/**
+ * Descarga el e-CF tal como lo envió el emisor
+ */
+export const getInboxXml = asyncHandler(async (req: Request, res: Response) => {
+  const entry = await getAccessibleEntry(req, req.params.id);
+  const document = await documentService.getById(entry.id);
+  const filename = document.fileName || `ECF_${document.id}.xml`;
+
+  res.set('Content-Type', 'application/xml');
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(document.signedXml);
+});
+
+/**
+ * Descarga el ARECF firmado con el que se respondió al emisor
+ */
+export const getInboxArecfXml = asyncHandler(async (req: Request, res: Response) => {
+  const entry = await getAccessibleEntry(req, req.params.id);
+  if (!entry.arecfDocumentId) {
+    throw new AppError(`The inbox entry has no stored ARECF: ${entry.id}`, 404);
+  }
+  const document = await documentService.getById(entry.arecfDocumentId);
+
+  res.set('Content-Type', 'application/xml');
+  res.set('Content-Disposition', `attachment; filename="ARECF_${entry.rncEmisor || ''}${entry.encf || document.id}.xml"`);
+  res.send(document.signedXml);
+});
+
+export const acknowledgeInboxEntry = asyncHandler(async (req: Request, res: Response) => {
+  await getAccessibleEntry(req, req.params.id);
+  await inboxService.acknowledge([req.params.id], req.method !== 'DELETE');
+
+  const response: ApiResponse = {
+    success: true,
+    data: await inboxService.getEntry(req.params.id),
+  };
+
+  res.json(response);
+});
+
+/**
+ * Confirma varios documentos a la vez; falla sin cambiar ninguno si alguno no existe o no es accesible
+ */
+export const acknowledgeInbox = asyncHandler(async (req: Request, res: Response) => {
+  const ids: string[] = Array.from(new Set(req.body.ids as string[]));
+  for (const id of ids) {
+    await getAccessibleEntry(req, id);
+  }
+
+  const changed = await inboxService.acknowledge(ids, req.body.acknowledged !== false);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { changed },
+  };
+
+  res.json(response);
+});
+
+/**
+ * Envía el ACECF aprobando (Estado 1) o rechazando (Estado 2) el e-CF recibido
+ */
+const decideEntry = async (req: Request, res: Response, approve: boolean) => {
+  await getAccessibleEntry(req, req.params.id);
+  const result = await commercialApprovalService.decide(req.params.id, approve, req.body?.reason);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+};
+
+/**
+ * Aprueba o rechaza varios e-CF. Si algún ID no existe o no es accesible no se envía ninguno;
+ * si falla el envío de alguno, los demás se procesan igual y se reporta el error de cada uno.
+ */
+const decideEntries = async (req: Request, res: Response, approve: boolean) => {
+  const ids: string[] = Array.from(new Set(req.body.ids as string[]));
+  for (const id of ids) {
+    await getAccessibleEntry(req, id);
+  }
+
+  const results = await commercialApprovalService.decideMany(ids, approve, req.body.reason);
+  const failed = results.filter((result) => result.error).length;
+
+  const response: ApiResponse = {
+    success: failed === 0,
+    data: {
+      succeeded: results.length - failed,
+      failed,
+      results,
+    },
+  };
+
+  res.json(response);
+};
+
+export const approveInboxEntry = asyncHandler((req: Request, res: Response) => decideEntry(req, res, true));
+
+export const rejectInboxEntry = asyncHandler((req: Request, res: Response) => decideEntry(req, res, false));
+
+export const approveInbox = asyncHandler((req: Request, res: Response) => decideEntries(req, res, true));
+
+export const rejectInbox = asyncHandler((req: Request, res: Response) => decideEntries(req, res, false));
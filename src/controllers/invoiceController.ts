@@ -1,13 +1,32 @@
 import { Request, Response } from 'express';
+import { NoReceivedCode } from 'dgii-ecf';
 import dgiiService from '../services/dgiiService';
-import { ApiResponse, SendInvoiceRequest, SignXmlRequest, InquiryRequest } from '../types';
+import invoiceRulesService from '../services/invoiceRulesService';
+import simpleInvoiceService from '../services/simpleInvoiceService';
+import noteService from '../services/noteService';
+import receptorTokenService from '../services/receptorTokenService';
+import {
+  ApiResponse,
+  CreateNoteRequest,
+  InvoiceData,
+  NoteKind,
+  SendInvoiceRequest,
+  SendSimpleInvoiceRequest,
+  SignXmlRequest,
+  InquiryRequest,
+  ValidateDocumentRequest,
+  ValidateTotalsRequest,
+} from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
+import { resolveEnvironment, resolveRnc } from '../middleware/auth';
 import config from '../config/environment';
+import logger from '../utils/logger';
+import { detectDocumentType } from '../utils/documentType';
 
 export const signXml = asyncHandler(async (req: Request, res: Response) => {
   const { xmlData, documentType } = req.body as SignXmlRequest;
 
-  const result = await dgiiService.signXml(xmlData, documentType);
+  const result = await dgiiService.signXml(xmlData, documentType, resolveRnc(req));
 
   const response: ApiResponse = {
     success: true,
@@ -17,35 +36,6 @@ export const signXml = asyncHandler(async (req: Request, res: Response) => {
   res.json(response);
 });
 
-/**
- * Detecta el tipo de documento (nodo raíz) de un XML
- */
-function detectDocumentType(xmlData: string): string | null {
-  // Lista de tipos conocidos de DGII
-  const knownTypes = ['ECF', 'RFCE', 'ARECF', 'ACECF', 'ANECF', 'SemillaModel'];
-
-  for (const type of knownTypes) {
-    if (xmlData.includes(`<${type}`) || xmlData.includes(`<${type}>`)) {
-      return type;
-    }
-  }
-
-  // Si no es un tipo conocido, intentar detectar el primer elemento raíz
-  // Buscar el primer tag después del prólogo XML
-  const match = xmlData.match(/<\?xml[^?]*\?>\s*<([a-zA-Z_][a-zA-Z0-9_-]*)/);
-  if (match && match[1]) {
-    return match[1];
-  }
-
-  // Buscar el primer tag si no hay prólogo
-  const matchNoProlog = xmlData.match(/^\s*<([a-zA-Z_][a-zA-Z0-9_-]*)/);
-  if (matchNoProlog && matchNoProlog[1]) {
-    return matchNoProlog[1];
-  }
-
-  return null;
-}
-
 /**
  * Endpoint para firmar un archivo XML directamente
  * Acepta XML como body y devuelve el XML firmado para descarga
@@ -56,7 +46,7 @@ function detectDocumentType(xmlData: string): string | null {
 export const signXmlFile = asyncHandler(async (req: Request, res: Response) => {
   // documentType es opcional - si no se provee, se detecta automáticamente
   let documentType = req.query.documentType as string | undefined;
-  const rnc = req.query.rnc as string | undefined;
+  const rnc = resolveRnc(req, req.query.rnc as string | undefined);
   const download = req.query.download !== 'false'; // Por defecto descargar
 
   console.log('\n========== SIGN XML FILE ==========');
@@ -126,10 +116,133 @@ export const signXmlFile = asyncHandler(async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Verifica la firma de un XML firmado (de un proveedor, de DGII o propio) sin procesarlo
+ * Acepta XML como body o JSON con xmlData
+ * Path: /api/invoice/verify
+ */
+export const verifySignature = asyncHandler(async (req: Request, res: Response) => {
+  let xmlData: string | undefined;
+  if (req.body instanceof Buffer) {
+    xmlData = req.body.toString('utf-8');
+  } else if (typeof req.body === 'string') {
+    xmlData = req.body;
+  } else if (typeof req.body === 'object' && typeof req.body.xmlData === 'string') {
+    xmlData = req.body.xmlData;
+  }
+
+  if (!xmlData || !xmlData.includes('<')) {
+    res.status(400).json({
+      success: false,
+      error: 'XML data is required. Send XML as raw body or as xmlData field',
+    });
+    return;
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: dgiiService.verifySignedDocument(xmlData),
+  };
+
+  res.json(response);
+});
+
+/**
+ * Envía la factura a DGII, o la firma y encola si se pide ?async=true (el envío ocurre en segundo plano)
+ */
+const submitInvoice = async (
+  req: Request,
+  res: Response,
+  invoiceData: InvoiceData,
+  rnc: string,
+  encf?: string,
+  environment?: string,
+  parentId?: string
+): Promise<void> => {
+  if (req.query.async === 'true') {
+    const queued = await dgiiService.enqueueInvoice(invoiceData, rnc, encf, environment, parentId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: queued,
+    };
+
+    res.status(202).json(response);
+    return;
+  }
+
+  const result = await dgiiService.sendInvoice(invoiceData, rnc, encf, environment, parentId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  // En contingencia la factura queda firmada y se envía a DGII más tarde
+  res.status(result.contingency ? 202 : 200).json(response);
+};
+
 export const sendInvoice = asyncHandler(async (req: Request, res: Response) => {
   const { invoiceData, rnc, encf, environment } = req.body as SendInvoiceRequest;
 
-  const result = await dgiiService.sendInvoice(invoiceData, rnc, encf, environment);
+  await submitInvoice(req, res, invoiceData, resolveRnc(req, rnc) as string, encf, resolveEnvironment(req, environment));
+});
+
+/**
+ * Traduce la factura en formato simplificado al e-CF de DGII y la envía por el mismo flujo que /send
+ */
+export const sendSimpleInvoice = asyncHandler(async (req: Request, res: Response) => {
+  const { invoice, rnc, encf, environment } = req.body as SendSimpleInvoiceRequest;
+  const issuerRnc = resolveRnc(req, rnc) as string;
+
+  const invoiceData = simpleInvoiceService.toInvoiceData(invoice, issuerRnc, encf);
+
+  await submitInvoice(req, res, invoiceData, issuerRnc, encf, resolveEnvironment(req, environment));
+});
+
+/**
+ * Construye la nota de crédito o débito desde el e-CF emitido :encf y la envía por el mismo flujo que /send,
+ * en el ambiente del e-CF original
+ */
+const sendNote = async (req: Request, res: Response, kind: NoteKind): Promise<void> => {
+  const { rnc, ...request } = req.body as CreateNoteRequest;
+  const issuerRnc = resolveRnc(req, rnc) as string;
+
+  const note = await noteService.buildNote(kind, req.params.encf, issuerRnc, {
+    ...request,
+    environment: resolveEnvironment(req, request.environment) as CreateNoteRequest['environment'],
+  });
+
+  await submitInvoice(req, res, note.invoiceData, issuerRnc, request.encf, note.environment, note.parentId);
+};
+
+export const sendCreditNote = asyncHandler((req: Request, res: Response) => sendNote(req, res, 'credit'));
+
+export const sendDebitNote = asyncHandler((req: Request, res: Response) => sendNote(req, res, 'debit'));
+
+/**
+ * Valida el documento contra el XSD de DGII sin firmarlo ni enviarlo (dry run)
+ */
+export const validateDocument = asyncHandler(async (req: Request, res: Response) => {
+  const { xmlData, invoiceData } = req.body as ValidateDocumentRequest;
+
+  const result = await dgiiService.validateDocument(xmlData, invoiceData);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
+
+/**
+ * Recalcula los totales desde las líneas y reporta cada discrepancia con el valor esperado (dry run)
+ */
+export const validateTotals = asyncHandler(async (req: Request, res: Response) => {
+  const { invoiceData } = req.body as ValidateTotalsRequest;
+
+  const result = invoiceRulesService.validateOrThrow(invoiceData);
 
   const response: ApiResponse = {
     success: true,
@@ -142,7 +255,7 @@ export const sendInvoice = asyncHandler(async (req: Request, res: Response) => {
 export const getStatus = asyncHandler(async (req: Request, res: Response) => {
   const { trackId } = req.params;
 
-  const result = await dgiiService.getStatus(trackId);
+  const result = await dgiiService.getStatus(trackId, resolveRnc(req), resolveEnvironment(req));
 
   const response: ApiResponse = {
     success: true,
@@ -155,7 +268,7 @@ export const getStatus = asyncHandler(async (req: Request, res: Response) => {
 export const getTracks = asyncHandler(async (req: Request, res: Response) => {
   const { rnc, encf } = req.params;
 
-  const result = await dgiiService.getTracks(rnc, encf);
+  const result = await dgiiService.getTracks(resolveRnc(req, rnc) as string, encf, resolveEnvironment(req));
 
   const response: ApiResponse = {
     success: true,
@@ -168,7 +281,13 @@ export const getTracks = asyncHandler(async (req: Request, res: Response) => {
 export const inquire = asyncHandler(async (req: Request, res: Response) => {
   const { rncEmisor, encf, rncComprador, securityCode } = req.body as InquiryRequest;
 
-  const result = await dgiiService.inquiryStatus(rncEmisor, encf, rncComprador, securityCode);
+  const result = await dgiiService.inquiryStatus(
+    resolveRnc(req, rncEmisor) as string,
+    encf,
+    rncComprador,
+    securityCode,
+    resolveEnvironment(req)
+  );
 
   const response: ApiResponse = {
     success: true,
@@ -181,7 +300,7 @@ export const inquire = asyncHandler(async (req: Request, res: Response) => {
 export const sendSummary = asyncHandler(async (req: Request, res: Response) => {
   const { invoiceData, rnc, encf, environment } = req.body;
 
-  const result = await dgiiService.sendSummary(invoiceData, rnc, encf, environment);
+  const result = await dgiiService.sendSummary(invoiceData, resolveRnc(req, rnc) as string, encf, resolveEnvironment(req, environment));
 
   const response: ApiResponse = {
     success: true,
@@ -194,7 +313,7 @@ export const sendSummary = asyncHandler(async (req: Request, res: Response) => {
 export const sendReceipt = asyncHandler(async (req: Request, res: Response) => {
   const { receiptData, rnc, environment } = req.body;
 
-  const result = await dgiiService.sendReceipt(receiptData, rnc, environment);
+  const result = await dgiiService.sendReceipt(receiptData, resolveRnc(req, rnc), resolveEnvironment(req, environment));
 
   const response: ApiResponse = {
     success: true,
@@ -207,7 +326,12 @@ export const sendReceipt = asyncHandler(async (req: Request, res: Response) => {
 export const sendApproval = asyncHandler(async (req: Request, res: Response) => {
   const { approvalData, fileName, rnc, environment } = req.body;
 
-  const result = await dgiiService.sendApproval(approvalData, fileName, rnc, environment);
+  const result = await dgiiService.sendApproval(
+    approvalData,
+    fileName,
+    resolveRnc(req, rnc),
+    resolveEnvironment(req, environment)
+  );
 
   const response: ApiResponse = {
     success: true,
@@ -220,7 +344,7 @@ export const sendApproval = asyncHandler(async (req: Request, res: Response) =>
 export const voidSequence = asyncHandler(async (req: Request, res: Response) => {
   const { voidData, fileName, rnc, environment } = req.body;
 
-  const result = await dgiiService.voidSequence(voidData, fileName, rnc, environment);
+  const result = await dgiiService.voidSequence(voidData, fileName, resolveRnc(req, rnc), resolveEnvironment(req, environment));
 
   const response: ApiResponse = {
     success: true,
@@ -236,7 +360,7 @@ export const getCustomerDirectory = asyncHandler(async (req: Request, res: Respo
 
   // rnc = RNC a consultar en el directorio
   // certRnc = RNC para cargar el certificado de autenticación (opcional)
-  const result = await dgiiService.getCustomerDirectory(rnc, certRnc, environment);
+  const result = await dgiiService.getCustomerDirectory(rnc, resolveRnc(req, certRnc), resolveEnvironment(req, environment));
 
   const response: ApiResponse = {
     success: true,
@@ -271,7 +395,12 @@ export const generateQR = asyncHandler(async (req: Request, res: Response) => {
 export const sendSummaryWithEcf = asyncHandler(async (req: Request, res: Response) => {
   const { invoiceData, rnc, encf, environment } = req.body;
 
-  const result = await dgiiService.sendSummaryWithEcf(invoiceData, rnc, encf, environment);
+  const result = await dgiiService.sendSummaryWithEcf(
+    invoiceData,
+    resolveRnc(req, rnc) as string,
+    encf,
+    resolveEnvironment(req, environment)
+  );
 
   const response: ApiResponse = {
     success: true,
@@ -290,14 +419,18 @@ export const sendSummaryWithEcf = asyncHandler(async (req: Request, res: Respons
  * 1. multipart/form-data - DGII envía el XML como archivo (estándar Emisor-Receptor)
  * 2. application/json - Para enviar el XML directamente desde Odoo u otros sistemas
  */
-export const receiveEcf = asyncHandler(async (req: Request, res: Response) => {
+const handleReceivedEcf = async (req: Request, res: Response, receptorEndpoint: boolean): Promise<void> => {
   const contentType = req.headers['content-type'] || '';
-  const { rnc, accepted, rejectCode } = req.query as any;
+  const { accepted, rejectCode } = receptorEndpoint ? {} : (req.query as { accepted?: string; rejectCode?: NoReceivedCode });
+  const rnc = receptorEndpoint ? undefined : resolveRnc(req, req.query.rnc as string | undefined);
+  const environment = receptorEndpoint ? undefined : resolveEnvironment(req);
 
   // Usar rncReceptor del query param, o del config (variable de entorno RNC_RECEPTOR)
-  const rncReceptor = (req.query.rncReceptor as string) || config.rncReceptor;
+  const rncReceptor = receptorEndpoint
+    ? config.rncReceptor
+    : resolveRnc(req, req.query.rncReceptor as string | undefined) || config.rncReceptor;
 
-  if (!rncReceptor) {
+  if (!rncReceptor && !receptorEndpoint) {
     res.status(400).json({
       success: false,
       error: 'rncReceptor query parameter is required or set RNC_RECEPTOR env variable',
@@ -316,7 +449,8 @@ export const receiveEcf = asyncHandler(async (req: Request, res: Response) => {
       contentType,
       rncReceptor,
       rnc,
-      false
+      false,
+      environment
     );
   } else if (contentType.includes('application/json')) {
     // Modo alternativo: JSON con el XML del ECF
@@ -335,7 +469,8 @@ export const receiveEcf = asyncHandler(async (req: Request, res: Response) => {
       rncReceptor,
       rnc,
       accepted !== 'false',
-      rejectCode
+      rejectCode,
+      environment
     );
   } else {
     // Intentar parsear como XML directo
@@ -347,7 +482,8 @@ export const receiveEcf = asyncHandler(async (req: Request, res: Response) => {
         rncReceptor,
         rnc,
         accepted !== 'false',
-        rejectCode
+        rejectCode,
+        environment
       );
     } else {
       res.status(400).json({
@@ -362,14 +498,25 @@ export const receiveEcf = asyncHandler(async (req: Request, res: Response) => {
   // Este es el comportamiento esperado por el estándar Emisor-Receptor
   res.set('Content-Type', 'application/xml');
   res.send(result.signedArecfXml);
-});
+};
+
+export const receiveEcf = asyncHandler((req: Request, res: Response) => handleReceivedEcf(req, res, false));
+
+/**
+ * Endpoint público Emisor-Receptor (/fe/recepcion/api/ecf), autenticado solo con el token Bearer del emisor.
+ * No acepta rnc, rncReceptor, accepted ni rejectCode: el receptor y el certificado con el que se firma el
+ * ARECF salen del RNCComprador del e-CF recibido y la respuesta la deciden las reglas de recepción.
+ */
+export const receiveReceptorEcf = asyncHandler((req: Request, res: Response) => handleReceivedEcf(req, res, true));
 
 /**
  * Endpoint alternativo que retorna el ARECF en formato JSON
  * útil para depuración o integración con sistemas que prefieren JSON
  */
 export const receiveEcfJson = asyncHandler(async (req: Request, res: Response) => {
-  const { ecfXml, rncReceptor, rnc, accepted, rejectCode } = req.body;
+  const { ecfXml, accepted, rejectCode } = req.body;
+  const rncReceptor = resolveRnc(req, req.body.rncReceptor);
+  const rnc = resolveRnc(req, req.body.rnc);
 
   if (!ecfXml || !rncReceptor) {
     res.status(400).json({
@@ -384,7 +531,8 @@ export const receiveEcfJson = asyncHandler(async (req: Request, res: Response) =
     rncReceptor,
     rnc,
     accepted !== false,
-    rejectCode
+    rejectCode,
+    resolveEnvironment(req)
   );
 
   const response: ApiResponse = {
@@ -450,8 +598,8 @@ export const sendAcecf = asyncHandler(async (req: Request, res: Response) => {
       estado,
       detalleMotivoRechazo,
     },
-    rnc,
-    environment
+    resolveRnc(req, rnc),
+    resolveEnvironment(req, environment)
   );
 
   const response: ApiResponse = {
@@ -497,8 +645,8 @@ export const processAcecfFromEcf = asyncHandler(async (req: Request, res: Respon
     ecfXml,
     estado,
     motivoRechazo,
-    rnc,
-    environment
+    resolveRnc(req, rnc),
+    resolveEnvironment(req, environment)
   );
 
   const response: ApiResponse = {
@@ -517,15 +665,8 @@ export const processAcecfFromEcf = asyncHandler(async (req: Request, res: Respon
  * que debe firmar con su certificado y enviar a validacioncertificado
  */
 export const getSeed = asyncHandler(async (req: Request, res: Response) => {
-  console.log('\n========== SEMILLA SOLICITADA ==========');
-  console.log('Timestamp:', new Date().toISOString());
-  console.log('Headers:', JSON.stringify(req.headers, null, 2));
-  console.log('Query params:', JSON.stringify(req.query, null, 2));
-
-  const seedXml = dgiiService.generateSeed();
-
-  console.log('Semilla generada:', seedXml);
-  console.log('==========================================\n');
+  const seedXml = await dgiiService.generateSeed();
+  logger.debug('Receptor seed generated');
 
   // Responder con el XML de la semilla
   res.set('Content-Type', 'application/xml');
@@ -540,33 +681,23 @@ export const getSeed = asyncHandler(async (req: Request, res: Response) => {
  */
 export const validateCertificate = asyncHandler(async (req: Request, res: Response) => {
   const contentType = req.headers['content-type'] || '';
-
-  console.log('\n========== VALIDACIÓN CERTIFICADO ==========');
-  console.log('Timestamp:', new Date().toISOString());
-  console.log('Content-Type:', contentType);
-  console.log('Headers:', JSON.stringify(req.headers, null, 2));
-  console.log('Query params:', JSON.stringify(req.query, null, 2));
+  logger.debug(`Signed seed received - Content-Type: ${contentType}`);
 
   let signedSeedXml: string;
 
   if (req.body instanceof Buffer) {
     signedSeedXml = req.body.toString('utf-8');
-    console.log('Body (Buffer -> String):', signedSeedXml);
   } else if (typeof req.body === 'string') {
     signedSeedXml = req.body;
-    console.log('Body (String):', signedSeedXml);
   } else if (typeof req.body === 'object' && req.body.signedSeedXml) {
     signedSeedXml = req.body.signedSeedXml;
-    console.log('Body (JSON signedSeedXml):', signedSeedXml);
   } else {
     signedSeedXml = String(req.body);
-    console.log('Body (Other):', signedSeedXml);
   }
 
   // Verificar que contiene XML firmado
   if (!signedSeedXml || !signedSeedXml.includes('<?xml') && !signedSeedXml.includes('<SemillaModel')) {
-    console.log('Error: XML de semilla firmada no proporcionado');
-    console.log('==============================================\n');
+    logger.debug('Signed seed XML not provided');
     res.status(400).json({
       success: false,
       error: 'Signed seed XML is required',
@@ -576,18 +707,20 @@ export const validateCertificate = asyncHandler(async (req: Request, res: Respon
 
   try {
     const token = await dgiiService.validateSignedSeed(signedSeedXml);
+    // Se registra para exigirlo en los endpoints de recepción y poder revocarlo
+    const { issuedAt, expiresAt } = await receptorTokenService.registerToken(token);
 
-    console.log('Token generado:', token);
-    console.log('==============================================\n');
+    // El token no se registra: solo se conserva su hash
+    logger.debug(`Receptor token issued - expires: ${expiresAt}`);
 
     // Responder con el token (formato que espera DGII)
     res.json({
       token,
-      expira: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 horas
+      expira: expiresAt,
+      expedido: issuedAt,
     });
   } catch (error: any) {
-    console.log('Error validando semilla:', error.message);
-    console.log('==============================================\n');
+    logger.debug(`Invalid signed seed: ${error.message}`);
 
     res.status(401).json({
       success: false,
@@ -597,88 +730,41 @@ export const validateCertificate = asyncHandler(async (req: Request, res: Respon
 });
 
 /**
- * Endpoint receptor para recibir ACECFs (Aprobación Comercial)
- * Este endpoint loguea todo lo que recibe para análisis
+ * Endpoint receptor para recibir ACECFs (Aprobación Comercial) de los compradores de nuestros e-CF.
+ * Responde con el mismo formato de la respuesta de DGII ({ codigo, estado, mensaje }).
  * Path: /fe/aprobacioncomercial/api/ecf
  */
 export const receiveAcecf = asyncHandler(async (req: Request, res: Response) => {
   const contentType = req.headers['content-type'] || '';
+  const bodyStr = req.body instanceof Buffer ? req.body.toString('utf-8') : req.body;
 
-  console.log('\n========== ACECF RECIBIDO ==========');
-  console.log('Timestamp:', new Date().toISOString());
-  console.log('Content-Type:', contentType);
-  console.log('Headers:', JSON.stringify(req.headers, null, 2));
-  console.log('Query params:', JSON.stringify(req.query, null, 2));
-
-  let bodyContent: string;
-  let parsedData: any = null;
-
-  if (req.body instanceof Buffer) {
-    bodyContent = req.body.toString('utf-8');
-    console.log('Body (Buffer -> String):', bodyContent);
-  } else if (typeof req.body === 'string') {
-    bodyContent = req.body;
-    console.log('Body (String):', bodyContent);
-  } else if (typeof req.body === 'object') {
-    bodyContent = JSON.stringify(req.body, null, 2);
-    console.log('Body (Object):', bodyContent);
-    parsedData = req.body;
-  } else {
-    bodyContent = String(req.body);
-    console.log('Body (Other):', bodyContent);
-  }
+  let result;
 
-  // Si es multipart, intentar parsear
   if (contentType.includes('multipart/form-data')) {
-    console.log('\n--- Detectado multipart/form-data ---');
-    console.log('Body raw length:', bodyContent.length);
-    console.log('Body raw (primeros 2000 chars):', bodyContent.substring(0, 2000));
-  }
+    // Modo estándar DGII: multipart/form-data con el XML como archivo
+    result = await dgiiService.processMultipartAcecf(bodyStr, contentType);
+  } else if (contentType.includes('application/json')) {
+    // Modo alternativo: JSON con el XML del ACECF
+    const { acecfXml } = req.body;
 
-  // Si contiene XML, intentar extraer información del ACECF
-  if (bodyContent.includes('<?xml') || bodyContent.includes('<ACECF')) {
-    console.log('\n--- Detectado XML de ACECF ---');
-
-    try {
-      // Extraer información del ACECF usando DOMParser
-      const { DOMParser } = await import('@xmldom/xmldom');
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(bodyContent, 'text/xml');
-
-      const getTextContent = (tagName: string): string => {
-        const element = doc.getElementsByTagName(tagName)[0];
-        return element?.textContent || '';
-      };
-
-      const acecfInfo = {
-        version: getTextContent('Version'),
-        rncEmisor: getTextContent('RNCEmisor'),
-        eNCF: getTextContent('eNCF'),
-        fechaEmision: getTextContent('FechaEmision'),
-        montoTotal: getTextContent('MontoTotal'),
-        rncComprador: getTextContent('RNCComprador'),
-        estado: getTextContent('Estado'),
-        detalleMotivoRechazo: getTextContent('DetalleMotivoRechazo'),
-        fechaHoraAprobacionComercial: getTextContent('FechaHoraAprobacionComercial'),
-      };
-
-      console.log('\n--- Datos extraídos del ACECF ---');
-      console.log(JSON.stringify(acecfInfo, null, 2));
-
-      parsedData = acecfInfo;
-    } catch (error) {
-      console.log('Error parseando XML:', error);
+    if (!acecfXml) {
+      res.status(400).json({
+        success: false,
+        error: 'acecfXml is required in request body',
+      });
+      return;
     }
-  }
 
-  console.log('====================================\n');
+    result = await dgiiService.processReceivedAcecf(acecfXml);
+  } else if (typeof bodyStr === 'string' && (bodyStr.includes('<?xml') || bodyStr.includes('<ACECF'))) {
+    result = await dgiiService.processReceivedAcecf(bodyStr);
+  } else {
+    res.status(400).json({
+      success: false,
+      error: 'Unsupported content type. Use multipart/form-data, application/json, or send raw XML',
+    });
+    return;
+  }
 
-  // Responder con éxito y los datos parseados
-  res.json({
-    success: true,
-    message: 'ACECF recibido correctamente',
-    timestamp: new Date().toISOString(),
-    contentType,
-    parsedData,
-  });
+  res.json(result);
 });
@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import jobQueueService from '../services/jobQueueService';
+import { ApiResponse, Job, JobStatus } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { canAccessRnc } from '../middleware/auth';
+
+/**
+ * El payload puede contener el XML firmado completo; no se expone en la API
+ */
+const toJobResponse = ({ payload, ...job }: Job) => job;
+
+/**
+ * Un tenant solo ve los trabajos de sus RNC
+ */
+const getAccessibleJob = async (req: Request, id: string): Promise<Job> => {
+  const job = await jobQueueService.getJob(id);
+  if (!canAccessRnc(req, job.rnc)) {
+    throw new AppError(`Job not found: ${id}`, 404);
+  }
+  return job;
+};
+
+export const getJob = asyncHandler(async (req: Request, res: Response) => {
+  const job = await getAccessibleJob(req, req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: toJobResponse(job),
+  };
+
+  res.json(response);
+});
+
+export const listJobs = asyncHandler(async (req: Request, res: Response) => {
+  const { status, type, reference, limit } = req.query as Record<string, string | undefined>;
+
+  const jobs = await jobQueueService.listJobs({
+    status: status as JobStatus | undefined,
+    type,
+    reference,
+    rncs: req.tenant?.rncs,
+    limit: limit ? parseInt(limit, 10) : undefined,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: jobs.map(toJobResponse),
+  };
+
+  res.json(response);
+});
+
+export const retryJob = asyncHandler(async (req: Request, res: Response) => {
+  await getAccessibleJob(req, req.params.id);
+  const job = await jobQueueService.retry(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: toJobResponse(job),
+  };
+
+  res.json(response);
+});
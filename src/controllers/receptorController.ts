@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import receptorTokenService from '../services/receptorTokenService';
+import receptorSeedService from '../services/receptorSeedService';
+import { ApiResponse } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export const listTokens = asyncHandler(async (req: Request, res: Response) => {
+  const tokens = await receptorTokenService.listTokens(req.query.active === 'true');
+
+  const response: ApiResponse = {
+    success: true,
+    data: tokens,
+  };
+
+  res.json(response);
+});
+
+export const revokeToken = asyncHandler(async (req: Request, res: Response) => {
+  const token = await receptorTokenService.revokeToken(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: token,
+  };
+
+  res.json(response);
+});
+
+export const revokeAllTokens = asyncHandler(async (req: Request, res: Response) => {
+  const revoked = await receptorTokenService.revokeAllTokens();
+
+  const response: ApiResponse = {
+    success: true,
+    data: { revoked },
+  };
+
+  res.json(response);
+});
+
+export const getSeedStats = asyncHandler(async (req: Request, res: Response) => {
+  const stats = await receptorSeedService.getStats();
+
+  const response: ApiResponse = {
+    success: true,
+    data: stats,
+  };
+
+  res.json(response);
+});
@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import sequenceService from '../services/sequenceService';
+import dgiiService from '../services/dgiiService';
+import { ApiResponse, RegisterSequenceRangeRequest, VoidSequenceRequest } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { canAccessRnc, resolveEnvironment, resolveRnc } from '../middleware/auth';
+
+export const registerRange = asyncHandler(async (req: Request, res: Response) => {
+  const data = req.body as RegisterSequenceRangeRequest;
+
+  const range = await sequenceService.registerRange({
+    ...data,
+    rnc: resolveRnc(req, data.rnc) as string,
+    environment: resolveEnvironment(req, data.environment) as RegisterSequenceRangeRequest['environment'],
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: range,
+  };
+
+  res.status(201).json(response);
+});
+
+export const listRanges = asyncHandler(async (req: Request, res: Response) => {
+  const { rnc, tipoeCF, environment } = req.query as { rnc?: string; tipoeCF?: string; environment?: string };
+
+  const ranges = await sequenceService.listRanges(rnc && resolveRnc(req, rnc), tipoeCF, resolveEnvironment(req, environment));
+
+  const response: ApiResponse = {
+    success: true,
+    data: ranges.filter((range) => canAccessRnc(req, range.rnc)),
+  };
+
+  res.json(response);
+});
+
+export const disableRange = asyncHandler(async (req: Request, res: Response) => {
+  const current = await sequenceService.getRange(req.params.id);
+  if (!canAccessRnc(req, current.rnc)) {
+    throw new AppError(`Sequence range not found: ${req.params.id}`, 404);
+  }
+
+  const range = await sequenceService.disableRange(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: range,
+  };
+
+  res.json(response);
+});
+
+export const allocateNext = asyncHandler(async (req: Request, res: Response) => {
+  const { rnc, tipoeCF, environment } = req.body;
+
+  const allocation = await sequenceService.allocate(
+    resolveRnc(req, rnc) as string,
+    tipoeCF.toString(),
+    resolveEnvironment(req, environment)
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: allocation,
+  };
+
+  res.json(response);
+});
+
+export const voidSequence = asyncHandler(async (req: Request, res: Response) => {
+  const data = req.body as VoidSequenceRequest;
+
+  const result = await dgiiService.voidEncfs({
+    ...data,
+    rnc: resolveRnc(req, data.rnc) as string,
+    environment: resolveEnvironment(req, data.environment) as VoidSequenceRequest['environment'],
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+  };
+
+  res.json(response);
+});
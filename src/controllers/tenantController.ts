@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import tenantService from '../services/tenantService';
+import { ApiResponse, CreateTenantApiKeyRequest } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+
+export const createTenant = asyncHandler(async (req: Request, res: Response) => {
+  const tenant = await tenantService.createTenant(req.body);
+
+  const response: ApiResponse = {
+    success: true,
+    data: tenant,
+  };
+
+  res.status(201).json(response);
+});
+
+export const listTenants = asyncHandler(async (req: Request, res: Response) => {
+  const tenants = await tenantService.listTenants();
+
+  const response: ApiResponse = {
+    success: true,
+    data: tenants,
+  };
+
+  res.json(response);
+});
+
+/**
+ * Tenant de la API key usada en la petición
+ */
+export const getCurrentTenant = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.tenant) {
+    throw new AppError('The master API key does not belong to a tenant', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: req.tenant,
+  };
+
+  res.json(response);
+});
+
+export const getTenant = asyncHandler(async (req: Request, res: Response) => {
+  const tenant = await tenantService.getTenant(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: tenant,
+  };
+
+  res.json(response);
+});
+
+export const updateTenant = asyncHandler(async (req: Request, res: Response) => {
+  const tenant = await tenantService.updateTenant(req.params.id, req.body);
+
+  const response: ApiResponse = {
+    success: true,
+    data: tenant,
+  };
+
+  res.json(response);
+});
+
+export const deleteTenant = asyncHandler(async (req: Request, res: Response) => {
+  await tenantService.deleteTenant(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Tenant deleted',
+  };
+
+  res.json(response);
+});
+
+/**
+ * La API key en claro solo se muestra en esta respuesta
+ */
+export const createApiKey = asyncHandler(async (req: Request, res: Response) => {
+  const { description } = req.body as CreateTenantApiKeyRequest;
+
+  const apiKey = await tenantService.createApiKey(req.params.id, description);
+
+  const response: ApiResponse = {
+    success: true,
+    data: apiKey,
+  };
+
+  res.status(201).json(response);
+});
+
+export const listApiKeys = asyncHandler(async (req: Request, res: Response) => {
+  const apiKeys = await tenantService.listApiKeys(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: apiKeys,
+  };
+
+  res.json(response);
+});
+
+export const revokeApiKey = asyncHandler(async (req: Request, res: Response) => {
+  const apiKey = await tenantService.revokeApiKey(req.params.id, req.params.keyId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: apiKey,
+  };
+
+  res.json(response);
+});
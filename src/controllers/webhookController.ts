@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import webhookService from '../services/webhookService';
+import { ApiResponse, CreateWebhookSubscriptionRequest, WebhookDeliveryStatus, WebhookSubscription } from '../types';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { resolveRnc } from '../middleware/auth';
+
+/**
+ * El secreto solo se muestra al crear la suscripción
+ */
+const toSubscriptionResponse = ({ secret, ...subscription }: WebhookSubscription) => subscription;
+
+/**
+ * Un tenant solo administra sus propias suscripciones
+ */
+const getAccessibleSubscription = async (req: Request, id: string): Promise<WebhookSubscription> => {
+  const subscription = await webhookService.getSubscription(id);
+  if (req.tenant && subscription.tenantId !== req.tenant.id) {
+    throw new AppError(`Webhook subscription not found: ${id}`, 404);
+  }
+  return subscription;
+};
+
+export const createSubscription = asyncHandler(async (req: Request, res: Response) => {
+  const data = req.body as CreateWebhookSubscriptionRequest;
+
+  // Las suscripciones creadas con la API key de un tenant le pertenecen a ese tenant
+  const subscription = await webhookService.createSubscription(
+    req.tenant ? { ...data, tenantId: req.tenant.id, rnc: data.rnc && resolveRnc(req, data.rnc) } : data
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscription,
+  };
+
+  res.status(201).json(response);
+});
+
+export const listSubscriptions = asyncHandler(async (req: Request, res: Response) => {
+  const subscriptions = await webhookService.listSubscriptions({
+    rnc: req.query.rnc as string | undefined,
+    tenantId: req.tenant ? req.tenant.id : (req.query.tenantId as string | undefined),
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscriptions.map(toSubscriptionResponse),
+  };
+
+  res.json(response);
+});
+
+export const getSubscription = asyncHandler(async (req: Request, res: Response) => {
+  const subscription = await getAccessibleSubscription(req, req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    data: toSubscriptionResponse(subscription),
+  };
+
+  res.json(response);
+});
+
+export const updateSubscription = asyncHandler(async (req: Request, res: Response) => {
+  const changes = req.body as Partial<CreateWebhookSubscriptionRequest>;
+  await getAccessibleSubscription(req, req.params.id);
+
+  const subscription = await webhookService.updateSubscription(
+    req.params.id,
+    changes.rnc ? { ...changes, rnc: resolveRnc(req, changes.rnc) } : changes
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: toSubscriptionResponse(subscription),
+  };
+
+  res.json(response);
+});
+
+export const deleteSubscription = asyncHandler(async (req: Request, res: Response) => {
+  await getAccessibleSubscription(req, req.params.id);
+  await webhookService.deleteSubscription(req.params.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Webhook subscription deleted',
+  };
+
+  res.json(response);
+});
+
+export const listDeliveries = asyncHandler(async (req: Request, res: Response) => {
+  const { status, event, limit } = req.query as Record<string, string | undefined>;
+  await getAccessibleSubscription(req, req.params.id);
+
+  const deliveries = await webhookService.listDeliveries(req.params.id, {
+    status: status as WebhookDeliveryStatus | undefined,
+    event,
+    limit: limit ? parseInt(limit, 10) : undefined,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: deliveries,
+  };
+
+  res.json(response);
+});
+
+export const replayDelivery = asyncHandler(async (req: Request, res: Response) => {
+  await getAccessibleSubscription(req, req.params.id);
+  const delivery = await webhookService.replayDelivery(req.params.id, req.params.deliveryId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: delivery,
+  };
+
+  res.status(202).json(response);
+});
@@ -0,0 +1,12 @@
+import config from '../config/environment';
+import { Database } from './types';
+import { SqliteDatabase } from './sqliteDatabase';
+import { PostgresDatabase } from './postgresDatabase';
+
+export * from './types';
+
+const database: Database = config.databaseClient === 'postgres'
+  ? new PostgresDatabase(config.databaseUrl)
+  : new SqliteDatabase(config.databasePath);
+
+export default database;
@@ -0,0 +1,371 @@
+import config from '../config/environment';
+import { Database, Migration } from './types';
+
+// Ambiente al que pertenecen los datos creados antes de separarlos por ambiente
+const LEGACY_ENVIRONMENT = ['test', 'cert', 'prod'].includes(config.dgiiEnvironment) ? config.dgiiEnvironment : 'test';
+
+/**
+ * Migraciones del esquema, aplicadas en orden al iniciar el servicio.
+ * El SQL debe ser compatible con SQLite y PostgreSQL: fechas como texto ISO-8601,
+ * booleanos como INTEGER (0/1) y JSON serializado en columnas TEXT.
+ * Nunca modificar una migración ya publicada; agregar una nueva al final.
+ */
+const migrations: Migration[] = [
+  {
+    id: '001_documents',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        direction TEXT NOT NULL,
+        document_type TEXT NOT NULL,
+        tipo_ecf TEXT,
+        rnc_emisor TEXT,
+        rnc_comprador TEXT,
+        encf TEXT,
+        file_name TEXT,
+        signed_xml TEXT NOT NULL,
+        security_code TEXT,
+        track_id TEXT,
+        qr_code_url TEXT,
+        environment TEXT NOT NULL,
+        dgii_status TEXT,
+        dgii_response TEXT,
+        fecha_emision TEXT,
+        monto_total DOUBLE PRECISION,
+        parent_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_documents_encf ON documents (rnc_emisor, encf)',
+      'CREATE INDEX IF NOT EXISTS idx_documents_rnc_comprador ON documents (rnc_comprador)',
+      'CREATE INDEX IF NOT EXISTS idx_documents_track_id ON documents (track_id)',
+      'CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents (created_at)',
+    ],
+  },
+  {
+    id: '002_sequences',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS sequence_ranges (
+        id TEXT PRIMARY KEY,
+        rnc TEXT NOT NULL,
+        tipo_ecf TEXT NOT NULL,
+        start_number BIGINT NOT NULL,
+        end_number BIGINT NOT NULL,
+        next_number BIGINT NOT NULL,
+        expires_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sequence_ranges_lookup ON sequence_ranges (rnc, tipo_ecf, status)',
+      `CREATE TABLE IF NOT EXISTS sequence_numbers (
+        rnc TEXT NOT NULL,
+        encf TEXT NOT NULL,
+        tipo_ecf TEXT NOT NULL,
+        number BIGINT NOT NULL,
+        range_id TEXT,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (rnc, encf)
+      )`,
+    ],
+  },
+  {
+    id: '003_jobs',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        result TEXT,
+        reference TEXT,
+        attempts INTEGER NOT NULL,
+        max_attempts INTEGER NOT NULL,
+        run_at TEXT NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs (status, run_at)',
+      'CREATE INDEX IF NOT EXISTS idx_jobs_reference ON jobs (reference)',
+    ],
+  },
+  {
+    id: '004_document_status_history',
+    statements: [
+      'ALTER TABLE documents ADD COLUMN status_checked_at TEXT',
+      `CREATE TABLE IF NOT EXISTS document_status_history (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL REFERENCES documents (id),
+        track_id TEXT,
+        status TEXT NOT NULL,
+        code INTEGER,
+        messages TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_document_status_history_document ON document_status_history (document_id, created_at)',
+    ],
+  },
+  {
+    id: '005_webhooks',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        rnc TEXT,
+        headers TEXT,
+        payload_format TEXT NOT NULL DEFAULT 'event',
+        description TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        subscription_id TEXT NOT NULL REFERENCES webhook_subscriptions (id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        response_body TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        delivered_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at)',
+    ],
+  },
+  {
+    id: '006_tenants',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS tenants (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        environment TEXT,
+        certificate TEXT,
+        certificate_password TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      // Un RNC pertenece a un solo tenant: así se resuelve qué certificado firma por cada RNC
+      `CREATE TABLE IF NOT EXISTS tenant_rncs (
+        rnc TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL REFERENCES tenants (id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tenant_rncs_tenant ON tenant_rncs (tenant_id)',
+      `CREATE TABLE IF NOT EXISTS tenant_api_keys (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL REFERENCES tenants (id) ON DELETE CASCADE,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tenant_api_keys_tenant ON tenant_api_keys (tenant_id)',
+      'ALTER TABLE webhook_subscriptions ADD COLUMN tenant_id TEXT',
+      'ALTER TABLE jobs ADD COLUMN rnc TEXT',
+    ],
+  },
+  {
+    id: '007_certificates',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS certificates (
+        id TEXT PRIMARY KEY,
+        rnc TEXT NOT NULL,
+        status TEXT NOT NULL,
+        certificate TEXT NOT NULL,
+        password TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        issuer TEXT NOT NULL,
+        serial_number TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        valid_from TEXT NOT NULL,
+        valid_to TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        activated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_certificates_rnc ON certificates (rnc, status)',
+    ],
+  },
+  {
+    id: '008_certificate_expiry_alerts',
+    statements: [
+      // Umbrales de vencimiento ya alertados por certificado; evita repetir la alerta en cada revisión
+      `CREATE TABLE IF NOT EXISTS certificate_expiry_alerts (
+        fingerprint TEXT NOT NULL,
+        threshold INTEGER NOT NULL,
+        valid_to TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (fingerprint, threshold)
+      )`,
+    ],
+  },
+  {
+    id: '009_receptor_tokens',
+    statements: [
+      // Tokens entregados por /fe/autenticacion/api/validacioncertificado; se guarda solo el hash
+      `CREATE TABLE IF NOT EXISTS receptor_tokens (
+        id TEXT PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_receptor_tokens_expires ON receptor_tokens (expires_at)',
+    ],
+  },
+  {
+    id: '010_receptor_seeds',
+    statements: [
+      // Semillas entregadas por /fe/autenticacion/api/semilla; cada una se puede validar una sola vez
+      `CREATE TABLE IF NOT EXISTS receptor_seeds (
+        seed_hash TEXT PRIMARY KEY,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        consumed_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_receptor_seeds_expires ON receptor_seeds (expires_at)',
+    ],
+  },
+  {
+    id: '011_tenant_receptor_rules',
+    statements: [
+      // JSON con las reglas de recepción activadas o desactivadas para el tenant
+      'ALTER TABLE tenants ADD COLUMN receptor_rules TEXT',
+    ],
+  },
+  {
+    id: '012_inbox',
+    statements: [
+      // Bandeja de e-CF recibidos: ARECF con el que se respondió, aprobación comercial y confirmación del ERP
+      `CREATE TABLE IF NOT EXISTS inbox (
+        document_id TEXT PRIMARY KEY,
+        arecf_document_id TEXT,
+        arecf_status TEXT NOT NULL,
+        approval_status TEXT NOT NULL DEFAULT 'pending',
+        approval_document_id TEXT,
+        approved_at TEXT,
+        acknowledged_at TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_inbox_approval ON inbox (approval_status)',
+      'CREATE INDEX IF NOT EXISTS idx_inbox_acknowledged ON inbox (acknowledged_at)',
+      // Los e-CF recibidos antes de la bandeja entran pendientes de aprobación y sin confirmar
+      `INSERT INTO inbox (document_id, arecf_document_id, arecf_status, created_at)
+       SELECT d.id, a.id, COALESCE(a.dgii_status, 'e-CF Recibido'), d.created_at
+       FROM documents d
+       LEFT JOIN documents a ON a.parent_id = d.id AND a.document_type = 'ARECF'
+       WHERE d.direction = 'received' AND d.document_type = 'ECF'`,
+    ],
+  },
+  {
+    id: '013_document_commercial_status',
+    statements: [
+      // Aprobación comercial (ACECF) recibida del comprador para un e-CF emitido
+      'ALTER TABLE documents ADD COLUMN commercial_status TEXT',
+      'ALTER TABLE documents ADD COLUMN commercial_status_reason TEXT',
+      'ALTER TABLE documents ADD COLUMN commercial_status_at TEXT',
+    ],
+  },
+  {
+    id: '014_inbox_approval_workflow',
+    statements: [
+      // Motivo del rechazo enviado y último umbral de recordatorio del plazo de aprobación
+      'ALTER TABLE inbox ADD COLUMN approval_reason TEXT',
+      'ALTER TABLE inbox ADD COLUMN approval_reminded_days INTEGER',
+    ],
+  },
+  {
+    id: '015_contingency',
+    statements: [
+      // Períodos en que DGII no está disponible; solo puede haber uno abierto por ambiente
+      `CREATE TABLE IF NOT EXISTS contingency_periods (
+        id TEXT PRIMARY KEY,
+        environment TEXT NOT NULL,
+        source TEXT NOT NULL,
+        reason TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT
+      )`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_contingency_periods_open ON contingency_periods (environment) WHERE ended_at IS NULL',
+      // Documentos firmados en contingencia y su envío diferido a DGII
+      'ALTER TABLE documents ADD COLUMN contingency_period_id TEXT',
+      'ALTER TABLE documents ADD COLUMN contingency_status TEXT',
+      'ALTER TABLE documents ADD COLUMN contingency_sent_at TEXT',
+      'ALTER TABLE documents ADD COLUMN contingency_error TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_documents_contingency ON documents (contingency_status, environment, created_at)',
+    ],
+  },
+  {
+    id: '016_sequence_environment',
+    statements: [
+      // Los rangos y el inventario de e-NCF son independientes en cada ambiente de DGII; los existentes
+      // quedan en el ambiente configurado al aplicar la migración
+      `ALTER TABLE sequence_ranges ADD COLUMN environment TEXT NOT NULL DEFAULT '${LEGACY_ENVIRONMENT}'`,
+      'DROP INDEX IF EXISTS idx_sequence_ranges_lookup',
+      'CREATE INDEX IF NOT EXISTS idx_sequence_ranges_lookup ON sequence_ranges (rnc, environment, tipo_ecf, status)',
+      // La llave primaria incluye el ambiente, por lo que la tabla se reconstruye
+      `CREATE TABLE sequence_numbers_by_environment (
+        rnc TEXT NOT NULL,
+        environment TEXT NOT NULL,
+        encf TEXT NOT NULL,
+        tipo_ecf TEXT NOT NULL,
+        number BIGINT NOT NULL,
+        range_id TEXT,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (rnc, environment, encf)
+      )`,
+      `INSERT INTO sequence_numbers_by_environment
+         (rnc, environment, encf, tipo_ecf, number, range_id, status, created_at, updated_at)
+       SELECT n.rnc, COALESCE(r.environment, '${LEGACY_ENVIRONMENT}'), n.encf, n.tipo_ecf, n.number, n.range_id,
+              n.status, n.created_at, n.updated_at
+       FROM sequence_numbers n
+       LEFT JOIN sequence_ranges r ON r.id = n.range_id`,
+      'DROP TABLE sequence_numbers',
+      'ALTER TABLE sequence_numbers_by_environment RENAME TO sequence_numbers',
+    ],
+  },
+];
+
+export default migrations;
+
+/**
+ * Aplica las migraciones pendientes registrándolas en schema_migrations
+ */
+export const applyMigrations = async (db: Database): Promise<string[]> => {
+  await db.execute(
+    'CREATE TABLE IF NOT EXISTS schema_migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL)'
+  );
+
+  const applied = await db.query<{ id: string }>('SELECT id FROM schema_migrations');
+  const appliedIds = new Set(applied.map((row) => row.id));
+  const pending = migrations.filter((migration) => !appliedIds.has(migration.id));
+
+  for (const migration of pending) {
+    await db.transaction(async (tx) => {
+      for (const statement of migration.statements) {
+        await tx.execute(statement);
+      }
+      await tx.execute('INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)', [
+        migration.id,
+        new Date().toISOString(),
+      ]);
+    });
+  }
+
+  return pending.map((migration) => migration.id);
+};
@@ -0,0 +1,90 @@
+import { Pool, PoolClient, types } from 'pg';
+import { Database, Queryable } from './types';
+import { applyMigrations } from './migrations';
+import logger from '../utils/logger';
+
+// BIGINT (int8) se retorna como string por defecto; las secuencias e-NCF caben en un number
+types.setTypeParser(20, (value: string) => parseInt(value, 10));
+
+/**
+ * Traduce los placeholders `?` al formato posicional de PostgreSQL ($1, $2, ...)
+ */
+const toPositional = (sql: string): string => {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+};
+
+const createQueryable = (runner: Pool | PoolClient): Queryable => ({
+  query: async <T>(sql: string, params: any[] = []) => {
+    const result = await runner.query(toPositional(sql), params);
+    return result.rows as T[];
+  },
+  queryOne: async <T>(sql: string, params: any[] = []) => {
+    const result = await runner.query(toPositional(sql), params);
+    return result.rows[0] as T | undefined;
+  },
+  execute: async (sql: string, params: any[] = []) => {
+    const result = await runner.query(toPositional(sql), params);
+    return result.rowCount ?? 0;
+  },
+});
+
+/**
+ * Adaptador PostgreSQL (opcional, se activa con DATABASE_CLIENT=postgres)
+ */
+export class PostgresDatabase implements Database {
+  readonly client = 'postgres' as const;
+  private pool?: Pool;
+
+  constructor(private readonly connectionString: string) {}
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      this.pool = new Pool({ connectionString: this.connectionString });
+      this.pool.on('error', (error: Error) => logger.error('PostgreSQL pool error:', error));
+      logger.info('PostgreSQL connection pool created');
+    }
+    return this.pool;
+  }
+
+  query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    return createQueryable(this.getPool()).query<T>(sql, params);
+  }
+
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | undefined> {
+    return createQueryable(this.getPool()).queryOne<T>(sql, params);
+  }
+
+  execute(sql: string, params?: any[]): Promise<number> {
+    return createQueryable(this.getPool()).execute(sql, params);
+  }
+
+  async transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(createQueryable(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async migrate(): Promise<void> {
+    const applied = await applyMigrations(this);
+    if (applied.length) {
+      logger.info(`Database migrations applied: ${applied.join(', ')}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = undefined;
+    }
+  }
+}
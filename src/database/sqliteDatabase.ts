@@ -0,0 +1,101 @@
+import BetterSqlite3 from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { Database, Queryable } from './types';
+import { applyMigrations } from './migrations';
+import logger from '../utils/logger';
+
+/**
+ * Adaptador SQLite (motor por defecto).
+ * better-sqlite3 es síncrono, por lo que las transacciones se serializan con
+ * una cola para que una transacción asíncrona no se mezcle con otras consultas.
+ */
+export class SqliteDatabase implements Database {
+  readonly client = 'sqlite' as const;
+  private connection?: BetterSqlite3.Database;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private getConnection(): BetterSqlite3.Database {
+    if (!this.connection) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.connection = new BetterSqlite3(this.filePath);
+      this.connection.pragma('journal_mode = WAL');
+      this.connection.pragma('busy_timeout = 5000');
+      this.connection.pragma('foreign_keys = ON');
+      logger.info(`SQLite database opened at ${this.filePath}`);
+    }
+    return this.connection;
+  }
+
+  private runQuery<T>(sql: string, params: any[] = []): T[] {
+    const statement = this.getConnection().prepare(sql);
+    if (statement.reader) {
+      return statement.all(...params) as T[];
+    }
+    statement.run(...params);
+    return [];
+  }
+
+  private runExecute(sql: string, params: any[] = []): number {
+    const statement = this.getConnection().prepare(sql);
+    if (statement.reader) {
+      return statement.all(...params).length;
+    }
+    return statement.run(...params).changes;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private readonly direct: Queryable = {
+    query: async <T>(sql: string, params?: any[]) => this.runQuery<T>(sql, params),
+    queryOne: async <T>(sql: string, params?: any[]) => this.runQuery<T>(sql, params)[0],
+    execute: async (sql: string, params?: any[]) => this.runExecute(sql, params),
+  };
+
+  query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    return this.enqueue(() => this.direct.query<T>(sql, params));
+  }
+
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | undefined> {
+    return this.enqueue(() => this.direct.queryOne<T>(sql, params));
+  }
+
+  execute(sql: string, params?: any[]): Promise<number> {
+    return this.enqueue(() => this.direct.execute(sql, params));
+  }
+
+  transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const connection = this.getConnection();
+      connection.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await fn(this.direct);
+        connection.exec('COMMIT');
+        return result;
+      } catch (error) {
+        connection.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async migrate(): Promise<void> {
+    const applied = await applyMigrations(this);
+    if (applied.length) {
+      logger.info(`Database migrations applied: ${applied.join(', ')}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.connection) {
+      this.connection.close();
+      this.connection = undefined;
+    }
+  }
+}
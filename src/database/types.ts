@@ -0,0 +1,23 @@
+/**
+ * Operaciones SQL comunes a todos los motores soportados.
+ * Las consultas se escriben con placeholders `?` y cada adaptador los
+ * traduce a la sintaxis de su motor.
+ */
+export interface Queryable {
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | undefined>;
+  /** Ejecuta una sentencia y retorna la cantidad de filas afectadas */
+  execute(sql: string, params?: any[]): Promise<number>;
+}
+
+export interface Database extends Queryable {
+  readonly client: 'sqlite' | 'postgres';
+  transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T>;
+  migrate(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface Migration {
+  id: string;
+  statements: string[];
+}
@@ -1,5 +1,13 @@
+import { Server } from 'http';
 import app from './app';
 import config from './config/environment';
+import database from './database';
+import certificateMonitorService from './services/certificateMonitorService';
+import commercialApprovalService from './services/commercialApprovalService';
+import contingencyMonitorService from './services/contingencyMonitorService';
+import jobQueueService from './services/jobQueueService';
+import statusPollerService from './services/statusPollerService';
+import webhookService from './services/webhookService';
 import logger from './utils/logger';
 import fs from 'fs';
 import path from 'path';
@@ -15,25 +23,55 @@ if (!fs.existsSync(certificatesDir)) {
   logger.warn('Certificates directory created. Please add your .p12 certificate files.');
 }
 
-const server = app.listen(config.port, () => {
-  logger.info(`Server is running on port ${config.port}`);
-  logger.info(`Environment: ${config.nodeEnv}`);
-  logger.info(`DGII Environment: ${config.dgiiEnvironment}`);
-  logger.info(`Health check available at: http://localhost:${config.port}/health`);
-});
+let server: Server | undefined;
+
+// Aplicar migraciones antes de aceptar peticiones: todos los envíos se registran en la base de datos
+database.migrate()
+  .then(async () => {
+    logger.info(`Database ready (${database.client})`);
+
+    await webhookService.ensureLegacySubscription();
+    await jobQueueService.start();
+    statusPollerService.start();
+    certificateMonitorService.start();
+    commercialApprovalService.start();
+    contingencyMonitorService.start();
+
+    server = app.listen(config.port, () => {
+      logger.info(`Server is running on port ${config.port}`);
+      logger.info(`Environment: ${config.nodeEnv}`);
+      logger.info(`DGII Environment: ${config.dgiiEnvironment}`);
+      logger.info(`Health check available at: http://localhost:${config.port}/health`);
+    });
+  })
+  .catch((error) => {
+    logger.error('Error initializing database:', error);
+    process.exit(1);
+  });
 
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
+  jobQueueService.stop();
+  statusPollerService.stop();
+  certificateMonitorService.stop();
+  commercialApprovalService.stop();
+  contingencyMonitorService.stop();
+  server?.close(() => {
     logger.info('HTTP server closed');
+    database.close().catch((error) => logger.error('Error closing database:', error));
   });
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
-  server.close(() => {
+  jobQueueService.stop();
+  statusPollerService.stop();
+  certificateMonitorService.stop();
+  commercialApprovalService.stop();
+  contingencyMonitorService.stop();
+  server?.close(() => {
     logger.info('HTTP server closed');
+    database.close().catch((error) => logger.error('Error closing database:', error));
   });
 });
 
-export default server;
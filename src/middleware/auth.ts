@@ -1,13 +1,114 @@
 import { Request, Response, NextFunction } from 'express';
 import config from '../config/environment';
 import { AppError } from './errorHandler';
+import tenantService from '../services/tenantService';
+import receptorTokenService from '../services/receptorTokenService';
+import { Tenant } from '../types';
 
+declare global {
+  namespace Express {
+    interface Request {
+      // Tenant dueño de la API key; undefined cuando se usa la API key maestra (administrador)
+      tenant?: Tenant;
+    }
+  }
+}
+
+/**
+ * Acepta la API key maestra (administrador, sin restricción de RNC) o la API key de un tenant
+ */
 export const authenticate = (req: Request, res: Response, next: NextFunction) => {
   const apiKey = req.headers['x-api-key'];
 
-  if (!apiKey || apiKey !== config.apiKey) {
+  if (!apiKey || typeof apiKey !== 'string') {
     throw new AppError('Unauthorized - Invalid API Key', 401);
   }
 
+  if (apiKey === config.apiKey) {
+    next();
+    return;
+  }
+
+  tenantService
+    .authenticate(apiKey)
+    .then((tenant) => {
+      if (!tenant) {
+        throw new AppError('Unauthorized - Invalid API Key', 401);
+      }
+      req.tenant = tenant;
+      next();
+    })
+    .catch(next);
+};
+
+/**
+ * Exige en los endpoints de recepción Emisor-Receptor el token entregado por
+ * /fe/autenticacion/api/validacioncertificado (`Authorization: Bearer <token>`).
+ * RECEPTOR_AUTH_ENABLED=false lo desactiva, p.ej. durante la certificación en DGII.
+ */
+export const requireReceptorToken = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.receptorAuthEnabled) {
+    next();
+    return;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    throw new AppError('Unauthorized - Bearer token required', 401);
+  }
+
+  receptorTokenService
+    .authenticate(match[1].trim())
+    .then(() => next())
+    .catch(next);
+};
+
+/**
+ * Restringe la ruta a la API key maestra
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.tenant) {
+    throw new AppError('Forbidden - Admin API key required', 403);
+  }
+
   next();
 };
+
+/**
+ * Indica si la petición puede operar sobre el RNC (siempre para el administrador)
+ */
+export const canAccessRnc = (req: Request, rnc?: string): boolean =>
+  !req.tenant || (rnc !== undefined && req.tenant.rncs.includes(rnc));
+
+/**
+ * RNC con el que opera la petición. Un tenant solo puede usar sus propios RNC;
+ * si no indica ninguno se usa el primero. El administrador usa el RNC tal cual.
+ */
+export const resolveRnc = (req: Request, rnc?: string): string | undefined => {
+  if (!req.tenant) {
+    return rnc;
+  }
+  if (!rnc) {
+    return req.tenant.rncs[0];
+  }
+  if (!req.tenant.rncs.includes(rnc)) {
+    throw new AppError(`Forbidden - RNC ${rnc} is not allowed for this API key`, 403);
+  }
+  return rnc;
+};
+
+/**
+ * Ambiente DGII de la petición. Un tenant opera solo en su ambiente (el configurado o, si no tiene,
+ * DGII_ENVIRONMENT): una petición que indique otro se rechaza. El administrador usa el indicado.
+ */
+export const resolveEnvironment = (req: Request, environment?: string): string | undefined => {
+  if (!req.tenant) {
+    return environment;
+  }
+
+  const tenantEnvironment = req.tenant.environment || config.dgiiEnvironment;
+  if (environment && environment !== tenantEnvironment) {
+    throw new AppError(`Forbidden - environment ${environment} is not allowed for this API key`, 403);
+  }
+  return tenantEnvironment;
+};
@@ -5,11 +5,13 @@ import { ApiResponse } from '../types';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  details?: any;
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, details?: any) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -33,6 +35,7 @@ export const errorHandler = (
   const response: ApiResponse = {
     success: false,
     error: message,
+    ...(err instanceof AppError && err.details !== undefined && { details: err.details }),
   };
 
   res.status(statusCode).json(response);
@@ -1,6 +1,140 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from './errorHandler';
+import {
+  SIMPLE_INCOME_TYPES,
+  SIMPLE_MODIFICATION_CODES,
+  SIMPLE_PAYMENT_METHODS,
+  SIMPLE_PAYMENT_TYPES,
+  SIMPLE_TAX_CODES,
+  TIPOS_ECF,
+  WEBHOOK_EVENTS,
+} from '../types';
+
+const tenantFields = {
+  name: Joi.string().max(200),
+  // RNC (9 dígitos) o cédula (11 dígitos)
+  rncs: Joi.array().items(Joi.string().pattern(/^(\d{9}|\d{11})$/)).min(1).unique(),
+  environment: Joi.string().valid('test', 'cert', 'prod'),
+  certificateBase64: Joi.string().base64(),
+  certificatePassword: Joi.string().allow(''),
+  receptorRules: Joi.object({
+    specification: Joi.boolean(),
+    rncComprador: Joi.boolean(),
+    signature: Joi.boolean(),
+    duplicate: Joi.boolean(),
+  }).allow(null),
+  active: Joi.boolean(),
+};
+
+// TipoeCF se acepta como texto ("31") o número (31)
+const tipoeCF = Joi.alternatives().try(
+  Joi.string().valid(...TIPOS_ECF),
+  Joi.number().valid(...TIPOS_ECF.map(Number))
+);
+
+const webhookSubscriptionFields = {
+  url: Joi.string().uri({ scheme: ['http', 'https'] }),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique(),
+  secret: Joi.string().min(16),
+  rnc: Joi.string(),
+  headers: Joi.object().pattern(Joi.string(), Joi.string()),
+  payloadFormat: Joi.string().valid('event', 'data'),
+  description: Joi.string().max(200),
+  active: Joi.boolean(),
+};
+
+// Fechas del formato simplificado de factura (yyyy-MM-dd)
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/, 'yyyy-MM-dd');
+const simpleTaxCode = Joi.string().valid(...SIMPLE_TAX_CODES);
+
+const simpleInvoice = Joi.object({
+  type: tipoeCF.required(),
+  issueDate: isoDate,
+  sequenceExpiryDate: isoDate,
+  incomeType: Joi.string().valid(...SIMPLE_INCOME_TYPES),
+  paymentType: Joi.string().valid(...SIMPLE_PAYMENT_TYPES),
+  paymentDueDate: isoDate,
+  paymentTerms: Joi.string(),
+  payments: Joi.array().items(
+    Joi.object({
+      method: Joi.string().valid(...SIMPLE_PAYMENT_METHODS).required(),
+      amount: Joi.number().min(0).required(),
+    })
+  ),
+  pricesIncludeTax: Joi.boolean(),
+  internalNumber: Joi.string(),
+  orderNumber: Joi.string(),
+  sellerCode: Joi.string(),
+  currency: Joi.object({
+    code: Joi.string().length(3).uppercase().required(),
+    exchangeRate: Joi.number().positive().required(),
+  }),
+  issuer: Joi.object({
+    name: Joi.string().required(),
+    tradeName: Joi.string(),
+    branch: Joi.string(),
+    address: Joi.string().required(),
+    municipality: Joi.string(),
+    province: Joi.string(),
+    phones: Joi.array().items(Joi.string()),
+    email: Joi.string().email(),
+    website: Joi.string(),
+    economicActivity: Joi.string(),
+  }).required(),
+  customer: Joi.object({
+    rnc: Joi.string(),
+    foreignId: Joi.string(),
+    name: Joi.string(),
+    contact: Joi.string(),
+    email: Joi.string().email(),
+    address: Joi.string(),
+    municipality: Joi.string(),
+    province: Joi.string(),
+    deliveryDate: isoDate,
+    purchaseOrderNumber: Joi.string(),
+    purchaseOrderDate: isoDate,
+    internalCode: Joi.string(),
+  }),
+  lines: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string().required(),
+        description: Joi.string(),
+        kind: Joi.string().valid('good', 'service'),
+        quantity: Joi.number().positive().required(),
+        unitPrice: Joi.number().min(0).required(),
+        unitCode: Joi.number().integer(),
+        discount: Joi.number().min(0),
+        discountPercent: Joi.number().min(0).max(100),
+        surcharge: Joi.number().min(0),
+        tax: simpleTaxCode.required(),
+        withholding: Joi.object({
+          agent: Joi.string().valid('withholding', 'perception'),
+          itbis: Joi.number().min(0),
+          isr: Joi.number().min(0),
+        }),
+      }).oxor('discount', 'discountPercent')
+    )
+    .min(1)
+    .required(),
+  adjustments: Joi.array().items(
+    Joi.object({
+      type: Joi.string().valid('discount', 'surcharge').required(),
+      description: Joi.string(),
+      amount: Joi.number().min(0),
+      percent: Joi.number().min(0).max(100),
+      tax: simpleTaxCode.required(),
+    }).xor('amount', 'percent')
+  ),
+  reference: Joi.object({
+    encf: Joi.string().required(),
+    date: isoDate.required(),
+    code: Joi.string().valid(...SIMPLE_MODIFICATION_CODES).required(),
+    reason: Joi.string(),
+    otherRnc: Joi.string(),
+  }),
+});
 
 export const validateRequest = (schema: any) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -19,16 +153,137 @@ export const schemas = {
   sendInvoice: Joi.object({
     invoiceData: Joi.object().required(),
     rnc: Joi.string().required(),
-    encf: Joi.string().required(),
+    encf: Joi.string().optional(),
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+  }),
+
+  sendSimpleInvoice: Joi.object({
+    invoice: simpleInvoice.required(),
+    rnc: Joi.string().required(),
+    encf: Joi.string().optional(),
     environment: Joi.string().valid('test', 'cert', 'prod').optional(),
   }),
 
+  createNote: Joi.object({
+    rnc: Joi.string().required(),
+    encf: Joi.string().optional(),
+    sequenceExpiryDate: isoDate,
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+    code: Joi.string().valid(...SIMPLE_MODIFICATION_CODES),
+    reason: Joi.string().max(90),
+    internalNumber: Joi.string(),
+    lines: Joi.array()
+      .items(
+        Joi.object({
+          line: Joi.number().integer().min(1).required(),
+          quantity: Joi.number().positive(),
+          amount: Joi.number().positive(),
+        }).xor('quantity', 'amount')
+      )
+      .min(1)
+      .unique('line'),
+  }),
+
+  validateDocument: Joi.object({
+    xmlData: Joi.string(),
+    invoiceData: Joi.object(),
+  }).xor('xmlData', 'invoiceData'),
+
+  validateTotals: Joi.object({
+    invoiceData: Joi.object().required(),
+  }),
+
   signXml: Joi.object({
     xmlData: Joi.string().required(),
     documentType: Joi.string().valid('ECF', 'ACECF', 'ANECF', 'RFCE', 'ARECF').required(),
   }),
 
   auth: Joi.object({
+    rnc: Joi.string().optional(),
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+  }),
+
+  registerSequenceRange: Joi.object({
+    rnc: Joi.string().required(),
+    tipoeCF: tipoeCF.required(),
+    startNumber: Joi.number().integer().min(1).max(9999999999).required(),
+    endNumber: Joi.number().integer().min(1).max(9999999999).required(),
+    expiresAt: Joi.string().required(),
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+  }),
+
+  allocateSequence: Joi.object({
+    rnc: Joi.string().required(),
+    tipoeCF: tipoeCF.required(),
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+  }),
+
+  voidSequence: Joi.object({
+    rnc: Joi.string().required(),
+    tipoeCF: tipoeCF.required(),
+    encfs: Joi.array().items(Joi.string().pattern(/^E\d{12}$/, 'e-NCF')).min(1).max(10000).unique(),
+    range: Joi.object({
+      from: Joi.string().pattern(/^E\d{12}$/, 'e-NCF').required(),
+      to: Joi.string().pattern(/^E\d{12}$/, 'e-NCF').required(),
+    }),
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+  }).xor('encfs', 'range'),
+
+  createWebhook: Joi.object({
+    ...webhookSubscriptionFields,
+    tenantId: Joi.string(),
+    url: webhookSubscriptionFields.url.required(),
+    events: webhookSubscriptionFields.events.required(),
+  }),
+
+  updateWebhook: Joi.object(webhookSubscriptionFields).min(1),
+
+  createTenant: Joi.object({
+    ...tenantFields,
+    name: tenantFields.name.required(),
+    rncs: tenantFields.rncs.required(),
+  }),
+
+  updateTenant: Joi.object(tenantFields).min(1),
+
+  createTenantApiKey: Joi.object({
+    description: Joi.string().max(200),
+  }),
+
+  uploadCertificate: Joi.object({
+    rnc: Joi.string().required(),
+    certificateBase64: Joi.string().base64().required(),
+    password: Joi.string().allow('').required(),
+  }),
+
+  rollbackCertificate: Joi.object({
+    rnc: Joi.string().required(),
+  }),
+
+  acknowledgeInbox: Joi.object({
+    ids: Joi.array().items(Joi.string()).min(1).max(500).required(),
+    acknowledged: Joi.boolean(),
+  }),
+
+  rejectInboxEntry: Joi.object({
+    reason: Joi.string().max(250).required(),
+  }),
+
+  approveInbox: Joi.object({
+    ids: Joi.array().items(Joi.string()).min(1).max(100).required(),
+  }),
+
+  rejectInbox: Joi.object({
+    ids: Joi.array().items(Joi.string()).min(1).max(100).required(),
+    reason: Joi.string().max(250).required(),
+  }),
+
+  startContingency: Joi.object({
+    environment: Joi.string().valid('test', 'cert', 'prod').optional(),
+    reason: Joi.string().max(250),
+  }),
+
+  endContingency: Joi.object({
     environment: Joi.string().valid('test', 'cert', 'prod').optional(),
   }),
 
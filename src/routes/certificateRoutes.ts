@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import * as certificateController from '../controllers/certificateController';
+import { validateRequest, schemas } from '../middleware/validation';
 
 const router = Router();
 
@@ -60,6 +61,14 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: |
+ *           El certificado no pasó la verificación al cargarlo (vigencia, RNC del sujeto, cadena o uso de llave).
+ *           `details` lista cada verificación fallida (`{ check, rnc?, message }`).
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Error del servidor
  *         content:
@@ -69,4 +78,237 @@ const router = Router();
  */
 router.get('/info', certificateController.getCertificateInfo);
 
+/**
+ * @swagger
+ * /api/certificate/expiring:
+ *   get:
+ *     summary: Certificados por vencer
+ *     description: |
+ *       Certificados en uso (subidos, de tenants y de archivo) que vencen dentro de `days` días o ya vencieron,
+ *       ordenados por fecha de vencimiento. Un monitor en segundo plano alerta a los 60, 30, 7 y 1 días
+ *       (CERTIFICATE_EXPIRY_WARNING_DAYS) en el log y con el webhook `certificate.expiring`.
+ *     tags: [Certificado]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *         description: Días hacia adelante (por defecto el mayor umbral de alerta)
+ *     responses:
+ *       200:
+ *         description: Certificados por vencer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       origin:
+ *                         type: string
+ *                         enum: [stored, tenant, file]
+ *                       rncs:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         description: RNC que firman con el certificado (vacío para el certificado por defecto)
+ *                       subject:
+ *                         type: string
+ *                       fingerprint:
+ *                         type: string
+ *                       validTo:
+ *                         type: string
+ *                       daysRemaining:
+ *                         type: integer
+ *                         example: 29
+ *                       threshold:
+ *                         type: integer
+ *                         description: Menor umbral de alerta alcanzado (0 si ya venció)
+ *                         example: 30
+ *                       expired:
+ *                         type: boolean
+ */
+router.get('/expiring', certificateController.listExpiringCertificates);
+
+/**
+ * @swagger
+ * /api/certificate:
+ *   post:
+ *     summary: Subir certificado
+ *     description: |
+ *       Sube un nuevo certificado .p12 para el RNC con su propia contraseña y lo activa sin reiniciar el servicio.
+ *
+ *       Antes de activarlo se verifica que abra con la contraseña, que la llave privada corresponda al certificado,
+ *       que esté vigente, que el serialNumber del sujeto contenga el RNC, que lo haya emitido una CA de confianza
+ *       (CERTIFICATE_TRUST_ANCHORS_PATH) y que la llave permita firma digital.
+ *       El P12 y la contraseña se guardan cifrados (ENCRYPTION_KEY).
+ *
+ *       El certificado activo pasa a ser el anterior y se puede restaurar con `/api/certificate/rollback`.
+ *       El certificado subido tiene prioridad sobre el del tenant y el archivo `{rnc}.p12`.
+ *     tags: [Certificado]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rnc
+ *               - certificateBase64
+ *               - password
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 example: "130862346"
+ *               certificateBase64:
+ *                 type: string
+ *                 description: Archivo .p12 en Base64
+ *               password:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Certificado activado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     rnc:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       example: active
+ *                     subject:
+ *                       type: string
+ *                     issuer:
+ *                       type: string
+ *                     serialNumber:
+ *                       type: string
+ *                     fingerprint:
+ *                       type: string
+ *                     validFrom:
+ *                       type: string
+ *                     validTo:
+ *                       type: string
+ *                     activatedAt:
+ *                       type: string
+ *       403:
+ *         description: El RNC no pertenece al tenant de la API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Certificado inválido (contraseña, llave, vigencia, RNC del sujeto, cadena o uso de llave)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: string
+ *                   example: "Invalid certificate for RNC 130862346: 1 error(s)"
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       check:
+ *                         type: string
+ *                         enum: [password, keyMatch, expired, notYetValid, subjectRnc, chain, keyUsage]
+ *                       rnc:
+ *                         type: string
+ *                       message:
+ *                         type: string
+ */
+router.post('/', validateRequest(schemas.uploadCertificate), certificateController.uploadCertificate);
+
+/**
+ * @swagger
+ * /api/certificate:
+ *   get:
+ *     summary: Listar certificados subidos
+ *     description: Certificado activo y anterior de cada RNC (sin el P12 ni la contraseña)
+ *     tags: [Certificado]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: rnc
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Certificados subidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.get('/', certificateController.listCertificates);
+
+/**
+ * @swagger
+ * /api/certificate/rollback:
+ *   post:
+ *     summary: Restaurar certificado anterior
+ *     description: Vuelve a activar el certificado anterior del RNC; el activo pasa a ser el anterior.
+ *     tags: [Certificado]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rnc
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 example: "130862346"
+ *     responses:
+ *       200:
+ *         description: Certificado anterior activado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: No hay certificado anterior
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El certificado anterior está vencido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/rollback', validateRequest(schemas.rollbackCertificate), certificateController.rollbackCertificate);
+
 export default router;
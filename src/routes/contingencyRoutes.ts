@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import * as contingencyController from '../controllers/contingencyController';
+import { requireAdmin } from '../middleware/auth';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/contingency:
+ *   get:
+ *     summary: Estado de la contingencia
+ *     description: |
+ *       Indica si hay un período de contingencia abierto para el ambiente y cuántos documentos firmados
+ *       están pendientes de enviar a DGII.
+ *     tags: [Contingencia]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: environment
+ *         schema:
+ *           type: string
+ *           enum: [test, cert, prod]
+ *     responses:
+ *       200:
+ *         description: Estado de la contingencia
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     environment:
+ *                       type: string
+ *                       example: "prod"
+ *                     active:
+ *                       type: boolean
+ *                     period:
+ *                       $ref: '#/components/schemas/ContingencyPeriod'
+ *                     pending:
+ *                       type: integer
+ *                       example: 12
+ */
+router.get('/', contingencyController.getContingency);
+
+/**
+ * @swagger
+ * /api/contingency/report:
+ *   get:
+ *     summary: Reporte de documentos emitidos en contingencia
+ *     description: |
+ *       Lista los documentos firmados en contingencia con la fecha de firma, la de envío a DGII y el retraso
+ *       en minutos, además de los que siguen pendientes o fueron rechazados al enviarlos. Incluye los períodos
+ *       de contingencia del intervalo. Un tenant solo ve los documentos de sus RNC.
+ *     tags: [Contingencia]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: environment
+ *         schema:
+ *           type: string
+ *           enum: [test, cert, prod]
+ *       - in: query
+ *         name: rnc
+ *         schema:
+ *           type: string
+ *         description: RNC emisor
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *         description: Fecha de firma desde (ISO 8601)
+ *         example: "2026-10-01T00:00:00Z"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *         description: Fecha de firma hasta (ISO 8601)
+ *     responses:
+ *       200:
+ *         description: Reporte de contingencia
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     sent:
+ *                       type: integer
+ *                     pending:
+ *                       type: integer
+ *                     failed:
+ *                       type: integer
+ *                     periods:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ContingencyPeriod'
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ContingencyReportItem'
+ */
+router.get('/report', contingencyController.getContingencyReport);
+
+/**
+ * @swagger
+ * /api/contingency/start:
+ *   post:
+ *     summary: Activar contingencia
+ *     description: |
+ *       Abre un período de contingencia para el ambiente (solo administrador). Mientras está abierto, las facturas
+ *       se firman y se retornan de inmediato con su QR y código de seguridad (`contingency: true`, HTTP 202),
+ *       y quedan guardadas pendientes de envío. La contingencia manual solo termina con POST /api/contingency/end.
+ *     tags: [Contingencia]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *               reason:
+ *                 type: string
+ *                 example: "Servicio de recepción de DGII no disponible"
+ *     responses:
+ *       201:
+ *         description: Contingencia activada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ContingencyPeriod'
+ *       403:
+ *         description: Requiere la API key de administrador
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Ya hay una contingencia activa para el ambiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/start', requireAdmin, validateRequest(schemas.startContingency), contingencyController.startContingency);
+
+/**
+ * @swagger
+ * /api/contingency/end:
+ *   post:
+ *     summary: Terminar contingencia
+ *     description: |
+ *       Cierra el período de contingencia del ambiente (solo administrador) y empieza a enviar a DGII los
+ *       documentos pendientes, en el orden en que se firmaron. Si DGII sigue sin responder, los pendientes
+ *       se reintentan en cada revisión (CONTINGENCY_CHECK_INTERVAL_MS). La respuesta incluye `pending`,
+ *       los documentos por enviar al cerrarla.
+ *     tags: [Contingencia]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *     responses:
+ *       200:
+ *         description: Contingencia terminada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ContingencyPeriod'
+ *       403:
+ *         description: Requiere la API key de administrador
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: No hay contingencia activa para el ambiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/end', requireAdmin, validateRequest(schemas.endContingency), contingencyController.endContingency);
+
+export default router;
@@ -0,0 +1,235 @@
+import { Router } from 'express';
+import * as documentController from '../controllers/documentController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/documents:
+ *   get:
+ *     summary: Buscar documentos
+ *     description: |
+ *       Busca en el almacén de documentos emitidos y recibidos (ECF, RFCE, ARECF, ACECF, ANECF).
+ *       Los resultados no incluyen el XML firmado; usar `/api/documents/{id}` o `/api/documents/{id}/xml`.
+ *     tags: [Documentos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [emitted, received]
+ *       - in: query
+ *         name: documentType
+ *         schema:
+ *           type: string
+ *           enum: [ECF, RFCE, ARECF, ACECF, ANECF]
+ *       - in: query
+ *         name: tipoEcf
+ *         schema:
+ *           type: string
+ *         example: "31"
+ *       - in: query
+ *         name: rncEmisor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rncComprador
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: encf
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: trackId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: environment
+ *         schema:
+ *           type: string
+ *           enum: [test, cert, prod]
+ *       - in: query
+ *         name: commercialStatus
+ *         schema:
+ *           type: string
+ *           enum: [approved, rejected]
+ *         description: Aprobación comercial (ACECF) recibida del comprador
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha de registro desde (ISO-8601)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha de registro hasta (ISO-8601)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Documentos encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     total:
+ *                       type: integer
+ *                       example: 1
+ *       401:
+ *         description: API Key inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', documentController.searchDocuments);
+
+/**
+ * @swagger
+ * /api/documents/{id}:
+ *   get:
+ *     summary: Obtener documento
+ *     description: Retorna el documento almacenado, incluyendo el XML firmado y la respuesta de DGII
+ *     tags: [Documentos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Documento encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', documentController.getDocument);
+
+/**
+ * @swagger
+ * /api/documents/{id}/xml:
+ *   get:
+ *     summary: Descargar XML del documento
+ *     description: Descarga el XML firmado tal como fue emitido o recibido
+ *     tags: [Documentos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: XML firmado
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/xml', documentController.getDocumentXml);
+
+/**
+ * @swagger
+ * /api/documents/{id}/status-history:
+ *   get:
+ *     summary: Historial de estados DGII
+ *     description: |
+ *       Cambios de estado del e-CF en DGII con los mensajes recibidos en cada uno.
+ *       El servicio consulta el trackId en segundo plano hasta llegar a un estado final
+ *       (Aceptado, Rechazado o Aceptado Condicional).
+ *     tags: [Documentos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Historial de estados, del más antiguo al más reciente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       status:
+ *                         type: string
+ *                         example: "Aceptado"
+ *                       code:
+ *                         type: integer
+ *                         example: 1
+ *                       messages:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             valor:
+ *                               type: string
+ *                             codigo:
+ *                               type: integer
+ *                       createdAt:
+ *                         type: string
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/status-history', documentController.getDocumentStatusHistory);
+
+export default router;
@@ -0,0 +1,510 @@
+import { Router } from 'express';
+import * as inboxController from '../controllers/inboxController';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/inbox:
+ *   get:
+ *     summary: Bandeja de e-CF recibidos
+ *     description: |
+ *       e-CF recibidos de proveedores por el endpoint Emisor-Receptor, con el ARECF con el que se
+ *       respondió y el estado de la aprobación comercial, los más antiguos primero. Permite que el ERP
+ *       importe las facturas de proveedores consultando `acknowledged=false` y confirmando cada documento
+ *       importado con `/api/inbox/{id}/ack`, en lugar de depender solo del webhook `ecf.received`.
+ *       Los resultados no incluyen el XML; usar `/api/inbox/{id}/xml`.
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: rncEmisor
+ *         schema:
+ *           type: string
+ *         description: RNC del proveedor
+ *       - in: query
+ *         name: rncComprador
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tipoEcf
+ *         schema:
+ *           type: string
+ *         example: "31"
+ *       - in: query
+ *         name: arecfStatus
+ *         schema:
+ *           type: string
+ *           enum: [e-CF Recibido, e-CF No Recibido]
+ *       - in: query
+ *         name: approvalStatus
+ *         schema:
+ *           type: string
+ *           enum: [pending, sending, approved, rejected, expired]
+ *         description: Estado de la aprobación comercial (ACECF) enviada; sending mientras se envía
+ *       - in: query
+ *         name: acknowledged
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Confirmados o no por el ERP
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha de recepción desde (ISO-8601)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha de recepción hasta (ISO-8601)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: e-CF recibidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/InboxEntry'
+ *                     total:
+ *                       type: integer
+ *                       example: 1
+ *       401:
+ *         description: API Key inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', inboxController.searchInbox);
+
+/**
+ * @swagger
+ * /api/inbox/ack:
+ *   post:
+ *     summary: Confirmar varios e-CF recibidos
+ *     description: |
+ *       Marca los documentos como importados por el ERP (o los devuelve a pendientes con
+ *       `acknowledged: false`). Si algún ID no existe o no es accesible no se cambia ninguno.
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: string
+ *               acknowledged:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Cantidad de documentos que cambiaron de estado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     changed:
+ *                       type: integer
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/ack', validateRequest(schemas.acknowledgeInbox), inboxController.acknowledgeInbox);
+
+/**
+ * @swagger
+ * /api/inbox/approve:
+ *   post:
+ *     summary: Aprobar varios e-CF recibidos
+ *     description: |
+ *       Envía un ACECF aprobando (Estado 1) cada e-CF pendiente o vencido. Si algún ID no existe o no es
+ *       accesible no se envía ninguno; si falla el envío de alguno, los demás se procesan igual y
+ *       `results` indica el error de cada uno.
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Resultado por documento (`success` es false si alguno falló)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommercialApprovalResults'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/approve', validateRequest(schemas.approveInbox), inboxController.approveInbox);
+
+/**
+ * @swagger
+ * /api/inbox/reject:
+ *   post:
+ *     summary: Rechazar varios e-CF recibidos
+ *     description: |
+ *       Envía un ACECF rechazando (Estado 2) cada e-CF pendiente o vencido con el mismo motivo.
+ *       Si algún ID no existe o no es accesible no se envía ninguno.
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids, reason]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *                 maxLength: 250
+ *                 description: Motivo del rechazo (DetalleMotivoRechazo)
+ *     responses:
+ *       200:
+ *         description: Resultado por documento (`success` es false si alguno falló)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommercialApprovalResults'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/reject', validateRequest(schemas.rejectInbox), inboxController.rejectInbox);
+
+/**
+ * @swagger
+ * /api/inbox/{id}:
+ *   get:
+ *     summary: Obtener e-CF recibido
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: e-CF recibido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/InboxEntry'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', inboxController.getInboxEntry);
+
+/**
+ * @swagger
+ * /api/inbox/{id}/xml:
+ *   get:
+ *     summary: Descargar el e-CF recibido
+ *     description: Descarga el XML tal como lo envió el emisor
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: XML del e-CF
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/xml', inboxController.getInboxXml);
+
+/**
+ * @swagger
+ * /api/inbox/{id}/arecf:
+ *   get:
+ *     summary: Descargar el ARECF
+ *     description: Descarga el ARECF firmado con el que se respondió al emisor
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: XML del ARECF
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Documento no encontrado o sin ARECF guardado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/arecf', inboxController.getInboxArecfXml);
+
+/**
+ * @swagger
+ * /api/inbox/{id}/ack:
+ *   post:
+ *     summary: Confirmar e-CF recibido
+ *     description: Marca el documento como importado por el ERP; deja de aparecer con `acknowledged=false`
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: e-CF confirmado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/InboxEntry'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Quitar la confirmación
+ *     description: Devuelve el documento a pendientes, p.ej. si el ERP debe volver a importarlo
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: e-CF pendiente de confirmar
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/InboxEntry'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/ack', inboxController.acknowledgeInboxEntry);
+router.delete('/:id/ack', inboxController.acknowledgeInboxEntry);
+
+/**
+ * @swagger
+ * /api/inbox/{id}/approve:
+ *   post:
+ *     summary: Aprobar e-CF recibido
+ *     description: |
+ *       Envía al emisor el ACECF aprobando (Estado 1) el e-CF. Solo aplica a e-CF acusados como recibidos
+ *       y pendientes o vencidos (`expired`); responde 409 si ya se aprobó o rechazó.
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ACECF enviado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CommercialApprovalResult'
+ *       404:
+ *         description: Documento no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El e-CF no se acusó como recibido o ya tiene aprobación comercial
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/approve', inboxController.approveInboxEntry);
+
+/**
+ * @swagger
+ * /api/inbox/{id}/reject:
+ *   post:
+ *     summary: Rechazar e-CF recibido
+ *     description: Envía al emisor el ACECF rechazando (Estado 2) el e-CF con el motivo indicado
+ *     tags: [Bandeja de entrada]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 250
+ *                 description: Motivo del rechazo (DetalleMotivoRechazo)
+ *     responses:
+ *       200:
+ *         description: ACECF enviado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CommercialApprovalResult'
+ *       400:
+ *         description: Falta el motivo del rechazo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El e-CF no se acusó como recibido o ya tiene aprobación comercial
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/reject', validateRequest(schemas.rejectInboxEntry), inboxController.rejectInboxEntry);
+
+export default router;
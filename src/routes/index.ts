@@ -2,11 +2,27 @@ import { Router } from 'express';
 import authRoutes from './authRoutes';
 import invoiceRoutes from './invoiceRoutes';
 import certificateRoutes from './certificateRoutes';
+import documentRoutes from './documentRoutes';
+import sequenceRoutes from './sequenceRoutes';
+import jobRoutes from './jobRoutes';
+import webhookRoutes from './webhookRoutes';
+import tenantRoutes from './tenantRoutes';
+import receptorRoutes from './receptorRoutes';
+import inboxRoutes from './inboxRoutes';
+import contingencyRoutes from './contingencyRoutes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/invoice', invoiceRoutes);
 router.use('/certificate', certificateRoutes);
+router.use('/documents', documentRoutes);
+router.use('/sequences', sequenceRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/tenants', tenantRoutes);
+router.use('/receptor', receptorRoutes);
+router.use('/inbox', inboxRoutes);
+router.use('/contingency', contingencyRoutes);
 
 export default router;
@@ -149,15 +149,148 @@ router.post('/sign', validateRequest(schemas.signXml), invoiceController.signXml
 import express from 'express';
 router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*/*'], limit: '10mb' }), invoiceController.signXmlFile);
 
+/**
+ * @swagger
+ * /api/invoice/verify:
+ *   post:
+ *     summary: Verificar firma de un XML
+ *     description: |
+ *       Verifica un XML firmado (de un proveedor, de DGII o propio) sin procesarlo ni guardarlo.
+ *
+ *       **Verificaciones:**
+ *       - `documentType`: el nodo raíz es un tipo conocido (ECF, RFCE, ARECF, ACECF, ANECF, SemillaModel)
+ *       - `signature` / `digest`: la firma XMLDSig es válida y el contenido no fue alterado
+ *       - `expired` / `notYetValid`: el certificado del firmante estaba vigente en `FechaHoraFirma`
+ *       - `subjectRnc`: el certificado corresponde al RNC que debe firmar (RNCEmisor; RNCComprador en ARECF y ACECF)
+ *       - `chain` / `keyUsage`: emitido por una CA de confianza y permite firma digital
+ *
+ *       Retorna 200 aunque la firma no sea válida: `valid` indica el resultado y `errors` lista cada verificación fallida.
+ *       `securityCode` es el código de seguridad de 6 dígitos calculado desde el SignatureValue.
+ *     tags: [Firma]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/xml:
+ *           schema:
+ *             type: string
+ *             description: XML firmado
+ *         text/xml:
+ *           schema:
+ *             type: string
+ *             description: XML firmado
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - xmlData
+ *             properties:
+ *               xmlData:
+ *                 type: string
+ *                 description: XML firmado
+ *     responses:
+ *       200:
+ *         description: Resultado de la verificación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     documentType:
+ *                       type: string
+ *                       example: ECF
+ *                     knownDocumentType:
+ *                       type: boolean
+ *                     encf:
+ *                       type: string
+ *                       example: E310000000001
+ *                     signerRnc:
+ *                       type: string
+ *                       example: "130862346"
+ *                     signedAt:
+ *                       type: string
+ *                     securityCode:
+ *                       type: string
+ *                       example: "a1B2c3"
+ *                     signer:
+ *                       type: object
+ *                       properties:
+ *                         subject:
+ *                           type: string
+ *                         issuer:
+ *                           type: string
+ *                         serialNumber:
+ *                           type: string
+ *                         fingerprint:
+ *                           type: string
+ *                         validFrom:
+ *                           type: string
+ *                         validTo:
+ *                           type: string
+ *                         subjectIds:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                     errors:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           check:
+ *                             type: string
+ *                             enum: [documentType, signature, digest, expired, notYetValid, subjectRnc, chain, keyUsage]
+ *                           rnc:
+ *                             type: string
+ *                           message:
+ *                             type: string
+ *       400:
+ *         description: No se envió un XML
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/verify', express.raw({ type: ['application/xml', 'text/xml'], limit: '10mb' }), invoiceController.verifySignature);
+
 /**
  * @swagger
  * /api/invoice/send:
  *   post:
  *     summary: Enviar Factura
- *     description: Convierte JSON a XML, firma y envía factura electrónica a DGII
+ *     description: |
+ *       Convierte JSON a XML, firma y envía factura electrónica a DGII.
+ *
+ *       Con `?async=true` la factura se firma, se guarda y se encola; la respuesta (202) incluye
+ *       el `jobId` para consultar el progreso en `/api/jobs/{id}`, además del QR y código de seguridad.
+ *       El worker reintenta con backoff exponencial ante fallas de red o errores 5xx de DGII.
+ *
+ *       Las facturas de consumo (e-NCF E32 o `TipoeCF` 32) con `MontoTotal` menor a `CONSUMO_SUMMARY_THRESHOLD`
+ *       (RD$250,000 por defecto) se envían como RFCE, igual que `/send-summary-with-ecf`; el resto como e-CF completo.
+ *       El campo `mode` de la respuesta indica el flujo usado: `ecf` o `summary`. En modo `summary` la respuesta
+ *       tiene la forma de `/send-summary-with-ecf`, y con `?async=true` el RFCE se firma al procesar el trabajo.
+ *
+ *       En contingencia (ver `/api/contingency`) la factura se firma y se retorna de inmediato con el QR y el
+ *       código de seguridad (202, `contingency: true`, sin trackId); se envía a DGII cuando termina la contingencia.
  *     tags: [Facturas]
  *     security:
  *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *           default: "false"
+ *         description: Encolar el envío y responder de inmediato
  *     requestBody:
  *       required: true
  *       content:
@@ -167,7 +300,6 @@ router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*
  *             required:
  *               - invoiceData
  *               - rnc
- *               - encf
  *             properties:
  *               invoiceData:
  *                 type: object
@@ -178,7 +310,9 @@ router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*
  *                 example: "130862346"
  *               encf:
  *                 type: string
- *                 description: Número de e-NCF
+ *                 description: |
+ *                   Número de e-NCF (opcional). Si se omite y tampoco viene en `IdDoc.eNCF`,
+ *                   se asigna automáticamente desde los rangos registrados en `/api/sequences`
  *                 example: "E310005000201"
  *               environment:
  *                 type: string
@@ -199,6 +333,10 @@ router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*
  *                 data:
  *                   type: object
  *                   properties:
+ *                     mode:
+ *                       type: string
+ *                       enum: [ecf, summary]
+ *                       description: Flujo usado (e-CF completo o RFCE)
  *                     trackId:
  *                       type: string
  *                       example: "d2b6e27c-3908-46f3-afaa-2207b9501b4b"
@@ -225,12 +363,52 @@ router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*
  *                     qrCodeUrl:
  *                       type: string
  *                       example: "https://dgii.gov.do/ecf/qr?..."
+ *                     documentId:
+ *                       type: string
+ *                       description: ID del documento en el almacén (ver /api/documents)
+ *       202:
+ *         description: Factura firmada y encolada (modo async)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     mode:
+ *                       type: string
+ *                       enum: [ecf, summary]
+ *                     jobId:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       example: "queued"
+ *                     encf:
+ *                       type: string
+ *                       example: "E310005000201"
+ *                     securityCode:
+ *                       type: string
+ *                       example: "ABC123"
+ *                     qrCodeUrl:
+ *                       type: string
+ *                     documentId:
+ *                       type: string
  *       400:
  *         description: Datos inválidos
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: La factura no cumple el XSD de DGII o sus totales no cuadran con las líneas (ver `details`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  *       500:
  *         description: Error del servidor
  *         content:
@@ -240,6 +418,563 @@ router.post('/sign-file', express.raw({ type: ['application/xml', 'text/xml', '*
  */
 router.post('/send', validateRequest(schemas.sendInvoice), invoiceController.sendInvoice);
 
+/**
+ * @swagger
+ * /api/invoice/send-simple:
+ *   post:
+ *     summary: Enviar factura en formato simplificado
+ *     description: |
+ *       Acepta una factura con claves en inglés (cliente, líneas, impuestos y condiciones de pago) y la traduce al e-CF
+ *       de DGII: nombres y orden de los campos, fechas `dd-MM-yyyy` y tablas de códigos. `MontoItem` y `Totales`
+ *       se calculan a partir de las líneas. Luego sigue el mismo flujo que `/send` (incluido `?async=true`).
+ *
+ *       Los errores de validación del e-CF generado (`422`) indican la ruta del campo en el XML de DGII.
+ *     tags: [Facturas]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *           default: "false"
+ *         description: Encolar el envío y responder de inmediato
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - invoice
+ *               - rnc
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 description: RNC del emisor
+ *                 example: "130862346"
+ *               encf:
+ *                 type: string
+ *                 description: e-NCF a usar. Si no se envía, se asigna de los rangos registrados
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *               invoice:
+ *                 type: object
+ *                 required: [type, issuer, lines]
+ *                 properties:
+ *                   type:
+ *                     type: integer
+ *                     enum: [31, 32, 33, 34, 41, 43, 44, 45, 46, 47]
+ *                     description: TipoeCF
+ *                   issueDate:
+ *                     type: string
+ *                     format: date
+ *                     description: Fecha de emisión (yyyy-MM-dd). Por defecto, hoy
+ *                   sequenceExpiryDate:
+ *                     type: string
+ *                     format: date
+ *                     description: Vencimiento de la secuencia. Se toma del rango si el e-NCF se asigna automáticamente
+ *                   incomeType:
+ *                     type: string
+ *                     enum: [operations, financial, extraordinary, leases, asset_sale, other]
+ *                     default: operations
+ *                     description: TipoIngresos (01-06)
+ *                   paymentType:
+ *                     type: string
+ *                     enum: [cash, credit, free]
+ *                     default: cash
+ *                     description: TipoPago (1 contado, 2 crédito, 3 gratuito)
+ *                   paymentDueDate:
+ *                     type: string
+ *                     format: date
+ *                   paymentTerms:
+ *                     type: string
+ *                     example: "30 días"
+ *                   payments:
+ *                     type: array
+ *                     description: TablaFormasPago
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         method:
+ *                           type: string
+ *                           enum: [cash, bank, card, credit, gift_certificate, swap, credit_note, other]
+ *                         amount:
+ *                           type: number
+ *                   pricesIncludeTax:
+ *                     type: boolean
+ *                     description: Los precios incluyen ITBIS (IndicadorMontoGravado)
+ *                   internalNumber:
+ *                     type: string
+ *                     description: Número de factura interno del ERP
+ *                   orderNumber:
+ *                     type: string
+ *                   sellerCode:
+ *                     type: string
+ *                   currency:
+ *                     type: object
+ *                     description: Moneda extranjera. Los montos de las líneas son en pesos; se agregan los equivalentes
+ *                     properties:
+ *                       code:
+ *                         type: string
+ *                         example: "USD"
+ *                       exchangeRate:
+ *                         type: number
+ *                         example: 58.5
+ *                   issuer:
+ *                     type: object
+ *                     required: [name, address]
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                       tradeName:
+ *                         type: string
+ *                       branch:
+ *                         type: string
+ *                       address:
+ *                         type: string
+ *                       municipality:
+ *                         type: string
+ *                       province:
+ *                         type: string
+ *                       phones:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       email:
+ *                         type: string
+ *                       website:
+ *                         type: string
+ *                       economicActivity:
+ *                         type: string
+ *                   customer:
+ *                     type: object
+ *                     properties:
+ *                       rnc:
+ *                         type: string
+ *                       foreignId:
+ *                         type: string
+ *                         description: Identificador de un comprador extranjero
+ *                       name:
+ *                         type: string
+ *                       contact:
+ *                         type: string
+ *                       email:
+ *                         type: string
+ *                       address:
+ *                         type: string
+ *                       municipality:
+ *                         type: string
+ *                       province:
+ *                         type: string
+ *                       deliveryDate:
+ *                         type: string
+ *                         format: date
+ *                       purchaseOrderNumber:
+ *                         type: string
+ *                       purchaseOrderDate:
+ *                         type: string
+ *                         format: date
+ *                       internalCode:
+ *                         type: string
+ *                   lines:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       required: [name, quantity, unitPrice, tax]
+ *                       properties:
+ *                         name:
+ *                           type: string
+ *                         description:
+ *                           type: string
+ *                         kind:
+ *                           type: string
+ *                           enum: [good, service]
+ *                           default: good
+ *                         quantity:
+ *                           type: number
+ *                         unitPrice:
+ *                           type: number
+ *                         unitCode:
+ *                           type: integer
+ *                           description: Código de unidad de medida de DGII
+ *                         discount:
+ *                           type: number
+ *                           description: Descuento en monto
+ *                         discountPercent:
+ *                           type: number
+ *                           description: Descuento en porcentaje (alternativa a discount)
+ *                         surcharge:
+ *                           type: number
+ *                         tax:
+ *                           type: string
+ *                           enum: [itbis18, itbis16, itbis0, exempt, non_billable]
+ *                           description: IndicadorFacturacion (1, 2, 3, 4, 0)
+ *                         withholding:
+ *                           type: object
+ *                           properties:
+ *                             agent:
+ *                               type: string
+ *                               enum: [withholding, perception]
+ *                             itbis:
+ *                               type: number
+ *                             isr:
+ *                               type: number
+ *                   adjustments:
+ *                     type: array
+ *                     description: Descuentos o recargos globales (monto o porcentaje sobre las líneas con el mismo impuesto)
+ *                     items:
+ *                       type: object
+ *                       required: [type, tax]
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           enum: [discount, surcharge]
+ *                         description:
+ *                           type: string
+ *                         amount:
+ *                           type: number
+ *                         percent:
+ *                           type: number
+ *                         tax:
+ *                           type: string
+ *                           enum: [itbis18, itbis16, itbis0, exempt, non_billable]
+ *                   reference:
+ *                     type: object
+ *                     description: Comprobante modificado (obligatorio en notas de débito y crédito)
+ *                     required: [encf, date, code]
+ *                     properties:
+ *                       encf:
+ *                         type: string
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       code:
+ *                         type: string
+ *                         enum: [void, text_correction, amount_correction, contingency_replacement, consumer_reference]
+ *                         description: CodigoModificacion (1-5)
+ *                       reason:
+ *                         type: string
+ *                       otherRnc:
+ *                         type: string
+ *     responses:
+ *       200:
+ *         description: Factura enviada exitosamente (misma respuesta que /send, incluido `mode`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       202:
+ *         description: Factura firmada y encolada (modo async)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: El e-CF generado no cumple las reglas del TipoeCF, el XSD o sus totales no cuadran (ver `details`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post('/send-simple', validateRequest(schemas.sendSimpleInvoice), invoiceController.sendSimpleInvoice);
+
+/**
+ * @swagger
+ * /api/invoice/{encf}/credit-note:
+ *   post:
+ *     summary: Emitir nota de crédito de un e-CF emitido
+ *     description: |
+ *       Construye la nota de crédito (34) a partir del e-CF guardado en el almacén: emisor, comprador, condiciones
+ *       y líneas se toman del original, y `InformacionReferencia` (NCFModificado, FechaNCFModificado,
+ *       CodigoModificacion) se completa con sus datos. `IndicadorNotaCredito` es 1 si pasaron más de 30 días
+ *       desde la emisión del original. Luego sigue el mismo flujo que `/send` (incluido `?async=true`), en el
+ *       ambiente del e-CF original.
+ *
+ *       Sin `lines` la nota incluye el e-CF completo (por defecto `code: void`). Con `lines`, cada línea del original
+ *       se acredita por una cantidad (descuento, recargo y retenciones proporcionales) o por un monto
+ *       (por defecto `code: amount_correction`).
+ *
+ *       Las notas de crédito de un e-CF, sin contar las rechazadas por DGII, no pueden superar su `MontoTotal` (422).
+ *     tags: [Facturas]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: encf
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: e-NCF del e-CF emitido que se modifica
+ *         example: "E310000000001"
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *           default: "false"
+ *         description: Encolar el envío y responder de inmediato
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateNoteRequest'
+ *     responses:
+ *       200:
+ *         description: Nota enviada exitosamente (misma respuesta que /send)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       202:
+ *         description: Nota firmada y encolada (modo async)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos, línea inexistente o cantidad/monto mayor que el de la línea original
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: e-CF emitido no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El e-CF original fue rechazado por DGII
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Las notas de crédito superarían el total del e-CF, o la nota no cumple el XSD (ver `details`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post('/:encf/credit-note', validateRequest(schemas.createNote), invoiceController.sendCreditNote);
+
+/**
+ * @swagger
+ * /api/invoice/{encf}/debit-note:
+ *   post:
+ *     summary: Emitir nota de débito de un e-CF emitido
+ *     description: |
+ *       Construye la nota de débito (33) a partir del e-CF guardado, igual que `/credit-note`. Las cantidades
+ *       y montos de `lines` pueden superar los de la línea original (por defecto `code: amount_correction`).
+ *       Si se indica `encf`, también se requiere `sequenceExpiryDate`.
+ *     tags: [Facturas]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: encf
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: e-NCF del e-CF emitido que se modifica
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *           default: "false"
+ *         description: Encolar el envío y responder de inmediato
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateNoteRequest'
+ *     responses:
+ *       200:
+ *         description: Nota enviada exitosamente (misma respuesta que /send)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       202:
+ *         description: Nota firmada y encolada (modo async)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos o línea inexistente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: e-CF emitido no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El e-CF original fue rechazado por DGII
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: La nota no cumple las reglas del TipoeCF o el XSD (ver `details`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post('/:encf/debit-note', validateRequest(schemas.createNote), invoiceController.sendDebitNote);
+
+/**
+ * @swagger
+ * /api/invoice/validate:
+ *   post:
+ *     summary: Validar documento contra XSD
+ *     description: |
+ *       Valida un documento contra el XSD oficial de DGII sin firmarlo ni enviarlo.
+ *       Es la misma validación que se aplica antes de firmar en `/sign`, `/send` y demás envíos.
+ *
+ *       Acepta el XML (`xmlData`: ECF, RFCE, ARECF, ACECF o ANECF) o el JSON de un e-CF (`invoiceData`).
+ *       El e-NCF no se asigna en esta validación, por lo que `invoiceData` debe incluir `IdDoc.eNCF`.
+ *     tags: [Facturas]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               xmlData:
+ *                 type: string
+ *                 example: "<?xml version=\"1.0\" encoding=\"utf-8\"?><ECF>...</ECF>"
+ *               invoiceData:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: El documento cumple el XSD
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                       example: true
+ *                     documentType:
+ *                       type: string
+ *                       example: "ECF"
+ *                     schema:
+ *                       type: string
+ *                       example: "ECF-31.xsd"
+ *                     errors:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Documento no reconocido o sin TipoeCF
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: El documento no cumple el XSD
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       503:
+ *         description: El XSD del documento no está instalado en XSD_PATH
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/validate', validateRequest(schemas.validateDocument), invoiceController.validateDocument);
+
+/**
+ * @swagger
+ * /api/invoice/validate-totals:
+ *   post:
+ *     summary: Validar totales del e-CF
+ *     description: |
+ *       Recalcula Totales desde `DetallesItems` y `DescuentosORecargos` y reporta cada discrepancia con el valor esperado.
+ *       Es la misma validación que se aplica en `/send` antes de asignar el e-NCF.
+ *
+ *       Reglas: `MontoItem` = cantidad × precio − descuento + recargo; montos gravados, exento y no facturable
+ *       por `IndicadorFacturacion`; tasas ITBIS1/2/3 (18, 16, 0) y su ITBIS; `MontoTotal`; retenciones;
+ *       y consistencia interna de cada `Subtotal`.
+ *     tags: [Facturas]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - invoiceData
+ *             properties:
+ *               invoiceData:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Los totales cuadran con las líneas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                       example: true
+ *                     errors:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     computed:
+ *                       type: object
+ *                       description: Totales calculados desde las líneas
+ *       422:
+ *         description: |
+ *           Los totales no cuadran. Cada elemento de `details` incluye `rule`, `xpath`, `message`,
+ *           `expected` (valor calculado) y `actual` (valor declarado).
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post('/validate-totals', validateRequest(schemas.validateTotals), invoiceController.validateTotals);
+
 /**
  * @swagger
  * /api/invoice/status/{trackId}:
@@ -739,7 +1474,9 @@ router.post('/approval', invoiceController.sendApproval);
  * /api/invoice/void:
  *   post:
  *     summary: Anular Secuencias de e-NCF
- *     description: Anula rangos de secuencias de e-NCF no utilizadas
+ *     description: |
+ *       Anula rangos de secuencias de e-NCF no utilizadas a partir de un ANECF ya armado.
+ *       Para anular e-NCF del inventario (generando el ANECF y marcándolos como anulados) use POST /api/sequences/void.
  *     tags: [Anulaciones]
  *     security:
  *       - ApiKeyAuth: []
@@ -932,9 +1669,17 @@ router.get('/qr/generate', invoiceController.generateQR);
  *
  *       **Flujo:**
  *       1. El emisor envía el ECF firmado a este endpoint
- *       2. El sistema genera el ARECF con Estado "0" (Recibido) o "1" (No Recibido)
- *       3. El ARECF se firma con el certificado del receptor
- *       4. Se responde con el XML del ARECF firmado (Content-Type: application/xml)
+ *       2. Se aplican las reglas de recepción, en este orden; la primera que falla define el
+ *          CodigoMotivoNoRecibido:
+ *          - `specification` (1): no es un e-CF bien formado, el e-NCF no corresponde al TipoeCF,
+ *            el tipo no se envía al receptor (32, 41, 43, 45, 46, 47) o no cumple su XSD
+ *          - `rncComprador` (4): el RNCComprador no es RNC_RECEPTOR, `rncReceptor` ni un RNC de un tenant
+ *          - `signature` (2): firma o digest inválidos, o certificado del firmante no vigente en
+ *            FechaHoraFirma, no emitido por una CA de confianza o que no corresponde al RNCEmisor
+ *          - `duplicate` (3): el mismo e-NCF del mismo emisor ya se acusó como recibido
+ *       3. El sistema genera el ARECF con Estado "0" (Recibido) o "1" (No Recibido)
+ *       4. El ARECF se firma con el certificado del receptor (el del tenant dueño del RNCComprador)
+ *       5. Se responde con el XML del ARECF firmado (Content-Type: application/xml)
  *
  *       **Soporta múltiples formatos de entrada:**
  *       - `multipart/form-data`: Estándar DGII con el XML como archivo adjunto
@@ -964,7 +1709,9 @@ router.get('/qr/generate', invoiceController.generateQR);
  *           type: string
  *           enum: ["true", "false"]
  *           default: "true"
- *         description: Si el ECF es aceptado o rechazado
+ *         description: |
+ *           Con "false" se rechaza con `rejectCode` sin aplicar las reglas de recepción.
+ *           Con "true" (por defecto) las reglas deciden.
  *       - in: query
  *         name: rejectCode
  *         schema:
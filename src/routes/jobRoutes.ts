@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import * as jobController from '../controllers/jobController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     summary: Listar trabajos en cola
+ *     description: Lista los trabajos de la cola de envíos asíncronos
+ *     tags: [Trabajos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, processing, completed, failed]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         example: "invoice.submit"
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *         description: Referencia del trabajo (e-NCF para envíos de facturas)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Trabajos encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.get('/', jobController.listJobs);
+
+/**
+ * @swagger
+ * /api/jobs/{id}:
+ *   get:
+ *     summary: Estado de un trabajo
+ *     description: |
+ *       Consulta el progreso de un envío asíncrono (`POST /api/invoice/send?async=true`).
+ *       Estados: `queued`, `processing`, `completed`, `failed`. Al completarse, `result` contiene el trackId de DGII.
+ *     tags: [Trabajos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Estado del trabajo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       example: "invoice.submit"
+ *                     status:
+ *                       type: string
+ *                       example: "completed"
+ *                     attempts:
+ *                       type: integer
+ *                       example: 1
+ *                     maxAttempts:
+ *                       type: integer
+ *                       example: 8
+ *                     runAt:
+ *                       type: string
+ *                       description: Próximo intento programado
+ *                     lastError:
+ *                       type: string
+ *                     result:
+ *                       type: object
+ *       404:
+ *         description: Trabajo no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', jobController.getJob);
+
+/**
+ * @swagger
+ * /api/jobs/{id}/retry:
+ *   post:
+ *     summary: Reintentar trabajo fallido
+ *     description: Vuelve a encolar un trabajo en estado `failed` con un nuevo ciclo de intentos
+ *     tags: [Trabajos]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Trabajo encolado nuevamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       409:
+ *         description: El trabajo no está en estado failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/retry', jobController.retryJob);
+
+export default router;
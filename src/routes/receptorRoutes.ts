@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import * as receptorController from '../controllers/receptorController';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+// El receptor Emisor-Receptor es uno solo para la instancia: se administra con la API key maestra
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * /api/receptor/tokens:
+ *   get:
+ *     summary: Tokens Emisor-Receptor
+ *     description: |
+ *       Tokens entregados por `/fe/autenticacion/api/validacioncertificado`, los más recientes primero.
+ *       Los endpoints de recepción (`/fe/recepcion/api/ecf` y `/fe/aprobacioncomercial/api/ecf`) exigen
+ *       uno vigente y no revocado en `Authorization: Bearer <token>` (RECEPTOR_AUTH_ENABLED).
+ *       Solo se guarda el hash del token; se muestra su prefijo.
+ *     tags: [Receptor]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Solo los tokens vigentes y no revocados
+ *     responses:
+ *       200:
+ *         description: Tokens emitidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       prefix:
+ *                         type: string
+ *                         example: "eyJhbGciOiJS"
+ *                       issuedAt:
+ *                         type: string
+ *                       expiresAt:
+ *                         type: string
+ *                       lastUsedAt:
+ *                         type: string
+ *                       revokedAt:
+ *                         type: string
+ *                       active:
+ *                         type: boolean
+ *       403:
+ *         description: Requiere la API key maestra
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/tokens', receptorController.listTokens);
+
+/**
+ * @swagger
+ * /api/receptor/tokens:
+ *   delete:
+ *     summary: Revocar todos los tokens Emisor-Receptor
+ *     description: Revoca todos los tokens vigentes; los emisores deben autenticarse de nuevo con la semilla.
+ *     tags: [Receptor]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Cantidad de tokens revocados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: integer
+ *                       example: 3
+ */
+router.delete('/tokens', receptorController.revokeAllTokens);
+
+/**
+ * @swagger
+ * /api/receptor/tokens/{id}:
+ *   delete:
+ *     summary: Revocar token Emisor-Receptor
+ *     tags: [Receptor]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Token revocado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Token no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/tokens/:id', receptorController.revokeToken);
+
+/**
+ * @swagger
+ * /api/receptor/seeds/stats:
+ *   get:
+ *     summary: Estadísticas de semillas Emisor-Receptor
+ *     description: |
+ *       Semillas emitidas por `/fe/autenticacion/api/semilla`, validadas y rechazadas en
+ *       `/fe/autenticacion/api/validacioncertificado` desde el inicio del servicio, por motivo:
+ *       `unknown` (no emitida por este receptor), `expired` (venció RECEPTOR_SEED_TTL_MS),
+ *       `reused` (ya se usó para obtener un token) e `invalidSignature`.
+ *       `pending` son las semillas vigentes aún sin validar.
+ *     tags: [Receptor]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Contadores de semillas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     since:
+ *                       type: string
+ *                     issued:
+ *                       type: integer
+ *                     validated:
+ *                       type: integer
+ *                     rejected:
+ *                       type: object
+ *                       properties:
+ *                         unknown:
+ *                           type: integer
+ *                         expired:
+ *                           type: integer
+ *                         reused:
+ *                           type: integer
+ *                         invalidSignature:
+ *                           type: integer
+ *                     pending:
+ *                       type: integer
+ */
+router.get('/seeds/stats', receptorController.getSeedStats);
+
+export default router;
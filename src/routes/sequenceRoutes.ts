@@ -0,0 +1,298 @@
+import { Router } from 'express';
+import * as sequenceController from '../controllers/sequenceController';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/sequences:
+ *   post:
+ *     summary: Registrar rango de e-NCF
+ *     description: Registra un rango de secuencias autorizado por DGII para un RNC, ambiente y TipoeCF
+ *     tags: [Secuencias]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rnc
+ *               - tipoeCF
+ *               - startNumber
+ *               - endNumber
+ *               - expiresAt
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 example: "130862346"
+ *               tipoeCF:
+ *                 type: string
+ *                 enum: ["31", "32", "33", "34", "41", "43", "44", "45", "46", "47"]
+ *                 example: "31"
+ *               startNumber:
+ *                 type: integer
+ *                 description: Primer secuencial autorizado
+ *                 example: 1
+ *               endNumber:
+ *                 type: integer
+ *                 description: Último secuencial autorizado
+ *                 example: 1000
+ *               expiresAt:
+ *                 type: string
+ *                 description: Fecha de vencimiento de la secuencia (dd-MM-yyyy o yyyy-MM-dd)
+ *                 example: "31-12-2026"
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *                 description: Ambiente de DGII del rango; por defecto DGII_ENVIRONMENT o el del tenant
+ *     responses:
+ *       201:
+ *         description: Rango registrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El rango se solapa con uno existente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   get:
+ *     summary: Listar rangos de e-NCF
+ *     description: Lista los rangos registrados con la cantidad disponible y advertencias de agotamiento o vencimiento
+ *     tags: [Secuencias]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: rnc
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tipoeCF
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: environment
+ *         schema:
+ *           type: string
+ *           enum: [test, cert, prod]
+ *     responses:
+ *       200:
+ *         description: Rangos registrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.post('/', validateRequest(schemas.registerSequenceRange), sequenceController.registerRange);
+router.get('/', sequenceController.listRanges);
+
+/**
+ * @swagger
+ * /api/sequences/next:
+ *   post:
+ *     summary: Asignar siguiente e-NCF
+ *     description: |
+ *       Reserva de forma atómica el siguiente e-NCF disponible para el RNC, ambiente y TipoeCF.
+ *       Dos peticiones concurrentes nunca reciben el mismo número.
+ *       Incluye advertencias cuando el rango está por agotarse o vencer.
+ *     tags: [Secuencias]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rnc
+ *               - tipoeCF
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 example: "130862346"
+ *               tipoeCF:
+ *                 type: string
+ *                 example: "31"
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *                 description: Ambiente de DGII de los rangos; por defecto DGII_ENVIRONMENT o el del tenant
+ *     responses:
+ *       200:
+ *         description: e-NCF asignado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     encf:
+ *                       type: string
+ *                       example: "E310000000001"
+ *                     fechaVencimientoSecuencia:
+ *                       type: string
+ *                       example: "31-12-2026"
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       409:
+ *         description: No hay rangos disponibles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/next', validateRequest(schemas.allocateSequence), sequenceController.allocateNext);
+
+/**
+ * @swagger
+ * /api/sequences/void:
+ *   post:
+ *     summary: Anular e-NCF
+ *     description: |
+ *       Anula ante DGII e-NCF no utilizados de un rango registrado, indicados como lista o como
+ *       rango (desde/hasta, inclusive) del mismo TipoeCF. Genera el ANECF agrupando los números
+ *       consecutivos en tramos de TablaRangoSecuenciasAnuladaseNCF, con el total en
+ *       CantidadeNCFAnulados, y el nombre de archivo (RNC + fecha y hora de anulación).
+ *
+ *       Los números quedan anulados en el inventario y nunca se asignan. Solo se pueden anular
+ *       e-NCF nunca asignados o asignados sin enviar; si DGII no recibe el ANECF vuelven a estar disponibles.
+ *     tags: [Secuencias]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rnc
+ *               - tipoeCF
+ *             properties:
+ *               rnc:
+ *                 type: string
+ *                 example: "130862346"
+ *               tipoeCF:
+ *                 type: string
+ *                 example: "31"
+ *               encfs:
+ *                 type: array
+ *                 description: e-NCF a anular (excluyente con range)
+ *                 maxItems: 10000
+ *                 items:
+ *                   type: string
+ *                 example: ["E310000000010", "E310000000011", "E310000000015"]
+ *               range:
+ *                 type: object
+ *                 description: Rango de e-NCF a anular (excluyente con encfs)
+ *                 properties:
+ *                   from:
+ *                     type: string
+ *                     example: "E310000000100"
+ *                   to:
+ *                     type: string
+ *                     example: "E310000000199"
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *     responses:
+ *       200:
+ *         description: ANECF enviado a DGII
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fileName:
+ *                       type: string
+ *                       example: "13086234618102026143005.xml"
+ *                     cantidadeNCFAnulados:
+ *                       type: integer
+ *                       example: 3
+ *                     secuencias:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           SecuenciaeNCFDesde:
+ *                             type: string
+ *                             example: "E310000000010"
+ *                           SecuenciaeNCFHasta:
+ *                             type: string
+ *                             example: "E310000000011"
+ *                     documentId:
+ *                       type: string
+ *       400:
+ *         description: e-NCF inválido o fuera de los rangos registrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Algún e-NCF ya fue utilizado o anulado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/void', validateRequest(schemas.voidSequence), sequenceController.voidSequence);
+
+/**
+ * @swagger
+ * /api/sequences/{id}/disable:
+ *   post:
+ *     summary: Deshabilitar rango
+ *     description: Deshabilita un rango para que no se asignen más números de él
+ *     tags: [Secuencias]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rango deshabilitado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Rango no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/disable', sequenceController.disableRange);
+
+export default router;
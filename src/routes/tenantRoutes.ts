@@ -0,0 +1,360 @@
+import { Router } from 'express';
+import * as tenantController from '../controllers/tenantController';
+import { requireAdmin } from '../middleware/auth';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/tenants/me:
+ *   get:
+ *     summary: Tenant actual
+ *     description: Tenant dueño de la API key usada (RNC permitidos, ambiente y si tiene certificado)
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tenant de la API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: La API key maestra no pertenece a un tenant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/me', tenantController.getCurrentTenant);
+
+// El resto de las rutas administra los tenants y requiere la API key maestra
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * /api/tenants:
+ *   post:
+ *     summary: Crear tenant
+ *     description: |
+ *       Registra una empresa con sus RNC, certificado, ambiente DGII por defecto y estado.
+ *       Cada RNC pertenece a un solo tenant; las API keys del tenant solo pueden operar con sus RNC
+ *       y firmar con su certificado. El certificado y la contraseña se guardan cifrados (ENCRYPTION_KEY)
+ *       y nunca se retornan. Requiere la API key maestra.
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - rncs
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "EMPRESA SRL"
+ *               rncs:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["130862346"]
+ *               environment:
+ *                 type: string
+ *                 enum: [test, cert, prod]
+ *                 description: Ambiente DGII de las peticiones del tenant; una petición que indique otro responde 403
+ *               certificateBase64:
+ *                 type: string
+ *                 description: Certificado .p12 en Base64. Si no se envía, se usa certificates/{rnc}.p12
+ *               certificatePassword:
+ *                 type: string
+ *               receptorRules:
+ *                 type: object
+ *                 description: |
+ *                   Reglas de recepción de e-CF para los RNC del tenant (true activa, false desactiva).
+ *                   Las omitidas usan la configuración global (RECEPTOR_DISABLED_RULES).
+ *                 properties:
+ *                   specification:
+ *                     type: boolean
+ *                   rncComprador:
+ *                     type: boolean
+ *                   signature:
+ *                     type: boolean
+ *                   duplicate:
+ *                     type: boolean
+ *                 example: { "duplicate": false }
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Tenant creado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Requiere la API key maestra
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Un RNC ya pertenece a otro tenant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: |
+ *           Certificado inválido para los RNC del tenant. `details` lista cada verificación fallida
+ *           (`{ check, rnc?, message }`), igual que en POST /api/certificate.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', validateRequest(schemas.createTenant), tenantController.createTenant);
+
+/**
+ * @swagger
+ * /api/tenants:
+ *   get:
+ *     summary: Listar tenants
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tenants registrados (sin certificado ni contraseña)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.get('/', tenantController.listTenants);
+
+/**
+ * @swagger
+ * /api/tenants/{id}:
+ *   get:
+ *     summary: Obtener tenant
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tenant encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Tenant no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', tenantController.getTenant);
+
+/**
+ * @swagger
+ * /api/tenants/{id}:
+ *   patch:
+ *     summary: Actualizar tenant
+ *     description: |
+ *       Acepta los mismos campos que la creación. `rncs` reemplaza la lista completa.
+ *       Para cambiar solo la contraseña del certificado basta con enviar `certificatePassword`.
+ *       `receptorRules` reemplaza los cambios de reglas de recepción; `null` vuelve a la configuración global.
+ *       Si cambia el certificado, la contraseña o los RNC, el certificado se verifica de nuevo (422 si falla).
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Tenant actualizado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Tenant no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', validateRequest(schemas.updateTenant), tenantController.updateTenant);
+
+/**
+ * @swagger
+ * /api/tenants/{id}:
+ *   delete:
+ *     summary: Eliminar tenant
+ *     description: Elimina el tenant con sus RNC, API keys y suscripciones de webhook. Los documentos se conservan.
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tenant eliminado
+ *       404:
+ *         description: Tenant no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', tenantController.deleteTenant);
+
+/**
+ * @swagger
+ * /api/tenants/{id}/api-keys:
+ *   post:
+ *     summary: Crear API key del tenant
+ *     description: La key en claro solo se retorna en esta respuesta; se guarda únicamente su hash SHA-256.
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 example: "ERP producción"
+ *     responses:
+ *       201:
+ *         description: API key creada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     apiKey:
+ *                       type: string
+ *                       example: "ecf_3q2-7wEV..."
+ *                     prefix:
+ *                       type: string
+ *                       example: "ecf_3q2-7wEV"
+ *       404:
+ *         description: Tenant no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/api-keys', validateRequest(schemas.createTenantApiKey), tenantController.createApiKey);
+
+/**
+ * @swagger
+ * /api/tenants/{id}/api-keys:
+ *   get:
+ *     summary: Listar API keys del tenant
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API keys (prefijo, último uso y revocación; nunca la key completa)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.get('/:id/api-keys', tenantController.listApiKeys);
+
+/**
+ * @swagger
+ * /api/tenants/{id}/api-keys/{keyId}:
+ *   delete:
+ *     summary: Revocar API key del tenant
+ *     tags: [Tenants]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revocada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: API key no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id/api-keys/:keyId', tenantController.revokeApiKey);
+
+export default router;
@@ -0,0 +1,277 @@
+import { Router } from 'express';
+import * as webhookController from '../controllers/webhookController';
+import { validateRequest, schemas } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Crear suscripción de webhook
+ *     description: |
+ *       Registra una URL para recibir notificaciones de eventos. Cada entrega incluye los encabezados
+ *       `X-Webhook-Id`, `X-Webhook-Event`, `X-Webhook-Timestamp` y `X-Webhook-Signature`
+ *       (`sha256=` + HMAC-SHA256 de `{timestamp}.{body}` con el secreto de la suscripción).
+ *
+ *       El secreto solo se retorna en esta respuesta. Si no se envía, se genera uno aleatorio.
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: "https://erp.example.com/dgii/webhook"
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [document.status_changed, ecf.received, acecf.received, approval.reminder, approval.expired, certificate.expiring, contingency.started, contingency.ended]
+ *               secret:
+ *                 type: string
+ *                 description: Secreto para la firma HMAC (mínimo 16 caracteres)
+ *               tenantId:
+ *                 type: string
+ *                 description: Solo recibir eventos de los RNC del tenant (API key maestra; con la key de un tenant se asigna automáticamente)
+ *               rnc:
+ *                 type: string
+ *                 description: Solo recibir eventos de este RNC
+ *               headers:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Encabezados adicionales a enviar (p.ej. x-api-key)
+ *               payloadFormat:
+ *                 type: string
+ *                 enum: [event, data]
+ *                 default: event
+ *                 description: "`event` envía { id, event, createdAt, data }; `data` envía solo el contenido de data"
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Suscripción creada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Datos inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', validateRequest(schemas.createWebhook), webhookController.createSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: Listar suscripciones de webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: rnc
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suscripciones registradas (sin el secreto)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ */
+router.get('/', webhookController.listSubscriptions);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   get:
+ *     summary: Obtener suscripción de webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suscripción encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Suscripción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', webhookController.getSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   patch:
+ *     summary: Actualizar suscripción de webhook
+ *     description: Acepta los mismos campos que la creación. Enviar `secret` para rotarlo.
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Suscripción actualizada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Suscripción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', validateRequest(schemas.updateWebhook), webhookController.updateSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: Eliminar suscripción de webhook
+ *     description: Elimina la suscripción junto con su historial de entregas
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suscripción eliminada
+ *       404:
+ *         description: Suscripción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', webhookController.deleteSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Historial de entregas
+ *     description: Entregas de la suscripción con el payload, intentos, código HTTP y respuesta del receptor
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivered, failed]
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Entregas encontradas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Suscripción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/deliveries', webhookController.listDeliveries);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: Reenviar entrega
+ *     description: Vuelve a encolar la entrega con el mismo payload (p.ej. una entrega fallida)
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Entrega encolada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Entrega no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/deliveries/:deliveryId/replay', webhookController.replayDelivery);
+
+export default router;
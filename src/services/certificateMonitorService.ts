@@ -0,0 +1,160 @@
+import config from '../config/environment';
+import database from '../database';
+import logger from '../utils/logger';
+import certificateService from './certificateService';
+import webhookService from './webhookService';
+import { CertificateExpiry, CertificateHealth, MonitoredCertificate } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Revisa periódicamente el vencimiento de los certificados en uso (subidos, de tenants y de archivo).
+ *
+ * Al alcanzar cada umbral (por defecto 60, 30, 7 y 1 días antes) y al vencer, alerta una sola vez
+ * por certificado: se registra en el log y se emite el webhook certificate.expiring. El resultado
+ * del último chequeo se resume en /health.
+ */
+export class CertificateMonitorService {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private lastCheck?: { checkedAt: string; certificates: CertificateExpiry[] };
+
+  start(): void {
+    if (this.timer || !config.certificateCheckEnabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.checkCertificates(), config.certificateCheckIntervalMs);
+    this.timer.unref();
+    logger.info(`Certificate expiry monitor started (interval: ${config.certificateCheckIntervalMs}ms)`);
+    this.checkCertificates();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Certificate expiry monitor stopped');
+    }
+  }
+
+  async checkCertificates(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const certificates = await this.listExpiring();
+      this.lastCheck = { checkedAt: new Date().toISOString(), certificates };
+
+      for (const certificate of certificates) {
+        await this.alert(certificate);
+      }
+    } catch (error: any) {
+      logger.error(`Certificate expiry monitor error: ${error.message}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Certificados que vencen dentro de los días indicados (por defecto el mayor umbral de alerta)
+   * o que ya vencieron, ordenados por fecha de vencimiento
+   */
+  async listExpiring(days: number = Math.max(0, ...config.certificateExpiryWarningDays)): Promise<CertificateExpiry[]> {
+    const certificates = await certificateService.listMonitoredCertificates();
+
+    return certificates
+      .map((certificate) => this.toExpiry(certificate))
+      .filter((certificate) => certificate.daysRemaining <= days)
+      .sort((a, b) => a.validTo.localeCompare(b.validTo));
+  }
+
+  /**
+   * Resumen del último chequeo para /health; no incluye sujetos ni RNC porque /health es público
+   */
+  getHealth(): CertificateHealth {
+    if (!this.lastCheck) {
+      return { status: 'ok', expiring: 0, expired: 0 };
+    }
+
+    const alerted = this.lastCheck.certificates.filter((certificate) => certificate.threshold !== undefined);
+    const expired = alerted.filter((certificate) => certificate.expired).length;
+    const pending = alerted.filter((certificate) => !certificate.expired);
+
+    return {
+      status: expired ? 'expired' : pending.length ? 'expiring' : 'ok',
+      checkedAt: this.lastCheck.checkedAt,
+      expiring: pending.length,
+      expired,
+      nextExpiry: pending[0]?.validTo,
+    };
+  }
+
+  private toExpiry(certificate: MonitoredCertificate): CertificateExpiry {
+    const daysRemaining = Math.floor((new Date(certificate.validTo).getTime() - Date.now()) / DAY_MS);
+    const expired = new Date(certificate.validTo).getTime() <= Date.now();
+    // Umbrales ordenados de mayor a menor: el último alcanzado es el más cercano al vencimiento
+    const reached = config.certificateExpiryWarningDays.filter((threshold) => daysRemaining <= threshold);
+
+    return {
+      ...certificate,
+      daysRemaining,
+      threshold: expired ? 0 : reached.length ? reached[reached.length - 1] : undefined,
+      expired,
+    };
+  }
+
+  /**
+   * Alerta el umbral alcanzado si no se alertó antes para el mismo certificado
+   */
+  private async alert(certificate: CertificateExpiry): Promise<void> {
+    if (certificate.threshold === undefined) {
+      return;
+    }
+
+    const inserted = await database.execute(
+      `INSERT INTO certificate_expiry_alerts (fingerprint, threshold, valid_to, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (fingerprint, threshold) DO NOTHING`,
+      [certificate.fingerprint, certificate.threshold, certificate.validTo, new Date().toISOString()]
+    );
+    if (!inserted) {
+      return;
+    }
+
+    const target = certificate.rncs.length ? `RNC ${certificate.rncs.join(', ')}` : 'default certificate';
+    if (certificate.expired) {
+      logger.error(`Certificate expired - ${target}, Subject: ${certificate.subject}, Valid to: ${certificate.validTo}`);
+    } else {
+      logger.warn(
+        `Certificate expires in ${certificate.daysRemaining} day(s) - ${target}, ` +
+          `Subject: ${certificate.subject}, Valid to: ${certificate.validTo}`
+      );
+    }
+
+    const data = {
+      origin: certificate.origin,
+      rncs: certificate.rncs,
+      subject: certificate.subject,
+      issuer: certificate.issuer,
+      serialNumber: certificate.serialNumber,
+      fingerprint: certificate.fingerprint,
+      validTo: certificate.validTo,
+      daysRemaining: certificate.daysRemaining,
+      threshold: certificate.threshold,
+      expired: certificate.expired,
+    };
+
+    // Un evento por RNC para que llegue a las suscripciones de cada tenant; sin RNC, solo a las globales
+    if (!certificate.rncs.length) {
+      await webhookService.emit('certificate.expiring', data);
+    }
+    for (const rnc of certificate.rncs) {
+      await webhookService.emit('certificate.expiring', { ...data, rnc }, rnc);
+    }
+  }
+}
+
+export default new CertificateMonitorService();
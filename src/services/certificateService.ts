@@ -1,57 +1,105 @@
 import { P12Reader } from 'dgii-ecf';
 import config from '../config/environment';
+import database from '../database';
 import logger from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { decryptSecret, encryptSecret } from '../utils/crypto';
+import certificateValidationService from './certificateValidationService';
+import tenantService from './tenantService';
 import fs from 'fs';
 import path from 'path';
-import { X509Certificate } from 'crypto';
+import { randomUUID, X509Certificate } from 'crypto';
+import {
+  CertificateOrigin,
+  MonitoredCertificate,
+  StoredCertificate,
+  UploadCertificateRequest,
+} from '../types';
+
+/**
+ * Origen del certificado de un RNC, en orden de prioridad: subido con POST /api/certificate,
+ * del tenant dueño del RNC, o archivo (CERTIFICATE_BASE64 / {rnc}.p12 / certificado por defecto)
+ */
+interface CertificateSource {
+  version?: string; // Identifica el certificado cargado; si cambia se descarta el de la caché
+  description: string;
+  load: () => any;
+}
+
+const toStoredCertificate = (row: any): StoredCertificate => ({
+  id: row.id,
+  rnc: row.rnc,
+  status: row.status,
+  subject: row.subject,
+  issuer: row.issuer,
+  serialNumber: row.serial_number,
+  fingerprint: row.fingerprint,
+  validFrom: row.valid_from,
+  validTo: row.valid_to,
+  createdAt: row.created_at,
+  activatedAt: row.activated_at,
+});
+
+const toMonitoredCertificate = (origin: CertificateOrigin, rncs: string[], pem: string): MonitoredCertificate => {
+  const x509 = new X509Certificate(pem);
+  return {
+    origin,
+    rncs,
+    subject: x509.subject,
+    issuer: x509.issuer,
+    serialNumber: x509.serialNumber,
+    fingerprint: x509.fingerprint256,
+    validTo: new Date(x509.validTo).toISOString(),
+  };
+};
 
 export class CertificateService {
   private certificates: Map<string, any> = new Map();
+  // Versión con la que se cargó cada certificado en caché
+  private versions: Map<string, string | undefined> = new Map();
+
+  /**
+   * Certificado para firmar en nombre del RNC. La versión se verifica en cada llamada,
+   * así un certificado subido o revertido se usa de inmediato sin reiniciar el servicio.
+   * Al cargarlo se verifica (vigencia, RNC del sujeto, cadena y uso de llave); si falla
+   * responde 422 con los errores en lugar de firmar un documento que DGII rechazaría.
+   */
+  async getCertificate(rnc?: string): Promise<any> {
+    const cacheKey = rnc || 'default';
+    let source: CertificateSource;
+    let certs: any;
 
-  getCertificate(rnc?: string): any {
     try {
-      const cacheKey = rnc || 'default';
+      source = await this.resolveSource(rnc);
 
-      if (this.certificates.has(cacheKey)) {
+      if (this.certificates.has(cacheKey) && this.versions.get(cacheKey) === source.version) {
         logger.debug(`Using cached certificate for ${cacheKey}`);
         return this.certificates.get(cacheKey);
       }
 
-      const reader = new P12Reader(config.certificatePassword);
-      let certs: any;
-
-      // Si hay certificado en Base64, usarlo primero (para cloud deployments)
-      if (config.certificateBase64 && !rnc) {
-        logger.info('Loading certificate from Base64');
-        certs = reader.getKeyFromStringBase64(config.certificateBase64);
-      } else {
-        // Cargar desde archivo
-        const certificatePath = rnc
-          ? path.join(path.dirname(config.certificatePath), `${rnc}.p12`)
-          : config.certificatePath;
-
-        if (!fs.existsSync(certificatePath)) {
-          throw new AppError(`Certificate not found for RNC: ${rnc || 'default'}`, 404);
-        }
-
-        logger.info(`Loading certificate from ${certificatePath}`);
-        certs = reader.getKeyFromFile(certificatePath);
-      }
-
-      this.certificates.set(cacheKey, certs);
-      logger.info(`Certificate loaded successfully for ${cacheKey}`);
-
-      return certs;
+      logger.info(`Loading certificate for ${cacheKey} from ${source.description}`);
+      certs = source.load();
     } catch (error: any) {
       logger.error('Error loading certificate:', error);
       throw new AppError(`Error loading certificate: ${error.message}`, 500);
     }
+
+    const errors = certificateValidationService.verify(certs, rnc ? [rnc] : []);
+    if (errors.length) {
+      logger.error(`Certificate for ${cacheKey} failed verification: ${errors.map((error) => error.message).join('; ')}`);
+      throw new AppError(`Certificate for ${cacheKey} failed verification: ${errors.length} error(s)`, 422, errors);
+    }
+
+    this.certificates.set(cacheKey, certs);
+    this.versions.set(cacheKey, source.version);
+    logger.info(`Certificate loaded successfully for ${cacheKey}`);
+
+    return certs;
   }
 
-  getCertificateInfo(rnc?: string): any {
+  async getCertificateInfo(rnc?: string): Promise<any> {
     try {
-      const certs = this.getCertificate(rnc);
+      const certs = await this.getCertificate(rnc);
 
       // certs.cert es un string PEM, necesitamos parsearlo con X509Certificate
       const x509 = new X509Certificate(certs.cert);
@@ -65,18 +113,229 @@ export class CertificateService {
         fingerprint: x509.fingerprint256,
       };
     } catch (error: any) {
+      if (error instanceof AppError && error.statusCode === 422) {
+        throw error;
+      }
       throw new AppError(`Error getting certificate info: ${error.message}`, 500);
     }
   }
 
+  /**
+   * Sube un nuevo certificado para el RNC y lo activa. El activo pasa a ser el anterior
+   * (disponible para rollback) y el anterior previo se elimina. El cambio ocurre en una
+   * transacción: las peticiones en curso usan el certificado anterior o el nuevo, nunca ninguno.
+   */
+  async uploadCertificate(data: UploadCertificateRequest): Promise<StoredCertificate> {
+    const { errors, x509 } = certificateValidationService.validateP12(data.certificateBase64, data.password, [data.rnc]);
+    if (errors.length || !x509) {
+      throw new AppError(`Invalid certificate for RNC ${data.rnc}: ${errors.length} error(s)`, 422, errors);
+    }
+
+    const now = new Date().toISOString();
+    const id = randomUUID();
+
+    await database.transaction(async (tx) => {
+      await tx.execute("DELETE FROM certificates WHERE rnc = ? AND status = 'previous'", [data.rnc]);
+      await tx.execute("UPDATE certificates SET status = 'previous' WHERE rnc = ? AND status = 'active'", [data.rnc]);
+      await tx.execute(
+        `INSERT INTO certificates
+           (id, rnc, status, certificate, password, subject, issuer, serial_number, fingerprint, valid_from, valid_to,
+            created_at, activated_at)
+         VALUES (?, ?, 'active', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          data.rnc,
+          encryptSecret(data.certificateBase64),
+          encryptSecret(data.password),
+          x509.subject,
+          x509.issuer,
+          x509.serialNumber,
+          x509.fingerprint256,
+          new Date(x509.validFrom).toISOString(),
+          new Date(x509.validTo).toISOString(),
+          now,
+          now,
+        ]
+      );
+    });
+
+    this.clearCache(data.rnc);
+    logger.info(`Certificate uploaded and activated - RNC: ${data.rnc}, ID: ${id}, Valid to: ${x509.validTo}`);
+
+    return this.getStoredCertificate(id);
+  }
+
+  /**
+   * Vuelve a activar el certificado anterior del RNC; el activo pasa a ser el anterior
+   */
+  async rollbackCertificate(rnc: string): Promise<StoredCertificate> {
+    const previous = await database.queryOne(
+      "SELECT * FROM certificates WHERE rnc = ? AND status = 'previous'",
+      [rnc]
+    );
+    if (!previous) {
+      throw new AppError(`No previous certificate to roll back to for RNC ${rnc}`, 404);
+    }
+    if (new Date(previous.valid_to).getTime() <= Date.now()) {
+      throw new AppError(`The previous certificate for RNC ${rnc} expired on ${previous.valid_to}`, 409);
+    }
+
+    await database.transaction(async (tx) => {
+      await tx.execute("UPDATE certificates SET status = 'previous' WHERE rnc = ? AND status = 'active'", [rnc]);
+      await tx.execute("UPDATE certificates SET status = 'active', activated_at = ? WHERE id = ?", [
+        new Date().toISOString(),
+        previous.id,
+      ]);
+    });
+
+    this.clearCache(rnc);
+    logger.info(`Certificate rolled back - RNC: ${rnc}, ID: ${previous.id}`);
+
+    return this.getStoredCertificate(previous.id);
+  }
+
+  /**
+   * Certificados subidos (activo y anterior), sin el P12 ni la contraseña
+   */
+  async listStoredCertificates(rnc?: string): Promise<StoredCertificate[]> {
+    const rows = rnc
+      ? await database.query('SELECT * FROM certificates WHERE rnc = ? ORDER BY rnc, activated_at DESC', [rnc])
+      : await database.query('SELECT * FROM certificates ORDER BY rnc, activated_at DESC');
+
+    return rows.map(toStoredCertificate);
+  }
+
+  /**
+   * Certificados en uso, sin repetir: los subidos activos, los de tenants (para los RNC sin
+   * certificado subido) y los cargados desde archivo. El certificado por defecto se carga si está configurado.
+   */
+  async listMonitoredCertificates(): Promise<MonitoredCertificate[]> {
+    const certificates = new Map<string, MonitoredCertificate>();
+    const add = (certificate: MonitoredCertificate) => {
+      const existing = certificates.get(certificate.fingerprint);
+      if (existing) {
+        existing.rncs = [...new Set([...existing.rncs, ...certificate.rncs])];
+      } else {
+        certificates.set(certificate.fingerprint, certificate);
+      }
+    };
+
+    const stored = await database.query("SELECT * FROM certificates WHERE status = 'active' ORDER BY rnc");
+    const coveredRncs = new Set<string>(stored.map((row) => row.rnc));
+    for (const row of stored) {
+      add({
+        origin: 'stored',
+        rncs: [row.rnc],
+        subject: row.subject,
+        issuer: row.issuer,
+        serialNumber: row.serial_number,
+        fingerprint: row.fingerprint,
+        validTo: row.valid_to,
+      });
+    }
+
+    for (const tenantCertificate of await tenantService.listCertificates()) {
+      const rncs = tenantCertificate.rncs.filter((rnc) => !coveredRncs.has(rnc));
+      if (!rncs.length) {
+        continue;
+      }
+      rncs.forEach((rnc) => coveredRncs.add(rnc));
+      try {
+        const certs = new P12Reader(tenantCertificate.password).getKeyFromStringBase64(tenantCertificate.certificateBase64);
+        add(toMonitoredCertificate('tenant', rncs, certs.cert!));
+      } catch (error: any) {
+        logger.warn(`Could not read certificate of tenant ${tenantCertificate.tenantId}: ${error.message}`);
+      }
+    }
+
+    // El certificado por defecto se lee sin verificarlo: uno vencido también debe reportarse
+    if (!this.certificates.has('default') && (config.certificateBase64 || fs.existsSync(config.certificatePath))) {
+      try {
+        add(toMonitoredCertificate('file', [], (await this.resolveSource()).load().cert));
+      } catch (error: any) {
+        logger.warn(`Could not read default certificate: ${error.message}`);
+      }
+    }
+    // Los cargados con versión provienen de la base de datos y ya se incluyeron arriba
+    for (const [cacheKey, certs] of this.certificates) {
+      if (this.versions.get(cacheKey) !== undefined || coveredRncs.has(cacheKey)) {
+        continue;
+      }
+      add(toMonitoredCertificate('file', cacheKey === 'default' ? [] : [cacheKey], certs.cert));
+    }
+
+    return [...certificates.values()];
+  }
+
   clearCache(rnc?: string): void {
     if (rnc) {
       this.certificates.delete(rnc);
+      this.versions.delete(rnc);
     } else {
       this.certificates.clear();
+      this.versions.clear();
+      certificateValidationService.reloadTrustAnchors();
     }
     logger.info('Certificate cache cleared');
   }
+
+  private async getStoredCertificate(id: string): Promise<StoredCertificate> {
+    const row = await database.queryOne('SELECT * FROM certificates WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Certificate not found: ${id}`, 404);
+    }
+    return toStoredCertificate(row);
+  }
+
+  private async resolveSource(rnc?: string): Promise<CertificateSource> {
+    if (rnc) {
+      const stored = await database.queryOne(
+        "SELECT id, certificate, password FROM certificates WHERE rnc = ? AND status = 'active'",
+        [rnc]
+      );
+      if (stored) {
+        return {
+          version: `stored:${stored.id}`,
+          description: `uploaded certificate ${stored.id}`,
+          load: () =>
+            new P12Reader(decryptSecret(stored.password).toString()).getKeyFromStringBase64(
+              decryptSecret(stored.certificate).toString()
+            ),
+        };
+      }
+
+      const tenantCertificate = await tenantService.getCertificate(rnc);
+      if (tenantCertificate) {
+        return {
+          version: `tenant:${tenantCertificate.tenantId}:${tenantCertificate.version}`,
+          description: `tenant ${tenantCertificate.tenantId}`,
+          load: () => new P12Reader(tenantCertificate.password).getKeyFromStringBase64(tenantCertificate.certificateBase64),
+        };
+      }
+    }
+
+    // Si hay certificado en Base64, usarlo primero (para cloud deployments)
+    if (config.certificateBase64 && !rnc) {
+      return {
+        description: 'Base64',
+        load: () => new P12Reader(config.certificatePassword).getKeyFromStringBase64(config.certificateBase64),
+      };
+    }
+
+    // Cargar desde archivo
+    const certificatePath = rnc
+      ? path.join(path.dirname(config.certificatePath), `${rnc}.p12`)
+      : config.certificatePath;
+
+    if (!fs.existsSync(certificatePath)) {
+      throw new AppError(`Certificate not found for RNC: ${rnc || 'default'}`, 404);
+    }
+
+    return {
+      description: certificatePath,
+      load: () => new P12Reader(config.certificatePassword).getKeyFromFile(certificatePath),
+    };
+  }
 }
 
 export default new CertificateService();
@@ -0,0 +1,210 @@
+import { P12Reader, validateXMLCertificate } from 'dgii-ecf';
+import { X509Certificate, createPrivateKey } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { getKeyUsage, getSubjectIds } from '../utils/x509';
+import { CertificateValidationError } from '../types';
+
+const TRUST_ANCHOR_EXTENSIONS = ['.pem', '.crt', '.cer'];
+const PEM_CERTIFICATE = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+/**
+ * Verifica un certificado antes de usarlo para firmar, para que un tenant mal configurado falle
+ * al registrar o cargar el certificado y no al enviar a DGII:
+ *
+ * - password: el P12 abre con la contraseña y contiene llave privada y certificado
+ * - keyMatch: la llave privada corresponde al certificado
+ * - expired / notYetValid: el certificado está vigente
+ * - subjectRnc: el serialNumber del sujeto contiene el RNC con el que se registra
+ * - chain: fue emitido por una CA de confianza (CERTIFICATE_TRUST_ANCHORS_PATH)
+ * - keyUsage: la llave permite firma digital
+ *
+ * Para los e-CF recibidos se verifica además la firma XMLDSig (signature) y el digest (digest),
+ * y el certificado del firmante contra el RNC emisor en la fecha de la firma.
+ */
+export class CertificateValidationService {
+  private trustAnchors?: X509Certificate[];
+
+  /**
+   * Abre el P12 y lo verifica para cada RNC. Retorna los errores encontrados (vacío si es válido)
+   * y, si se pudo abrir, el certificado.
+   */
+  validateP12(
+    certificateBase64: string,
+    password: string,
+    rncs: string[]
+  ): { errors: CertificateValidationError[]; certs?: any; x509?: X509Certificate } {
+    let certs: any;
+    try {
+      certs = new P12Reader(password).getKeyFromStringBase64(certificateBase64);
+    } catch (error: any) {
+      return { errors: [{ check: 'password', message: `The P12 could not be opened with the password: ${error.message}` }] };
+    }
+    if (!certs.key || !certs.cert) {
+      return { errors: [{ check: 'password', message: 'The P12 must contain a private key and a certificate' }] };
+    }
+
+    return { errors: this.verify(certs, rncs), certs, x509: new X509Certificate(certs.cert) };
+  }
+
+  /**
+   * Verifica un certificado ya cargado ({ key, cert } en PEM). Sin RNC (certificado por defecto)
+   * no se verifica el sujeto.
+   */
+  verify(certs: { key?: string; cert?: string }, rncs: string[]): CertificateValidationError[] {
+    const x509 = new X509Certificate(certs.cert!);
+    const errors: CertificateValidationError[] = [];
+
+    if (!x509.checkPrivateKey(createPrivateKey(certs.key!))) {
+      errors.push({ check: 'keyMatch', message: 'The private key does not match the certificate' });
+    }
+
+    return [...errors, ...this.verifyX509(x509, rncs, new Date())];
+  }
+
+  /**
+   * Verifica la firma XMLDSig de un documento recibido: que la firma y el digest correspondan al contenido
+   * y que el certificado incluido en la firma estuviera vigente al firmar, haya sido emitido por una CA
+   * de confianza, permita firma digital y corresponda al RNC del emisor.
+   */
+  verifySignedXml(
+    xml: string,
+    rnc?: string,
+    signedAt: Date = new Date()
+  ): { errors: CertificateValidationError[]; x509?: X509Certificate } {
+    const result = validateXMLCertificate(xml, { silent: true });
+
+    if (!result.isValid || !result.cert) {
+      // xml-crypto retorna falso cuando el digest de la referencia no coincide (contenido alterado)
+      // y lanza error cuando el valor de la firma no corresponde o no hay firma
+      const altered = result.error === 'Signature validation failed';
+      return {
+        errors: [
+          altered
+            ? { check: 'digest', message: 'The document digest does not match: the content was altered after signing' }
+            : { check: 'signature', message: `Invalid XML signature: ${result.error || 'unknown error'}` },
+        ],
+      };
+    }
+
+    return { errors: this.verifyX509(result.cert, rnc ? [rnc] : [], signedAt), x509: result.cert };
+  }
+
+  /**
+   * Certificados de las CA aceptadas (raíz e intermedias), leídos una vez del directorio configurado.
+   * Cada archivo .pem/.crt/.cer puede contener varios certificados PEM o uno en DER.
+   */
+  getTrustAnchors(): X509Certificate[] {
+    if (this.trustAnchors) {
+      return this.trustAnchors;
+    }
+
+    const anchors: X509Certificate[] = [];
+    const directory = config.certificateTrustAnchorsPath;
+    const files = fs.existsSync(directory)
+      ? fs.readdirSync(directory).filter((file) => TRUST_ANCHOR_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      : [];
+
+    for (const file of files) {
+      try {
+        const content = fs.readFileSync(path.join(directory, file));
+        const pems = content.toString().match(PEM_CERTIFICATE);
+        (pems || [content]).forEach((pem) => anchors.push(new X509Certificate(pem)));
+      } catch (error: any) {
+        logger.error(`Error loading trust anchor ${file}: ${error.message}`);
+      }
+    }
+
+    if (anchors.length) {
+      logger.info(`Loaded ${anchors.length} certificate trust anchor(s) from ${directory}`);
+    } else {
+      logger.warn(`No certificate trust anchors found in ${directory}; the certificate chain is not verified`);
+    }
+
+    this.trustAnchors = anchors;
+    return anchors;
+  }
+
+  /**
+   * Vuelve a leer las anclas de confianza en la siguiente verificación
+   */
+  reloadTrustAnchors(): void {
+    this.trustAnchors = undefined;
+  }
+
+  /**
+   * Vigencia en la fecha indicada, RNC del sujeto, cadena y uso de llave
+   */
+  private verifyX509(x509: X509Certificate, rncs: string[], at: Date): CertificateValidationError[] {
+    const errors: CertificateValidationError[] = [];
+
+    if (new Date(x509.validTo).getTime() <= at.getTime()) {
+      errors.push({ check: 'expired', message: `The certificate expired on ${new Date(x509.validTo).toISOString()}` });
+    }
+    if (new Date(x509.validFrom).getTime() > at.getTime()) {
+      errors.push({
+        check: 'notYetValid',
+        message: `The certificate is not valid until ${new Date(x509.validFrom).toISOString()}`,
+      });
+    }
+
+    const subjectIds = getSubjectIds(x509);
+    for (const rnc of rncs) {
+      if (!subjectIds.includes(rnc)) {
+        errors.push({
+          check: 'subjectRnc',
+          rnc,
+          message: `The certificate subject does not contain RNC ${rnc}: ${x509.subject.replace(/\n/g, ', ')}`,
+        });
+      }
+    }
+
+    const chainError = this.verifyChain(x509);
+    if (chainError) {
+      errors.push(chainError);
+    }
+
+    const keyUsage = getKeyUsage(x509);
+    if (keyUsage && !keyUsage.includes('digitalSignature')) {
+      errors.push({
+        check: 'keyUsage',
+        message: `The certificate key usage does not allow digital signatures: ${keyUsage.join(', ') || 'none'}`,
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * El certificado debe ser un ancla de confianza o estar firmado por una CA vigente del directorio.
+   * Sin anclas configuradas la cadena no se verifica.
+   */
+  private verifyChain(x509: X509Certificate): CertificateValidationError | undefined {
+    const anchors = this.getTrustAnchors();
+    if (!anchors.length || anchors.some((anchor) => anchor.fingerprint256 === x509.fingerprint256)) {
+      return undefined;
+    }
+
+    const issuers = anchors.filter((anchor) => anchor.ca && x509.checkIssued(anchor) && x509.verify(anchor.publicKey));
+    if (!issuers.length) {
+      return {
+        check: 'chain',
+        message: `The certificate was not issued by a trusted CA: ${x509.issuer.replace(/\n/g, ', ')}`,
+      };
+    }
+
+    const now = Date.now();
+    const validIssuer = issuers.some(
+      (issuer) => new Date(issuer.validFrom).getTime() <= now && new Date(issuer.validTo).getTime() > now
+    );
+    if (!validIssuer) {
+      return { check: 'chain', message: `The issuing CA certificate is not currently valid: ${issuers[0].subject}` };
+    }
+
+    return undefined;
+  }
+}
+
+export default new CertificateValidationService();
@@ -0,0 +1,206 @@
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import dgiiService from './dgiiService';
+import documentService from './documentService';
+import inboxService from './inboxService';
+import tenantService from './tenantService';
+import webhookService from './webhookService';
+import { CommercialApprovalResult, InboxEntry } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Flujo de aprobación comercial de los e-CF recibidos (bandeja de entrada).
+ *
+ * Cada e-CF acusado como recibido queda pendiente hasta que se aprueba o rechaza (ACECF) o vence el
+ * plazo de DGII (COMMERCIAL_APPROVAL_DEADLINE_DAYS desde la recepción). Una revisión periódica envía
+ * el webhook approval.reminder al alcanzar cada umbral (COMMERCIAL_APPROVAL_REMINDER_DAYS antes del
+ * plazo, una sola vez por umbral) y, al vencer, aprueba el e-CF si COMMERCIAL_APPROVAL_AUTO_APPROVE
+ * está activo o lo marca como expired y envía approval.expired.
+ */
+export class CommercialApprovalService {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  start(): void {
+    if (this.timer || !config.commercialApprovalCheckEnabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.checkDeadlines(), config.commercialApprovalCheckIntervalMs);
+    this.timer.unref();
+    logger.info(`Commercial approval monitor started (interval: ${config.commercialApprovalCheckIntervalMs}ms)`);
+    this.checkDeadlines();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Commercial approval monitor stopped');
+    }
+  }
+
+  async checkDeadlines(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const maxReminderDays = Math.max(0, ...config.commercialApprovalReminderDays);
+      const entries = await inboxService.findPendingApprovals(
+        new Date(now + (maxReminderDays + 1) * DAY_MS).toISOString()
+      );
+
+      for (const entry of entries) {
+        const deadline = new Date(entry.approvalDeadline as string).getTime();
+        if (deadline <= now) {
+          await this.expire(entry);
+        } else {
+          await this.remind(entry, Math.floor((deadline - now) / DAY_MS));
+        }
+      }
+    } catch (error: any) {
+      logger.error(`Commercial approval monitor error: ${error.message}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Envía el ACECF aprobando (Estado 1) o rechazando (Estado 2) el e-CF recibido
+   */
+  async decide(id: string, approve: boolean, reason?: string): Promise<CommercialApprovalResult> {
+    const entry = await inboxService.getEntry(id);
+
+    if (entry.arecfStatus !== 'e-CF Recibido') {
+      throw new AppError(`Inbox entry ${id} was not acknowledged as received (${entry.arecfStatus})`, 409);
+    }
+    if (!approve && !reason) {
+      throw new AppError('A reason is required to reject a received e-CF', 400);
+    }
+
+    // Solo un e-CF pendiente se puede decidir; la reserva evita que la aprobación automática y una
+    // decisión manual (o dos decisiones) envíen dos ACECF
+    if (!(await inboxService.claimApproval(id))) {
+      const { approvalStatus } = await inboxService.getEntry(id);
+      throw new AppError(
+        approvalStatus === 'expired'
+          ? `Inbox entry ${id} expired: the commercial approval deadline has passed`
+          : `Inbox entry ${id} was already ${approvalStatus}`,
+        409
+      );
+    }
+
+    let result;
+    try {
+      const document = await documentService.getById(id);
+      result = await dgiiService.processCommercialApproval(
+        document.signedXml,
+        approve ? '1' : '2',
+        approve ? undefined : reason,
+        await this.getSigningRnc(entry),
+        entry.environment
+      );
+    } catch (error) {
+      await inboxService.releaseApproval(id);
+      throw error;
+    }
+
+    return {
+      id,
+      approvalStatus: approve ? 'approved' : 'rejected',
+      approvalDocumentId: result.documentId,
+      fileName: result.fileName,
+    };
+  }
+
+  /**
+   * Aprueba o rechaza varios e-CF; cada uno se procesa por separado y reporta su resultado
+   */
+  async decideMany(ids: string[], approve: boolean, reason?: string): Promise<CommercialApprovalResult[]> {
+    const results: CommercialApprovalResult[] = [];
+
+    for (const id of ids) {
+      try {
+        results.push(await this.decide(id, approve, reason));
+      } catch (error: any) {
+        results.push({ id, error: error.message, statusCode: error instanceof AppError ? error.statusCode : 500 });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * El ACECF se firma con el certificado del tenant dueño del RNCComprador, o con el certificado por defecto
+   */
+  private async getSigningRnc(entry: InboxEntry): Promise<string | undefined> {
+    if (!entry.rncComprador) {
+      return undefined;
+    }
+    return (await tenantService.findTenantIdByRnc(entry.rncComprador)) ? entry.rncComprador : undefined;
+  }
+
+  private async remind(entry: InboxEntry & { remindedDays?: number }, daysRemaining: number): Promise<void> {
+    // Umbrales ordenados de mayor a menor: el último alcanzado es el más cercano al plazo
+    const reached = config.commercialApprovalReminderDays.filter((threshold) => daysRemaining <= threshold);
+    const threshold = reached[reached.length - 1];
+    if (threshold === undefined || (entry.remindedDays !== undefined && entry.remindedDays <= threshold)) {
+      return;
+    }
+    if (!(await inboxService.markReminded(entry.id, threshold))) {
+      return;
+    }
+
+    logger.warn(
+      `Commercial approval pending - eNCF: ${entry.encf}, RNCEmisor: ${entry.rncEmisor}, ` +
+        `deadline: ${entry.approvalDeadline} (${daysRemaining} day(s) left)`
+    );
+
+    await webhookService.emit(
+      'approval.reminder',
+      { ...this.toEventData(entry), daysRemaining, threshold },
+      entry.rncComprador
+    );
+  }
+
+  private async expire(entry: InboxEntry): Promise<void> {
+    if (config.commercialApprovalAutoApprove) {
+      try {
+        await this.decide(entry.id, true);
+        logger.info(`Commercial approval deadline reached, e-CF auto-approved - eNCF: ${entry.encf}`);
+      } catch (error: any) {
+        // Queda pendiente y se reintenta en la siguiente revisión
+        logger.error(`Error auto-approving e-NCF ${entry.encf} from ${entry.rncEmisor}: ${error.message}`);
+      }
+      return;
+    }
+
+    if (!(await inboxService.markExpired(entry.id))) {
+      return;
+    }
+
+    logger.warn(`Commercial approval deadline expired - eNCF: ${entry.encf}, RNCEmisor: ${entry.rncEmisor}`);
+
+    await webhookService.emit('approval.expired', this.toEventData(entry), entry.rncComprador);
+  }
+
+  private toEventData(entry: InboxEntry) {
+    return {
+      documentId: entry.id,
+      tipoEcf: entry.tipoEcf,
+      rncEmisor: entry.rncEmisor,
+      rncComprador: entry.rncComprador,
+      encf: entry.encf,
+      montoTotal: entry.montoTotal,
+      receivedAt: entry.receivedAt,
+      approvalDeadline: entry.approvalDeadline,
+    };
+  }
+}
+
+export default new CommercialApprovalService();
@@ -0,0 +1,105 @@
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { isDgiiRejection, isRetryableError, toDgiiError } from '../utils/errors';
+import contingencyService from './contingencyService';
+import dgiiService from './dgiiService';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Envía a DGII los documentos firmados en contingencia, en el orden en que se firmaron.
+ *
+ * Cada revisión recorre los ambientes con pendientes o con una contingencia automática abierta; mientras la
+ * contingencia es manual no se envía nada hasta que el administrador la termina. Un rechazo de DGII (4xx) o una
+ * falla local que no se resuelve reintentando (certificado inválido o inexistente) marca el documento como
+ * fallido y se continúa con el siguiente; cualquier otra falla detiene el envío del ambiente para no alterar el
+ * orden (el primer pendiente sirve de prueba de conectividad). Al enviar todos los pendientes se cierra la
+ * contingencia automática.
+ */
+export class ContingencyMonitorService {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  start(): void {
+    if (this.timer || !config.contingencyCheckEnabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.check(), config.contingencyCheckIntervalMs);
+    this.timer.unref();
+    logger.info(`Contingency monitor started (interval: ${config.contingencyCheckIntervalMs}ms)`);
+    this.check();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Contingency monitor stopped');
+    }
+  }
+
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      for (const environment of await contingencyService.findEnvironmentsToFlush()) {
+        const period = await contingencyService.getActivePeriod(environment);
+        if (period?.source === 'manual') {
+          continue;
+        }
+
+        if ((await this.flush(environment)) && period) {
+          await contingencyService.end(environment);
+        }
+      }
+    } catch (error: any) {
+      logger.error(`Contingency monitor error: ${error.message}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Envía los pendientes del ambiente; indica si se enviaron todos
+   */
+  private async flush(environment: string): Promise<boolean> {
+    let sent = 0;
+    let documents = await contingencyService.findPending(environment, BATCH_SIZE);
+
+    while (documents.length) {
+      for (const document of documents) {
+        try {
+          await dgiiService.submitDeferred(document);
+          contingencyService.recordSuccess(environment);
+          sent++;
+        } catch (caught) {
+          // Un rechazo de DGII o una falla local permanente (p.ej. el certificado del RNC) descarta el documento;
+          // ante una falla transitoria o desconocida se conserva el orden
+          const error = toDgiiError(caught);
+          const permanent = error instanceof AppError && !isRetryableError(error);
+          if (!isDgiiRejection(error) && !permanent) {
+            logger.warn(`DGII still unavailable, contingency documents remain pending - Environment: ${environment}: ${error.message}`);
+            return false;
+          }
+
+          logger.error(`Contingency document failed - e-NCF: ${document.encf}: ${error.message}`);
+          await contingencyService.markFailed(document.id, error.message);
+        }
+      }
+
+      documents = await contingencyService.findPending(environment, BATCH_SIZE);
+    }
+
+    if (sent) {
+      logger.info(`Contingency documents sent - Environment: ${environment}, count: ${sent}`);
+    }
+    return true;
+  }
+}
+
+export default new ContingencyMonitorService();
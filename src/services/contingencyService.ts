@@ -0,0 +1,275 @@
+import { randomUUID } from 'crypto';
+import database from '../database';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { isRetryableError } from '../utils/errors';
+import documentService from './documentService';
+import webhookService from './webhookService';
+import {
+  ContingencyPeriod,
+  ContingencyReport,
+  ContingencyReportItem,
+  ContingencySource,
+  ContingencyState,
+  StoredDocument,
+} from '../types';
+
+const MAX_REPORT_ITEMS = 1000;
+
+const toPeriod = (row: any): ContingencyPeriod => ({
+  id: row.id,
+  environment: row.environment,
+  source: row.source,
+  reason: row.reason || undefined,
+  startedAt: row.started_at,
+  endedAt: row.ended_at || undefined,
+});
+
+const toReportItem = (row: any): ContingencyReportItem => ({
+  documentId: row.id,
+  documentType: row.document_type,
+  rncEmisor: row.rnc_emisor || undefined,
+  encf: row.encf || undefined,
+  environment: row.environment,
+  periodId: row.contingency_period_id || undefined,
+  status: row.contingency_status,
+  signedAt: row.created_at,
+  sentAt: row.contingency_sent_at || undefined,
+  delayMinutes: row.contingency_sent_at
+    ? Math.round((new Date(row.contingency_sent_at).getTime() - new Date(row.created_at).getTime()) / 60000)
+    : undefined,
+  trackId: row.track_id || undefined,
+  dgiiStatus: row.dgii_status || undefined,
+  error: row.contingency_error || undefined,
+});
+
+/**
+ * Modo de contingencia ante caídas del servicio de recepción de DGII.
+ *
+ * Mientras hay un período de contingencia abierto para el ambiente, las facturas se firman y se retornan
+ * con su QR y código de seguridad, pero se guardan pendientes (contingencyStatus pending) en lugar de
+ * enviarse. El período lo abre el administrador o, si CONTINGENCY_AUTO_ENABLED está activo, se abre solo
+ * tras CONTINGENCY_FAILURE_THRESHOLD fallas transitorias consecutivas (red, 429 o 5xx). El envío diferido
+ * de los pendientes, en orden de firma, lo realiza contingencyMonitorService.
+ */
+export class ContingencyService {
+  // Fallas transitorias consecutivas por ambiente; se reinician con cada envío exitoso
+  private failures: Map<string, number> = new Map();
+
+  private resolveEnvironment(environment?: string): string {
+    return environment || config.dgiiEnvironment;
+  }
+
+  async getActivePeriod(environment?: string): Promise<ContingencyPeriod | undefined> {
+    const row = await database.queryOne(
+      'SELECT * FROM contingency_periods WHERE environment = ? AND ended_at IS NULL',
+      [this.resolveEnvironment(environment)]
+    );
+    return row ? toPeriod(row) : undefined;
+  }
+
+  async getState(environment?: string): Promise<ContingencyState> {
+    const env = this.resolveEnvironment(environment);
+    const period = await this.getActivePeriod(env);
+    const row = await database.queryOne<{ total: number }>(
+      "SELECT COUNT(*) AS total FROM documents WHERE contingency_status = 'pending' AND environment = ?",
+      [env]
+    );
+
+    return { environment: env, active: Boolean(period), period, pending: Number(row?.total || 0) };
+  }
+
+  async start(environment: string | undefined, source: ContingencySource, reason?: string): Promise<ContingencyPeriod> {
+    const env = this.resolveEnvironment(environment);
+    const id = randomUUID();
+
+    // El índice único sobre los períodos abiertos evita dos contingencias simultáneas en el ambiente
+    const inserted = await database.execute(
+      `INSERT INTO contingency_periods (id, environment, source, reason, started_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT DO NOTHING`,
+      [id, env, source, reason || null, new Date().toISOString()]
+    );
+
+    if (!inserted) {
+      throw new AppError(`Contingency is already active for environment ${env}`, 409);
+    }
+
+    const period = (await this.getActivePeriod(env)) as ContingencyPeriod;
+    logger.warn(`Contingency started - Environment: ${env}, Source: ${source}${reason ? `, Reason: ${reason}` : ''}`);
+
+    await webhookService.emit('contingency.started', period);
+    return period;
+  }
+
+  async end(environment?: string): Promise<ContingencyPeriod> {
+    const period = await this.getActivePeriod(environment);
+    if (!period) {
+      throw new AppError(`Contingency is not active for environment ${this.resolveEnvironment(environment)}`, 409);
+    }
+
+    const endedAt = new Date().toISOString();
+    const updated = await database.execute(
+      'UPDATE contingency_periods SET ended_at = ? WHERE id = ? AND ended_at IS NULL',
+      [endedAt, period.id]
+    );
+    if (!updated) {
+      throw new AppError(`Contingency is not active for environment ${period.environment}`, 409);
+    }
+
+    this.failures.delete(period.environment);
+    const ended = { ...period, endedAt };
+    const { pending } = await this.getState(period.environment);
+    logger.info(`Contingency ended - Environment: ${period.environment}, pending documents: ${pending}`);
+
+    await webhookService.emit('contingency.ended', { ...ended, pending });
+    return ended;
+  }
+
+  recordSuccess(environment?: string): void {
+    this.failures.delete(this.resolveEnvironment(environment));
+  }
+
+  /**
+   * Registra una falla de envío a DGII. Indica si el documento debe quedar en contingencia:
+   * la falla es transitoria y la contingencia ya estaba abierta o se abre automáticamente ahora.
+   */
+  async recordFailure(environment: string | undefined, error: any): Promise<boolean> {
+    if (!isRetryableError(error)) {
+      return false;
+    }
+
+    const env = this.resolveEnvironment(environment);
+    const failures = (this.failures.get(env) || 0) + 1;
+    this.failures.set(env, failures);
+
+    if (await this.getActivePeriod(env)) {
+      return true;
+    }
+    if (!config.contingencyAutoEnabled || failures < config.contingencyFailureThreshold) {
+      return false;
+    }
+
+    try {
+      await this.start(env, 'automatic', `${failures} consecutive DGII failures: ${error.message}`);
+    } catch (startError) {
+      // Otro proceso la abrió al mismo tiempo
+      if (!(startError instanceof AppError && startError.statusCode === 409)) {
+        throw startError;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Documentos pendientes de enviar, en el orden en que se firmaron
+   */
+  async findPending(environment: string, limit: number): Promise<StoredDocument[]> {
+    const rows = await database.query(
+      `SELECT id FROM documents WHERE contingency_status = 'pending' AND environment = ?
+       ORDER BY created_at, id
+       LIMIT ?`,
+      [environment, limit]
+    );
+
+    return Promise.all(rows.map((row: any) => documentService.getById(row.id)));
+  }
+
+  /**
+   * Ambientes con documentos pendientes o con una contingencia automática abierta
+   */
+  async findEnvironmentsToFlush(): Promise<string[]> {
+    const rows = await database.query(
+      `SELECT DISTINCT environment FROM documents WHERE contingency_status = 'pending'
+       UNION
+       SELECT environment FROM contingency_periods WHERE ended_at IS NULL AND source = 'automatic'`
+    );
+    return rows.map((row: any) => row.environment);
+  }
+
+  async markSent(id: string): Promise<void> {
+    await documentService.update(id, { contingencyStatus: 'sent', contingencySentAt: new Date().toISOString() });
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await documentService.update(id, { contingencyStatus: 'failed', contingencyError: error });
+  }
+
+  /**
+   * Períodos abiertos en algún momento entre from y to
+   */
+  private async findPeriods(environment?: string, from?: string, to?: string): Promise<ContingencyPeriod[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (environment) {
+      conditions.push('environment = ?');
+      params.push(environment);
+    }
+    if (from) {
+      conditions.push('(ended_at IS NULL OR ended_at >= ?)');
+      params.push(from);
+    }
+    if (to) {
+      conditions.push('started_at <= ?');
+      params.push(to);
+    }
+
+    const rows = await database.query(
+      `SELECT * FROM contingency_periods ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY started_at`,
+      params
+    );
+    return rows.map(toPeriod);
+  }
+
+  /**
+   * Reporte de los documentos emitidos en contingencia: cuándo se firmaron, cuándo se enviaron a DGII
+   * (con el retraso) y los que siguen pendientes o fallaron
+   */
+  async getReport(filters: { environment?: string; rncs?: string[]; from?: string; to?: string }): Promise<ContingencyReport> {
+    const conditions = ['d.contingency_status IS NOT NULL'];
+    const params: any[] = [];
+
+    if (filters.environment) {
+      conditions.push('d.environment = ?');
+      params.push(filters.environment);
+    }
+    if (filters.rncs) {
+      conditions.push(filters.rncs.length ? `d.rnc_emisor IN (${filters.rncs.map(() => '?').join(', ')})` : '1 = 0');
+      params.push(...filters.rncs);
+    }
+    if (filters.from) {
+      conditions.push('d.created_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('d.created_at <= ?');
+      params.push(filters.to);
+    }
+
+    const rows = await database.query(
+      `SELECT d.id, d.document_type, d.rnc_emisor, d.encf, d.environment, d.track_id, d.dgii_status, d.created_at,
+              d.contingency_period_id, d.contingency_status, d.contingency_sent_at, d.contingency_error
+       FROM documents d
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY d.created_at, d.id`,
+      params
+    );
+
+    const items = rows.map(toReportItem);
+    const periods = await this.findPeriods(filters.environment, filters.from, filters.to);
+
+    return {
+      total: items.length,
+      sent: items.filter((item) => item.status === 'sent').length,
+      pending: items.filter((item) => item.status === 'pending').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+      periods,
+      items: items.slice(0, MAX_REPORT_ITEMS),
+    };
+  }
+}
+
+export default new ContingencyService();
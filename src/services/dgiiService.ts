@@ -1,16 +1,102 @@
-import ECF, { ENVIRONMENT, Signature, Transformer, generateEcfQRCodeURL, generateFcQRCodeURL, getCodeSixDigitfromSignature, SenderReceiver, ReceivedStatus, NoReceivedCode, CustomAuthentication } from 'dgii-ecf';
-import axios from 'axios';
+import ECF, { restClient, ENVIRONMENT, Signature, Transformer, generateEcfQRCodeURL, generateFcQRCodeURL, getCodeSixDigitfromSignature, SenderReceiver, ReceivedStatus, NoReceivedCode, CustomAuthentication } from 'dgii-ecf';
 import config from '../config/environment';
 import logger from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 import certificateService from './certificateService';
-import { InvoiceData } from '../types';
+import certificateValidationService from './certificateValidationService';
+import documentService from './documentService';
+import sequenceService from './sequenceService';
+import jobQueueService from './jobQueueService';
+import webhookService from './webhookService';
+import xsdValidationService from './xsdValidationService';
+import invoiceRulesService from './invoiceRulesService';
+import receptorSeedService from './receptorSeedService';
+import receptorRulesService from './receptorRulesService';
+import inboxService from './inboxService';
+import contingencyService from './contingencyService';
+import noteService from './noteService';
+import { toDgiiError, toDgiiRequestError, wrapError } from '../utils/errors';
+import { parseDgiiDateTime } from '../utils/dates';
+import { detectDocumentType, KNOWN_DOCUMENT_TYPES } from '../utils/documentType';
+import { getSubjectIds } from '../utils/x509';
+import {
+  AcecfReceptionResponse,
+  InvoiceData,
+  InvoiceSubmissionMode,
+  NewStoredDocument,
+  PreparedInvoice,
+  ReceivedAcecf,
+  SignatureVerificationResult,
+  StoredDocument,
+  SummaryData,
+  VoidSequenceRequest,
+  XsdValidationResult,
+} from '../types';
 import { DOMParser } from '@xmldom/xmldom';
 
 // Instancia del SenderReceiver para procesar ECFs recibidos
 const senderReceiver = new SenderReceiver();
 
+// dgii-ecf descarta el código HTTP y el de red de los errores de axios; se convierten antes de que los reciba
+restClient.interceptors.response.use(undefined, (error) => Promise.reject(toDgiiRequestError(error)));
+
+export const INVOICE_SUBMIT_JOB = 'invoice.submit';
+export const INVOICE_SUMMARY_JOB = 'invoice.submit-summary';
+
+interface InvoiceSubmitJob {
+  prepared: PreparedInvoice;
+  documentId: string;
+}
+
+interface InvoiceSummaryJob {
+  invoiceData: InvoiceData;
+  rnc: string;
+  encf: string;
+  environment?: string;
+}
+
+// ECF completo y RFCE de una factura de consumo resumida, firmados y listos para enviar
+interface PreparedSummary {
+  rnc: string;
+  encf: string;
+  signedEcfXml: string;
+  ecfSecurityCode: string;
+  signedRfceXml: string;
+  rfceSecurityCode: string;
+  qrCodeUrl: string;
+  baseDocument: Omit<NewStoredDocument, 'documentType' | 'signedXml'>;
+}
+
 export class DGIIService {
+  constructor() {
+    jobQueueService.registerHandler<InvoiceSubmitJob, any>(
+      INVOICE_SUBMIT_JOB,
+      async ({ prepared, documentId }) => {
+        // Una nota de crédito liberada por una falla definitiva ya no tiene su monto reservado
+        if (this.isCreditNote(prepared) && !(await documentService.findById(documentId))) {
+          throw new AppError(`Credit note ${prepared.encf} was released after a permanent failure; issue it again`, 409);
+        }
+
+        const { signedXml, ...result } = await this.submitOrDefer(
+          prepared.environment,
+          () => this.submitInvoice(prepared, documentId),
+          () => this.deferInvoice(prepared, documentId)
+        );
+        return result;
+      },
+      async ({ prepared, documentId }) => {
+        if (this.isCreditNote(prepared)) {
+          await noteService.releaseCredit(documentId);
+        }
+      }
+    );
+
+    jobQueueService.registerHandler<InvoiceSummaryJob, any>(INVOICE_SUMMARY_JOB, async ({ invoiceData, rnc, encf, environment }) => {
+      const { signedEcfXml, signedRfceXml, ...result } = await this.submitSummaryWithEcf(invoiceData, rnc, encf, environment);
+      return result;
+    });
+  }
+
   private getEnvironment(env?: string): any {
     const environment = env || config.dgiiEnvironment;
     switch (environment) {
@@ -25,11 +111,114 @@ export class DGIIService {
     }
   }
 
+  /**
+   * Guarda el documento firmado en el almacén persistente.
+   * Un fallo de la base de datos se registra pero no interrumpe la operación,
+   * ya que en ese punto el documento fue firmado y enviado a DGII.
+   */
+  private async persistDocument(data: NewStoredDocument): Promise<string | undefined> {
+    try {
+      const document = await documentService.save(data);
+      return document.id;
+    } catch (error: any) {
+      logger.error(`Error persisting ${data.documentType} document ${data.encf || ''}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Registra en la bandeja de entrada la aprobación comercial (Estado 1) o el rechazo (2) enviado para
+   * un e-CF recibido. La aprobación ya se envió a DGII, por lo que un error aquí solo se registra.
+   */
+  private async recordInboxApproval(
+    rncEmisor: string | undefined,
+    encf: string | undefined,
+    rncComprador: string | undefined,
+    estado: string,
+    approvalDocumentId?: string,
+    reason?: string
+  ): Promise<void> {
+    if (!rncEmisor || !encf || !rncComprador || !['1', '2'].includes(estado)) {
+      return;
+    }
+
+    try {
+      await inboxService.recordApproval(
+        rncEmisor,
+        encf,
+        rncComprador,
+        estado === '1' ? 'approved' : 'rejected',
+        approvalDocumentId,
+        reason
+      );
+    } catch (error: any) {
+      logger.error(`Error recording commercial approval in inbox for e-NCF ${encf}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Determina el e-NCF del documento. Si no viene en la petición ni en IdDoc,
+   * se asigna el siguiente número de los rangos registrados para el RNC y TipoeCF;
+   * si viene y pertenece a un rango registrado, se reserva para que no se asigne ni se anule.
+   * Los campos se insertan al inicio de IdDoc para respetar el orden del XSD de DGII.
+   */
+  private async resolveEncf(
+    invoiceData: InvoiceData,
+    rnc: string,
+    encf?: string,
+    environment?: string
+  ): Promise<{ invoiceData: InvoiceData; encf: string }> {
+    const idDoc = invoiceData.ECF?.Encabezado?.IdDoc;
+    const existing = encf || idDoc?.eNCF;
+
+    if (existing) {
+      await sequenceService.claim(rnc, existing, environment);
+      return { invoiceData, encf: existing };
+    }
+
+    if (!idDoc?.TipoeCF) {
+      throw new AppError('encf is required when Encabezado.IdDoc.TipoeCF is not provided', 400);
+    }
+
+    const allocation = await sequenceService.allocate(rnc, idDoc.TipoeCF.toString(), environment);
+    const { TipoeCF, eNCF, FechaVencimientoSecuencia, ...rest } = idDoc;
+
+    // Las facturas de consumo (32) y notas de crédito (34) no llevan fecha de vencimiento de secuencia
+    const requiresExpiry = !['32', '34'].includes(allocation.tipoeCF);
+
+    return {
+      encf: allocation.encf,
+      invoiceData: {
+        ...invoiceData,
+        ECF: {
+          ...invoiceData.ECF,
+          Encabezado: {
+            ...invoiceData.ECF.Encabezado,
+            IdDoc: {
+              TipoeCF,
+              eNCF: allocation.encf,
+              ...(requiresExpiry && { FechaVencimientoSecuencia: FechaVencimientoSecuencia || allocation.fechaVencimientoSecuencia }),
+              ...rest,
+            },
+          },
+        },
+      },
+    };
+  }
+
+  private async updateDocument(id: string, changes: Partial<NewStoredDocument>): Promise<void> {
+    try {
+      await documentService.update(id, changes);
+    } catch (error: any) {
+      logger.error(`Error updating document ${id}: ${error.message}`);
+    }
+  }
+
   async authenticate(rnc?: string, environment?: string): Promise<any> {
     try {
       logger.info(`Authenticating with DGII - RNC: ${rnc || 'default'}, Env: ${environment || config.dgiiEnvironment}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -47,7 +236,9 @@ export class DGIIService {
     try {
       logger.info(`Signing XML - Type: ${documentType}, RNC: ${rnc || 'default'}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      await xsdValidationService.assertValid(xmlData);
+
+      const certs = await certificateService.getCertificate(rnc);
       const signature = new Signature(certs.key, certs.cert);
 
       const signedXml = signature.signXml(xmlData, documentType) as string;
@@ -57,54 +248,404 @@ export class DGIIService {
       return { signedXml, securityCode };
     } catch (error: any) {
       logger.error('Error signing XML:', error);
-      throw new AppError(`Error signing XML: ${error.message}`, 500);
+      throw wrapError('Error signing XML', error);
     }
   }
 
-  async sendInvoice(invoiceData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<any> {
-    try {
-      logger.info(`Sending invoice - RNC: ${rnc}, e-NCF: ${encf}`);
+  /**
+   * Valida un documento (XML o JSON de e-CF) contra su XSD sin firmarlo ni enviarlo.
+   * Lanza 422 con los errores por campo si no cumple el esquema.
+   */
+  async validateDocument(xmlData?: string, invoiceData?: InvoiceData): Promise<XsdValidationResult> {
+    const xml = xmlData || new Transformer().json2xml(invoiceData as InvoiceData);
+    return xsdValidationService.validateOrThrow(xml);
+  }
 
-      const certs = certificateService.getCertificate(rnc);
-      const env = this.getEnvironment(environment);
+  /**
+   * Se valida antes de asignar el e-NCF para no consumir la secuencia con una factura que DGII rechazaría
+   */
+  private checkInvoiceRules(data: InvoiceData): void {
+    if (config.invoiceRulesEnabled) {
+      invoiceRulesService.validateOrThrow(data);
+    }
+  }
 
-      const ecf = new ECF(certs, env);
+  /**
+   * Flujo de envío de la factura: las facturas de consumo (32) por debajo de CONSUMO_SUMMARY_THRESHOLD
+   * se envían a DGII como RFCE (resumen) y el resto como e-CF completo.
+   * El tipo se toma del e-NCF (E32...) o, si se asignará automáticamente, de IdDoc.TipoeCF.
+   */
+  getSubmissionMode(data: InvoiceData, requestedEncf?: string): InvoiceSubmissionMode {
+    const encf = requestedEncf || data.ECF?.Encabezado?.IdDoc?.eNCF;
+    const tipoeCF = encf ? encf.substring(1, 3) : data.ECF?.Encabezado?.IdDoc?.TipoeCF?.toString();
+    const montoTotal = Number(data.ECF?.Encabezado?.Totales?.MontoTotal);
+
+    const isSummary =
+      tipoeCF === '32' && config.consumoSummaryThreshold > 0 && Number.isFinite(montoTotal) && montoTotal < config.consumoSummaryThreshold;
+
+    return isSummary ? 'summary' : 'ecf';
+  }
+
+  /**
+   * Resuelve el e-NCF, convierte la factura a XML, la firma y genera el QR sin enviarla a DGII.
+   * parentId es el documento del e-CF que modifica una nota de crédito o débito.
+   */
+  async prepareInvoice(
+    data: InvoiceData,
+    rnc: string,
+    requestedEncf?: string,
+    environment?: string,
+    parentId?: string
+  ): Promise<PreparedInvoice> {
+    this.checkInvoiceRules(data);
+
+    const { invoiceData, encf } = await this.resolveEncf(data, rnc, requestedEncf, environment);
+    const env = this.getEnvironment(environment);
+
+    const transformer = new Transformer();
+    const xml = transformer.json2xml(invoiceData);
+
+    const { signedXml, securityCode } = await this.signXml(xml, 'ECF', rnc);
+
+    const rncComprador = invoiceData.ECF?.Encabezado?.Comprador?.RNCComprador;
+    const montoTotal = invoiceData.ECF?.Encabezado?.Totales?.MontoTotal;
+    const fechaEmision = invoiceData.ECF?.Encabezado?.Emisor?.FechaEmision;
+    const fechaFirma = new Date().toISOString();
+
+    const qrCodeUrl = generateEcfQRCodeURL(
+      rnc,
+      rncComprador as string,
+      encf,
+      String(montoTotal),
+      fechaEmision,
+      fechaFirma,
+      securityCode,
+      env
+    );
+
+    return {
+      rnc,
+      encf,
+      environment: environment || config.dgiiEnvironment,
+      tipoEcf: invoiceData.ECF?.Encabezado?.IdDoc?.TipoeCF?.toString(),
+      rncComprador,
+      fechaEmision,
+      montoTotal: montoTotal !== undefined ? Number(montoTotal) : undefined,
+      fileName: `${rnc}${encf}.xml`,
+      signedXml,
+      securityCode,
+      qrCodeUrl,
+      parentId,
+    };
+  }
+
+  private toInvoiceDocument(prepared: PreparedInvoice): NewStoredDocument {
+    return {
+      direction: 'emitted',
+      documentType: 'ECF',
+      tipoEcf: prepared.tipoEcf,
+      rncEmisor: prepared.rnc,
+      rncComprador: prepared.rncComprador,
+      encf: prepared.encf,
+      fileName: prepared.fileName,
+      signedXml: prepared.signedXml,
+      securityCode: prepared.securityCode,
+      qrCodeUrl: prepared.qrCodeUrl,
+      environment: prepared.environment,
+      fechaEmision: prepared.fechaEmision,
+      montoTotal: prepared.montoTotal,
+      parentId: prepared.parentId,
+    };
+  }
+
+  /**
+   * Una nota de crédito se guarda antes de enviarla para reservar su monto contra el total del e-CF que modifica
+   * (noteService.reserveCredit). Retorna el id del documento guardado, o undefined si no es una nota de crédito.
+   * Si DGII no la recibe se libera, también cuando el trabajo encolado falla definitivamente.
+   */
+  private async reserveCreditNote(prepared: PreparedInvoice): Promise<string | undefined> {
+    if (!this.isCreditNote(prepared)) {
+      return undefined;
+    }
+    return (await noteService.reserveCredit(this.toInvoiceDocument(prepared))).id;
+  }
+
+  private isCreditNote(prepared: PreparedInvoice): boolean {
+    return !!prepared.parentId && prepared.tipoEcf === '34';
+  }
+
+  /**
+   * Envía a DGII una factura ya firmada y la registra en el almacén de documentos.
+   * Si se indica documentId (factura encolada), se actualiza ese documento en lugar de crear otro.
+   * Los errores de red se propagan sin envolver para que la cola pueda decidir si reintentar.
+   */
+  async submitInvoice(prepared: PreparedInvoice, documentId?: string): Promise<any> {
+    logger.info(`Sending invoice - RNC: ${prepared.rnc}, e-NCF: ${prepared.encf}`);
+
+    const certs = await certificateService.getCertificate(prepared.rnc);
+    const env = this.getEnvironment(prepared.environment);
+
+    const ecf = new ECF(certs, env);
+    await ecf.authenticate();
+
+    const response = await ecf.sendElectronicDocument(prepared.signedXml, prepared.fileName);
+
+    logger.info(`Invoice sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
+
+    await sequenceService.markUsed(prepared.rnc, prepared.encf, prepared.environment);
+
+    if (documentId) {
+      await this.updateDocument(documentId, { trackId: response?.trackId, dgiiResponse: response });
+    } else {
+      documentId = await this.persistDocument({
+        ...this.toInvoiceDocument(prepared),
+        trackId: response?.trackId,
+        dgiiResponse: response,
+      });
+    }
+
+    return {
+      ...response,
+      signedXml: prepared.signedXml,
+      securityCode: prepared.securityCode,
+      qrCodeUrl: prepared.qrCodeUrl,
+      encf: prepared.encf,
+      documentId,
+    };
+  }
+
+  /**
+   * Envía un documento ya firmado, salvo que haya contingencia para el ambiente o que la falla la active:
+   * en ese caso se deja guardado y pendiente de envío (defer)
+   */
+  private async submitOrDefer(environment: string | undefined, submit: () => Promise<any>, defer: () => Promise<any>): Promise<any> {
+    if (!(await contingencyService.getActivePeriod(environment))) {
+      try {
+        const result = await submit();
+        contingencyService.recordSuccess(environment);
+        return result;
+      } catch (error) {
+        const dgiiError = toDgiiError(error);
+        if (!(await contingencyService.recordFailure(environment, dgiiError))) {
+          throw dgiiError;
+        }
+      }
+    }
+
+    return defer();
+  }
+
+  /**
+   * Datos de contingencia del documento que se guarda sin enviar a DGII
+   */
+  private async toContingencyFields(environment?: string): Promise<Partial<NewStoredDocument>> {
+    const period = await contingencyService.getActivePeriod(environment);
+    return { contingencyPeriodId: period?.id, contingencyStatus: 'pending' };
+  }
+
+  /**
+   * Guarda la factura firmada como pendiente de contingencia. A diferencia de un envío, un fallo al guardar
+   * se propaga: el documento conservado es lo único que permite enviarlo a DGII más tarde.
+   */
+  private async deferInvoice(prepared: PreparedInvoice, documentId?: string): Promise<any> {
+    const contingency = await this.toContingencyFields(prepared.environment);
+
+    if (documentId) {
+      await documentService.update(documentId, contingency);
+    } else {
+      documentId = (await documentService.save({ ...this.toInvoiceDocument(prepared), ...contingency })).id;
+    }
+
+    // El e-NCF ya se entregó al cliente con su QR, por lo que no se puede volver a asignar ni anular
+    await sequenceService.markUsed(prepared.rnc, prepared.encf, prepared.environment);
+
+    logger.warn(`Invoice issued in contingency, pending submission to DGII - RNC: ${prepared.rnc}, e-NCF: ${prepared.encf}`);
+
+    return {
+      contingency: true,
+      contingencyPeriodId: contingency.contingencyPeriodId,
+      signedXml: prepared.signedXml,
+      securityCode: prepared.securityCode,
+      qrCodeUrl: prepared.qrCodeUrl,
+      encf: prepared.encf,
+      documentId,
+    };
+  }
+
+  /**
+   * Guarda el ECF completo y el RFCE de una factura de consumo resumida; el RFCE queda pendiente de contingencia
+   */
+  private async deferSummary(summary: PreparedSummary): Promise<any> {
+    const contingency = await this.toContingencyFields(summary.baseDocument.environment);
+
+    const document = await documentService.save({
+      ...summary.baseDocument,
+      documentType: 'ECF',
+      signedXml: summary.signedEcfXml,
+      securityCode: summary.ecfSecurityCode,
+      qrCodeUrl: summary.qrCodeUrl,
+    });
+
+    await documentService.save({
+      ...summary.baseDocument,
+      ...contingency,
+      documentType: 'RFCE',
+      signedXml: summary.signedRfceXml,
+      securityCode: summary.rfceSecurityCode,
+      parentId: document.id,
+    });
+
+    await sequenceService.markUsed(summary.rnc, summary.encf, summary.baseDocument.environment);
+
+    logger.warn(`Summary issued in contingency, pending submission to DGII - RNC: ${summary.rnc}, e-NCF: ${summary.encf}`);
+
+    return {
+      contingency: true,
+      contingencyPeriodId: contingency.contingencyPeriodId,
+      signedEcfXml: summary.signedEcfXml,
+      signedRfceXml: summary.signedRfceXml,
+      ecfSecurityCode: summary.ecfSecurityCode,
+      rfceSecurityCode: summary.rfceSecurityCode,
+      qrCodeUrl: summary.qrCodeUrl,
+      documentId: document.id,
+    };
+  }
+
+  /**
+   * Envía a DGII un documento firmado durante la contingencia (el e-CF, o el RFCE de una factura de consumo
+   * resumida, cuyo ECF también se actualiza) y lo marca como enviado.
+   * Los errores se propagan sin envolver para decidir si detener el envío de pendientes.
+   */
+  async submitDeferred(document: StoredDocument): Promise<any> {
+    logger.info(`Sending contingency document - RNC: ${document.rncEmisor}, e-NCF: ${document.encf}, Type: ${document.documentType}`);
+
+    const certs = await certificateService.getCertificate(document.rncEmisor);
+    const env = this.getEnvironment(document.environment);
+
+    const ecf = new ECF(certs, env);
+    try {
       await ecf.authenticate();
+    } catch (error: any) {
+      // Una falla de autenticación no es un rechazo del documento: se conserva pendiente
+      throw new AppError(`DGII authentication failed: ${toDgiiError(error).message}`, 503);
+    }
 
-      const transformer = new Transformer();
-      const xml = transformer.json2xml(invoiceData);
+    const response: any =
+      document.documentType === 'RFCE'
+        ? await ecf.sendSummary(document.signedXml, document.fileName as string)
+        : await ecf.sendElectronicDocument(document.signedXml, document.fileName as string);
 
-      const { signedXml, securityCode } = await this.signXml(xml, 'ECF', rnc);
+    logger.info(`Contingency document sent - e-NCF: ${document.encf}, TrackID: ${response?.trackId || 'unknown'}`);
 
-      const response = await ecf.sendElectronicDocument(signedXml, `${rnc}${encf}.xml`);
+    const changes = { trackId: response?.trackId, dgiiStatus: response?.estado, dgiiResponse: response };
+    await this.updateDocument(document.id, changes);
+    if (document.documentType === 'RFCE' && document.parentId) {
+      await this.updateDocument(document.parentId, changes);
+    }
+    await contingencyService.markSent(document.id);
 
-      const rncComprador = invoiceData.ECF?.Encabezado?.Comprador?.RNCComprador;
-      const montoTotal = invoiceData.ECF?.Encabezado?.Totales?.MontoTotal;
-      const fechaEmision = invoiceData.ECF?.Encabezado?.Emisor?.FechaEmision;
-      const fechaFirma = new Date().toISOString();
+    return response;
+  }
 
-      const qrCodeUrl = generateEcfQRCodeURL(
-        rnc,
-        rncComprador,
-        encf,
-        montoTotal,
-        fechaEmision,
-        fechaFirma,
-        securityCode,
-        env
-      );
+  async sendInvoice(
+    data: InvoiceData,
+    rnc: string,
+    requestedEncf?: string,
+    environment?: string,
+    parentId?: string
+  ): Promise<any> {
+    try {
+      if (this.getSubmissionMode(data, requestedEncf) === 'summary') {
+        this.checkInvoiceRules(data);
+        const { invoiceData, encf } = await this.resolveEncf(data, rnc, requestedEncf, environment);
+        const result = await this.submitSummaryWithEcf(invoiceData, rnc, encf, environment);
+        return { mode: 'summary', ...result, encf };
+      }
+
+      const prepared = await this.prepareInvoice(data, rnc, requestedEncf, environment, parentId);
+      const documentId = await this.reserveCreditNote(prepared);
+
+      try {
+        const result = await this.submitOrDefer(
+          prepared.environment,
+          () => this.submitInvoice(prepared, documentId),
+          () => this.deferInvoice(prepared, documentId)
+        );
+        return { mode: 'ecf', ...result };
+      } catch (error) {
+        if (documentId) {
+          await noteService.releaseCredit(documentId);
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      logger.error('Error sending invoice:', error);
+      throw wrapError('Error sending invoice', error);
+    }
+  }
 
-      logger.info(`Invoice sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
+  /**
+   * Firma la factura y la encola para enviarla a DGII en segundo plano.
+   * El documento firmado se guarda antes de encolarlo, de modo que el QR y el código
+   * de seguridad retornados siempre corresponden a un documento conservado.
+   */
+  async enqueueInvoice(
+    data: InvoiceData,
+    rnc: string,
+    requestedEncf?: string,
+    environment?: string,
+    parentId?: string
+  ): Promise<any> {
+    try {
+      // El RFCE se firma al procesar el trabajo, por lo que el código de seguridad y el QR quedan en el resultado del trabajo
+      if (this.getSubmissionMode(data, requestedEncf) === 'summary') {
+        this.checkInvoiceRules(data);
+        const { invoiceData, encf } = await this.resolveEncf(data, rnc, requestedEncf, environment);
+
+        // En contingencia se firma de inmediato para retornar el código de seguridad y el QR
+        if (await contingencyService.getActivePeriod(environment)) {
+          const { signedEcfXml, signedRfceXml, ...result } = await this.submitSummaryWithEcf(invoiceData, rnc, encf, environment);
+          return { mode: 'summary', ...result, encf };
+        }
+
+        const job = await jobQueueService.enqueue<InvoiceSummaryJob>(
+          INVOICE_SUMMARY_JOB,
+          { invoiceData, rnc, encf, environment },
+          { reference: encf, rnc }
+        );
+
+        return { mode: 'summary', jobId: job.id, status: job.status, encf };
+      }
+
+      const prepared = await this.prepareInvoice(data, rnc, requestedEncf, environment, parentId);
+      const reservedId = await this.reserveCreditNote(prepared);
+
+      // En contingencia no se encola: el envío diferido respeta el orden de firma
+      if (await contingencyService.getActivePeriod(prepared.environment)) {
+        const { signedXml, ...deferred } = await this.deferInvoice(prepared, reservedId);
+        return { mode: 'ecf', ...deferred };
+      }
+
+      const documentId = reservedId || (await documentService.save(this.toInvoiceDocument(prepared))).id;
+
+      const job = await jobQueueService.enqueue<InvoiceSubmitJob>(
+        INVOICE_SUBMIT_JOB,
+        { prepared, documentId },
+        { reference: prepared.encf, rnc: prepared.rnc }
+      );
 
       return {
-        ...response,
-        signedXml,
-        securityCode,
-        qrCodeUrl,
+        mode: 'ecf',
+        jobId: job.id,
+        status: job.status,
+        encf: prepared.encf,
+        securityCode: prepared.securityCode,
+        qrCodeUrl: prepared.qrCodeUrl,
+        documentId,
       };
     } catch (error: any) {
-      logger.error('Error sending invoice:', error);
-      throw new AppError(`Error sending invoice: ${error.message}`, 500);
+      logger.error('Error queueing invoice:', error);
+      throw wrapError('Error queueing invoice', error);
     }
   }
 
@@ -112,7 +653,7 @@ export class DGIIService {
     try {
       logger.info(`Getting status for trackID: ${trackId}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -132,7 +673,7 @@ export class DGIIService {
     try {
       logger.info(`Getting tracks for RNC: ${rnc}, e-NCF: ${encf}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -152,7 +693,7 @@ export class DGIIService {
     try {
       logger.info(`Inquiry status - RNC Emisor: ${rncEmisor}, e-NCF: ${encf}`);
 
-      const certs = certificateService.getCertificate(rncEmisor);
+      const certs = await certificateService.getCertificate(rncEmisor);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -168,18 +709,18 @@ export class DGIIService {
     }
   }
 
-  async sendSummary(invoiceData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<any> {
+  async sendSummary(summaryData: SummaryData, rnc: string, encf: string, environment?: string): Promise<any> {
     try {
       logger.info(`Sending summary (RFCE) - RNC: ${rnc}, e-NCF: ${encf}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
       await ecf.authenticate();
 
       const transformer = new Transformer();
-      const xml = transformer.json2xml(invoiceData);
+      const xml = transformer.json2xml(summaryData);
 
       const { signedXml, securityCode } = await this.signXml(xml, 'RFCE', rnc);
 
@@ -187,101 +728,196 @@ export class DGIIService {
 
       logger.info(`Summary sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
 
+      const encabezado = summaryData.RFCE?.Encabezado;
+      const documentId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'RFCE',
+        tipoEcf: '32',
+        rncEmisor: rnc,
+        rncComprador: encabezado?.Comprador?.RNCComprador,
+        encf,
+        fileName: `${rnc}${encf}.xml`,
+        signedXml,
+        securityCode,
+        trackId: response?.trackId,
+        environment: environment || config.dgiiEnvironment,
+        dgiiStatus: response?.estado,
+        dgiiResponse: response,
+        fechaEmision: encabezado?.Emisor?.FechaEmision,
+        montoTotal: encabezado?.Totales?.MontoTotal !== undefined ? Number(encabezado.Totales.MontoTotal) : undefined,
+      });
+
       return {
         ...response,
         signedXml,
         securityCode,
+        documentId,
       };
     } catch (error: any) {
       logger.error('Error sending summary:', error);
-      throw new AppError(`Error sending summary: ${error.message}`, 500);
+      throw wrapError('Error sending summary', error);
     }
   }
 
-  async sendSummaryWithEcf(ecfData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<any> {
-    try {
-      logger.info(`Sending summary with ECF - RNC: ${rnc}, e-NCF: ${encf}`);
-
-      const certs = certificateService.getCertificate(rnc);
-      const env = this.getEnvironment(environment);
-
-      const ecf = new ECF(certs, env);
-      await ecf.authenticate();
-
-      const transformer = new Transformer();
-
-      // 1. Firmar ECF completo (con DetallesItems) para guardar localmente
-      const ecfXml = transformer.json2xml(ecfData);
-      const { signedXml: signedEcfXml, securityCode: ecfSecurityCode } = await this.signXml(ecfXml, 'ECF', rnc);
-
-      // 2. Convertir ECF a RFCE (extraer solo Encabezado, sin DetallesItems)
-      const ecfEncabezado = ecfData.ECF?.Encabezado;
-      if (!ecfEncabezado) {
-        throw new AppError('Invalid ECF data: missing Encabezado', 400);
-      }
+  /**
+   * Firma el ECF completo para conservarlo, genera y firma el RFCE a partir de su encabezado y genera el QR,
+   * sin enviarlo a DGII
+   */
+  private async prepareSummary(ecfData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<PreparedSummary> {
+    const env = this.getEnvironment(environment);
+    const transformer = new Transformer();
+
+    // 1. Firmar ECF completo (con DetallesItems) para guardar localmente
+    const ecfXml = transformer.json2xml(ecfData);
+    const { signedXml: signedEcfXml, securityCode: ecfSecurityCode } = await this.signXml(ecfXml, 'ECF', rnc);
+
+    // 2. Convertir ECF a RFCE (extraer solo Encabezado, sin DetallesItems)
+    const ecfEncabezado = ecfData.ECF?.Encabezado;
+    if (!ecfEncabezado) {
+      throw new AppError('Invalid ECF data: missing Encabezado', 400);
+    }
 
-      const rfceData = {
-        RFCE: {
-          Encabezado: {
-            Version: ecfEncabezado.Version || '1.0',
-            IdDoc: {
-              TipoeCF: 32,
-              eNCF: ecfEncabezado.IdDoc?.eNCF || encf,
-              TipoIngresos: ecfEncabezado.IdDoc?.TipoIngresos || '01',
-              TipoPago: ecfEncabezado.IdDoc?.TipoPago || 1,
-            },
-            Emisor: {
-              RNCEmisor: ecfEncabezado.Emisor?.RNCEmisor || rnc,
-              RazonSocialEmisor: ecfEncabezado.Emisor?.RazonSocialEmisor,
-              FechaEmision: ecfEncabezado.Emisor?.FechaEmision,
-            },
-            Comprador: {
-              RNCComprador: ecfEncabezado.Comprador?.RNCComprador,
-              RazonSocialComprador: ecfEncabezado.Comprador?.RazonSocialComprador,
-            },
-            Totales: {
-              MontoGravadoTotal: ecfEncabezado.Totales?.MontoGravadoTotal || 0,
-              MontoGravadoI1: ecfEncabezado.Totales?.MontoGravadoI1 || 0,
-              MontoExento: ecfEncabezado.Totales?.MontoExento || 0,
-              TotalITBIS: ecfEncabezado.Totales?.TotalITBIS || 0,
-              TotalITBIS1: ecfEncabezado.Totales?.TotalITBIS1 || 0,
-              MontoTotal: ecfEncabezado.Totales?.MontoTotal || 0,
-              MontoNoFacturable: ecfEncabezado.Totales?.MontoNoFacturable || 0,
-              MontoPeriodo: ecfEncabezado.Totales?.MontoTotal || 0,
-            },
-            CodigoSeguridadeCF: ecfSecurityCode,
+    const rfceData = {
+      RFCE: {
+        Encabezado: {
+          Version: ecfEncabezado.Version || '1.0',
+          IdDoc: {
+            TipoeCF: 32,
+            eNCF: ecfEncabezado.IdDoc?.eNCF || encf,
+            TipoIngresos: ecfEncabezado.IdDoc?.TipoIngresos || '01',
+            TipoPago: ecfEncabezado.IdDoc?.TipoPago || 1,
+          },
+          Emisor: {
+            RNCEmisor: ecfEncabezado.Emisor?.RNCEmisor || rnc,
+            RazonSocialEmisor: ecfEncabezado.Emisor?.RazonSocialEmisor,
+            FechaEmision: ecfEncabezado.Emisor?.FechaEmision,
           },
+          Comprador: {
+            RNCComprador: ecfEncabezado.Comprador?.RNCComprador,
+            RazonSocialComprador: ecfEncabezado.Comprador?.RazonSocialComprador,
+          },
+          Totales: {
+            MontoGravadoTotal: ecfEncabezado.Totales?.MontoGravadoTotal || 0,
+            MontoGravadoI1: ecfEncabezado.Totales?.MontoGravadoI1 || 0,
+            MontoExento: ecfEncabezado.Totales?.MontoExento || 0,
+            TotalITBIS: ecfEncabezado.Totales?.TotalITBIS || 0,
+            TotalITBIS1: ecfEncabezado.Totales?.TotalITBIS1 || 0,
+            MontoTotal: ecfEncabezado.Totales?.MontoTotal || 0,
+            MontoNoFacturable: ecfEncabezado.Totales?.MontoNoFacturable || 0,
+            MontoPeriodo: ecfEncabezado.Totales?.MontoTotal || 0,
+          },
+          CodigoSeguridadeCF: ecfSecurityCode,
         },
-      };
+      },
+    };
+
+    // 3. Firmar RFCE
+    const rfceXml = transformer.json2xml(rfceData);
+    const { signedXml: signedRfceXml, securityCode: rfceSecurityCode } = await this.signXml(rfceXml, 'RFCE', rnc);
+
+    // 4. Generar QR Code URL (usando FC para facturas de consumo)
+    const qrCodeUrl = generateFcQRCodeURL(
+      rnc,
+      encf,
+      ecfEncabezado.Totales?.MontoTotal || 0,
+      ecfSecurityCode,
+      env
+    );
+
+    return {
+      rnc,
+      encf,
+      signedEcfXml,
+      ecfSecurityCode,
+      signedRfceXml,
+      rfceSecurityCode,
+      qrCodeUrl,
+      baseDocument: {
+        direction: 'emitted',
+        tipoEcf: '32',
+        rncEmisor: rnc,
+        rncComprador: ecfEncabezado.Comprador?.RNCComprador,
+        encf,
+        fileName: `${rnc}${encf}.xml`,
+        environment: environment || config.dgiiEnvironment,
+        fechaEmision: ecfEncabezado.Emisor?.FechaEmision,
+        montoTotal: ecfEncabezado.Totales?.MontoTotal !== undefined ? Number(ecfEncabezado.Totales.MontoTotal) : undefined,
+      },
+    };
+  }
 
-      // 3. Firmar RFCE y enviar a DGII
-      const rfceXml = transformer.json2xml(rfceData);
-      const { signedXml: signedRfceXml, securityCode: rfceSecurityCode } = await this.signXml(rfceXml, 'RFCE', rnc);
+  /**
+   * Firma el ECF completo para conservarlo, genera y firma el RFCE a partir de su encabezado y envía el RFCE a DGII.
+   * En contingencia ambos quedan guardados y el RFCE pendiente de envío.
+   * Los errores se propagan sin envolver para que la cola pueda decidir si reintentar.
+   */
+  private async submitSummaryWithEcf(ecfData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<any> {
+    logger.info(`Sending summary with ECF - RNC: ${rnc}, e-NCF: ${encf}`);
 
-      const response: any = await ecf.sendSummary(signedRfceXml, `${rnc}${encf}.xml`);
+    const summary = await this.prepareSummary(ecfData, rnc, encf, environment);
 
-      logger.info(`Summary with ECF sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
+    return this.submitOrDefer(
+      environment,
+      () => this.submitSummary(summary, environment),
+      () => this.deferSummary(summary)
+    );
+  }
 
-      // 4. Generar QR Code URL (usando FC para facturas de consumo)
-      const qrCodeUrl = generateFcQRCodeURL(
-        rnc,
-        encf,
-        ecfEncabezado.Totales?.MontoTotal || 0,
-        ecfSecurityCode,
-        env
-      );
+  private async submitSummary(summary: PreparedSummary, environment?: string): Promise<any> {
+    const { rnc, encf, baseDocument } = summary;
+
+    const certs = await certificateService.getCertificate(rnc);
+    const env = this.getEnvironment(environment);
+
+    const ecf = new ECF(certs, env);
+    await ecf.authenticate();
+
+    const response: any = await ecf.sendSummary(summary.signedRfceXml, baseDocument.fileName as string);
+
+    logger.info(`Summary with ECF sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
+
+    await sequenceService.markUsed(rnc, encf, baseDocument.environment);
+
+    // El ECF completo es el documento fiscal que debe conservarse; el RFCE queda enlazado a él
+    const documentId = await this.persistDocument({
+      ...baseDocument,
+      documentType: 'ECF',
+      signedXml: summary.signedEcfXml,
+      securityCode: summary.ecfSecurityCode,
+      qrCodeUrl: summary.qrCodeUrl,
+      trackId: response?.trackId,
+      dgiiStatus: response?.estado,
+      dgiiResponse: response,
+    });
+
+    await this.persistDocument({
+      ...baseDocument,
+      documentType: 'RFCE',
+      signedXml: summary.signedRfceXml,
+      securityCode: summary.rfceSecurityCode,
+      trackId: response?.trackId,
+      dgiiStatus: response?.estado,
+      dgiiResponse: response,
+      parentId: documentId,
+    });
+
+    return {
+      ...response,
+      signedEcfXml: summary.signedEcfXml,
+      signedRfceXml: summary.signedRfceXml,
+      ecfSecurityCode: summary.ecfSecurityCode,
+      rfceSecurityCode: summary.rfceSecurityCode,
+      qrCodeUrl: summary.qrCodeUrl,
+      documentId,
+    };
+  }
 
-      return {
-        ...response,
-        signedEcfXml,
-        signedRfceXml,
-        ecfSecurityCode,
-        rfceSecurityCode,
-        qrCodeUrl,
-      };
+  async sendSummaryWithEcf(ecfData: InvoiceData, rnc: string, encf: string, environment?: string): Promise<any> {
+    try {
+      return await this.submitSummaryWithEcf(ecfData, rnc, encf, environment);
     } catch (error: any) {
       logger.error('Error sending summary with ECF:', error);
-      throw new AppError(`Error sending summary with ECF: ${error.message}`, 500);
+      throw wrapError('Error sending summary with ECF', error);
     }
   }
 
@@ -300,7 +936,7 @@ export class DGIIService {
 
       logger.info(`Sending receipt (ARECF) - RNC: ${rnc || 'default'}, File: ${fileName}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       // Agregar namespaces requeridos por DGII al elemento ARECF
@@ -339,14 +975,30 @@ export class DGIIService {
       const response: any = await ecf.sendElectronicDocument(signedXml, fileName);
 
       logger.info(`Receipt sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
+
+      const documentId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'ARECF',
+        rncEmisor: receiptData.ARECF?.DetalleAcusedeRecibo?.RNCEmisor,
+        rncComprador,
+        encf,
+        fileName,
+        signedXml,
+        trackId: response?.trackId,
+        environment: environment || config.dgiiEnvironment,
+        dgiiStatus: response?.estado,
+        dgiiResponse: response,
+      });
+
       return {
         ...response,
         signedXml,
         fileName,
+        documentId,
       };
     } catch (error: any) {
       logger.error('Error sending receipt:', error);
-      throw new AppError(`Error sending receipt: ${error.message}`, 500);
+      throw wrapError('Error sending receipt', error);
     }
   }
 
@@ -354,7 +1006,7 @@ export class DGIIService {
     try {
       logger.info(`Sending commercial approval - RNC: ${rnc || 'default'}, File: ${fileName}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -369,13 +1021,37 @@ export class DGIIService {
 
       logger.info(`Approval sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
 
+      const detalle = approvalData?.ACECF?.DetalleAprobacionComercial;
+      const documentId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'ACECF',
+        rncEmisor: detalle?.RNCEmisor,
+        rncComprador: detalle?.RNCComprador,
+        encf: detalle?.eNCF,
+        fileName,
+        signedXml,
+        trackId: response?.trackId,
+        environment: environment || config.dgiiEnvironment,
+        dgiiStatus: response?.estado,
+        dgiiResponse: response,
+      });
+      await this.recordInboxApproval(
+        detalle?.RNCEmisor,
+        detalle?.eNCF,
+        detalle?.RNCComprador,
+        String(detalle?.Estado),
+        documentId,
+        detalle?.DetalleMotivoRechazo
+      );
+
       return {
         ...response,
         signedXml,
+        documentId,
       };
     } catch (error: any) {
       logger.error('Error sending approval:', error);
-      throw new AppError(`Error sending approval: ${error.message}`, 500);
+      throw wrapError('Error sending approval', error);
     }
   }
 
@@ -383,7 +1059,7 @@ export class DGIIService {
     try {
       logger.info(`Voiding e-NCF sequence - RNC: ${rnc || 'default'}, File: ${fileName}`);
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -398,13 +1074,49 @@ export class DGIIService {
 
       logger.info(`Void sequence sent successfully - TrackID: ${response?.trackId || 'unknown'}`);
 
+      const documentId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'ANECF',
+        rncEmisor: voidData?.ANECF?.Encabezado?.RncEmisor || rnc,
+        fileName,
+        signedXml,
+        trackId: response?.trackId,
+        environment: environment || config.dgiiEnvironment,
+        dgiiStatus: response?.estado,
+        dgiiResponse: response,
+      });
+
       return {
         ...response,
         signedXml,
+        documentId,
       };
     } catch (error: any) {
       logger.error('Error voiding sequence:', error);
-      throw new AppError(`Error voiding sequence: ${error.message}`, 500);
+      throw wrapError('Error voiding sequence', error);
+    }
+  }
+
+  /**
+   * Anula e-NCF del inventario: los marca como anulados, genera el ANECF (agrupando los consecutivos)
+   * y lo envía a DGII. Si el envío falla, los números vuelven a estar disponibles.
+   */
+  async voidEncfs(request: VoidSequenceRequest): Promise<any> {
+    const reservation = await sequenceService.reserveVoid(request);
+    const { voidData, fileName } = sequenceService.toVoidData(reservation);
+
+    try {
+      const result = await this.voidSequence(voidData, fileName, request.rnc, request.environment);
+
+      return {
+        ...result,
+        fileName,
+        cantidadeNCFAnulados: reservation.encfs.length,
+        secuencias: voidData.ANECF.DetalleAnulacion.Anulacion[0].TablaRangoSecuenciasAnuladaseNCF.Secuencias,
+      };
+    } catch (error) {
+      await sequenceService.releaseVoid(reservation);
+      throw error;
     }
   }
 
@@ -421,7 +1133,7 @@ export class DGIIService {
       logger.info(`Getting customer directory for RNC: ${rncToQuery}`);
 
       // Usar el certificado especificado o el por defecto (no el RNC a consultar)
-      const certs = certificateService.getCertificate(certRnc);
+      const certs = await certificateService.getCertificate(certRnc);
       const env = this.getEnvironment(environment);
 
       const ecf = new ECF(certs, env);
@@ -460,13 +1172,16 @@ export class DGIIService {
   /**
    * Procesa un ECF recibido y genera el ARECF firmado como respuesta
    * Este método se usa en el flujo Emisor-Receptor donde el receptor
-   * debe responder con un ARECF firmado al recibir un ECF
+   * debe responder con un ARECF firmado al recibir un ECF.
+   * Si se indica aceptarlo, las reglas de recepción (receptorRulesService) deciden el ARECF:
+   * especificación (1), firma (2), envío duplicado (3) y RNC Comprador (4).
    *
    * @param ecfXml - El XML del ECF recibido
-   * @param rncReceptor - El RNC del receptor (nuestro RNC)
+   * @param rncReceptor - El RNC del receptor (nuestro RNC); sin él, el RNCComprador del ECF
    * @param rnc - RNC para cargar el certificado (opcional)
    * @param accepted - Si se acepta o rechaza el ECF
    * @param rejectCode - Código de rechazo si aplica
+   * @param environment - Ambiente DGII de los documentos guardados; sin él, el del tenant receptor
    * @returns XML del ARECF firmado
    */
   /**
@@ -492,6 +1207,7 @@ export class DGIIService {
         fechaEmision: getTextContent('FechaEmision'),
         montoTotal: getTextContent('MontoTotal'),
         totalITBIS: getTextContent('TotalITBIS'),
+        fechaHoraFirma: getTextContent('FechaHoraFirma'),
       };
     } catch (error) {
       logger.error('Error extracting ECF info:', error);
@@ -499,69 +1215,51 @@ export class DGIIService {
     }
   }
 
-  /**
-   * Envía la información de recepción al webhook de Odoo
-   */
-  private async notifyOdoo(data: {
-    ecfXmlReceived: string;
-    arecfXmlSigned: string;
-    ecfInfo: any;
-    arecfStatus: string;
-    arecfRejectCode?: string;
-    timestamp: string;
-  }): Promise<void> {
-    if (!config.odooWebhookUrl) {
-      logger.info('ODOO_WEBHOOK_URL not configured, skipping Odoo notification');
-      return;
-    }
-
-    try {
-      logger.info(`Sending reception data to Odoo: ${config.odooWebhookUrl}`);
-
-      const response = await axios.post(config.odooWebhookUrl, data, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...(config.odooWebhookApiKey && { 'x-api-key': config.odooWebhookApiKey }),
-        },
-        timeout: 10000, // 10 segundos timeout
-      });
-
-      logger.info(`Odoo notification successful: ${response.status}`);
-    } catch (error: any) {
-      // No lanzar error, solo loguear - el proceso debe continuar
-      logger.error(`Error notifying Odoo: ${error.message}`);
-      if (error.response) {
-        logger.error(`Odoo response: ${JSON.stringify(error.response.data)}`);
-      }
-    }
-  }
-
   async processReceivedEcf(
     ecfXml: string,
-    rncReceptor: string,
+    rncReceptor: string | undefined,
     rnc?: string,
     accepted: boolean = true,
-    rejectCode?: NoReceivedCode
+    rejectCode?: NoReceivedCode,
+    environment?: string
   ): Promise<{ signedArecfXml: string; arecfData: any }> {
     try {
-      logger.info(`Processing received ECF for receptor RNC: ${rncReceptor}`);
+      logger.info(`Processing received ECF for receptor RNC: ${rncReceptor || 'RNCComprador'}`);
 
       // Extraer información del ECF recibido
       const ecfInfo = this.extractEcfInfo(ecfXml);
       logger.info(`ECF Info: eNCF=${ecfInfo.eNCF}, RNCEmisor=${ecfInfo.rncEmisor}`);
 
+      // Antes de acusar recibo se aplican las reglas de recepción; un rechazo manual no se evalúa
+      const decision = accepted ? await receptorRulesService.evaluate(ecfXml, ecfInfo, rncReceptor) : undefined;
+      if (decision && !decision.accepted) {
+        accepted = false;
+        rejectCode = decision.rejectCode as NoReceivedCode;
+      }
+      const receptorRnc = decision?.receptorRnc || rncReceptor || ecfInfo.rncComprador;
+      // Los documentos se guardan en el ambiente de la petición o, si no lo indica, en el del tenant receptor
+      const env = environment || decision?.environment || config.dgiiEnvironment;
+      const ruleViolations = decision?.violations || [];
+      const signatureErrors = ruleViolations.find((violation) => violation.rule === 'signature')?.details || [];
+
       // Determinar el estado del ARECF
       const status = accepted ? ReceivedStatus['e-CF Recibido'] : ReceivedStatus['e-CF No Recibido'];
       const code = accepted ? undefined : rejectCode;
 
-      // Usar la librería dgii-ecf para generar el ARECF desde el ECF recibido
-      const arecfXml = senderReceiver.getECFDataFromXML(ecfXml, rncReceptor, status, code);
+      // Usar la librería dgii-ecf para generar el ARECF desde el ECF recibido. Las reglas ya decidieron
+      // sobre el RNCComprador, así que se pasa el del documento para que la librería no lo vuelva a evaluar
+      const arecfXml = senderReceiver.getECFDataFromXML(
+        ecfXml,
+        decision ? ecfInfo.rncComprador : receptorRnc,
+        status,
+        code
+      );
 
       logger.info('ARECF XML generated, signing...');
       logger.debug('Generated ARECF XML:', arecfXml);
 
-      // Firmar el ARECF con nuestro certificado
-      const { signedXml } = await this.signXml(arecfXml, 'ARECF', rnc);
+      // Firmar el ARECF con nuestro certificado; si el comprador es un tenant, con el suyo
+      const { signedXml } = await this.signXml(arecfXml, 'ARECF', rnc || (decision?.tenantId ? receptorRnc : undefined));
 
       logger.info('ARECF signed successfully');
 
@@ -569,15 +1267,52 @@ export class DGIIService {
       const transformer = new Transformer();
       const arecfData = transformer.xml2Json(signedXml);
 
-      // Enviar notificación a Odoo (en background, no bloquea la respuesta)
-      this.notifyOdoo({
-        ecfXmlReceived: ecfXml,
-        arecfXmlSigned: signedXml,
-        ecfInfo,
-        arecfStatus: status,
-        arecfRejectCode: code,
-        timestamp: new Date().toISOString(),
-      }).catch(err => logger.error('Background Odoo notification failed:', err));
+      // Guardar el ECF tal como fue recibido y el ARECF con el que respondimos. Si no se puede guardar
+      // el e-CF no se responde el ARECF, para que el emisor lo reenvíe en lugar de perder la factura
+      const { id: receivedId } = await documentService.save({
+        direction: 'received',
+        documentType: 'ECF',
+        tipoEcf: ecfInfo.tipoeCF || undefined,
+        rncEmisor: ecfInfo.rncEmisor || undefined,
+        rncComprador: ecfInfo.rncComprador || undefined,
+        encf: ecfInfo.eNCF || undefined,
+        fileName: ecfInfo.rncEmisor && ecfInfo.eNCF ? `${ecfInfo.rncEmisor}${ecfInfo.eNCF}.xml` : undefined,
+        signedXml: ecfXml,
+        environment: env,
+        fechaEmision: ecfInfo.fechaEmision || undefined,
+        montoTotal: ecfInfo.montoTotal ? parseFloat(ecfInfo.montoTotal) : undefined,
+      });
+
+      const arecfStatus = status === ReceivedStatus['e-CF Recibido'] ? 'e-CF Recibido' : 'e-CF No Recibido';
+      const arecfId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'ARECF',
+        rncEmisor: ecfInfo.rncEmisor || undefined,
+        rncComprador: receptorRnc,
+        encf: ecfInfo.eNCF || undefined,
+        signedXml,
+        environment: env,
+        dgiiStatus: arecfStatus,
+        parentId: receivedId,
+      });
+      await inboxService.add(receivedId, arecfId, arecfStatus);
+
+      await webhookService.emit(
+        'ecf.received',
+        {
+          ecfXmlReceived: ecfXml,
+          arecfXmlSigned: signedXml,
+          ecfInfo,
+          arecfStatus: status,
+          arecfRejectCode: code,
+          ruleViolations,
+          signatureErrors,
+          documentId: receivedId,
+          arecfDocumentId: arecfId,
+          timestamp: new Date().toISOString(),
+        },
+        receptorRnc
+      );
 
       return {
         signedArecfXml: signedXml,
@@ -585,10 +1320,74 @@ export class DGIIService {
       };
     } catch (error: any) {
       logger.error('Error processing received ECF:', error);
-      throw new AppError(`Error processing received ECF: ${error.message}`, 500);
+      throw wrapError('Error processing received ECF', error);
     }
   }
 
+  /**
+   * Verifica un documento firmado (de un proveedor, de DGII o propio) sin procesarlo: tipo de documento,
+   * firma XMLDSig, certificado del firmante contra el RNC que debe firmar y código de seguridad.
+   */
+  verifySignedDocument(xml: string): SignatureVerificationResult {
+    const documentType = detectDocumentType(xml);
+    const knownDocumentType = documentType !== null && KNOWN_DOCUMENT_TYPES.includes(documentType);
+
+    const doc = new DOMParser().parseFromString(xml, 'text/xml');
+    const getTextContent = (...tagNames: string[]): string | undefined =>
+      tagNames.map((tagName) => doc.getElementsByTagName(tagName)[0]?.textContent?.trim()).find(Boolean);
+
+    // Los acuses (ARECF) y aprobaciones (ACECF) los firma el comprador; el resto, el emisor
+    const signerRnc =
+      documentType === 'ARECF' || documentType === 'ACECF'
+        ? getTextContent('RNCComprador')
+        : getTextContent('RNCEmisor', 'RncEmisor');
+    // Los documentos sin FechaHoraFirma se verifican a la fecha que registran (acuse, aprobación o anulación)
+    const fechaHoraFirma = getTextContent(
+      'FechaHoraFirma',
+      'FechaHoraAcuseRecibo',
+      'FechaHoraAprobacionComercial',
+      'FechaHoraAnulacioneNCF'
+    );
+    const signedAt = fechaHoraFirma ? parseDgiiDateTime(fechaHoraFirma) : undefined;
+
+    const { errors, x509 } = certificateValidationService.verifySignedXml(xml, signerRnc, signedAt);
+    if (!knownDocumentType) {
+      errors.unshift({
+        check: 'documentType',
+        message: `Unknown document type: ${documentType || 'none'}. Expected one of ${KNOWN_DOCUMENT_TYPES.join(', ')}`,
+      });
+    }
+
+    let securityCode: string | undefined;
+    if (x509) {
+      try {
+        securityCode = getCodeSixDigitfromSignature(xml) as string;
+      } catch (error: any) {
+        logger.warn(`Could not compute security code: ${error.message}`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      documentType,
+      knownDocumentType,
+      encf: getTextContent('eNCF'),
+      signerRnc,
+      signedAt: signedAt?.toISOString(),
+      securityCode,
+      signer: x509 && {
+        subject: x509.subject,
+        issuer: x509.issuer,
+        serialNumber: x509.serialNumber,
+        fingerprint: x509.fingerprint256,
+        validFrom: new Date(x509.validFrom).toISOString(),
+        validTo: new Date(x509.validTo).toISOString(),
+        subjectIds: getSubjectIds(x509),
+      },
+      errors,
+    };
+  }
+
   /**
    * Procesa una petición multipart con un ECF y retorna el ARECF firmado
    * Compatible con el estándar Emisor-Receptor de DGII
@@ -602,9 +1401,10 @@ export class DGIIService {
   async processMultipartEcf(
     body: string,
     contentType: string,
-    rncReceptor: string,
+    rncReceptor: string | undefined,
     rnc?: string,
-    isBase64Encoded: boolean = false
+    isBase64Encoded: boolean = false,
+    environment?: string
   ): Promise<{ signedArecfXml: string; arecfData: any; filename: string }> {
     try {
       logger.info('Processing multipart ECF reception');
@@ -615,7 +1415,7 @@ export class DGIIService {
       logger.info(`Received ECF file: ${filename}`);
 
       // Procesar el ECF y generar el ARECF firmado
-      const result = await this.processReceivedEcf(xmlContent, rncReceptor, rnc);
+      const result = await this.processReceivedEcf(xmlContent, rncReceptor, rnc, true, undefined, environment);
 
       return {
         ...result,
@@ -623,10 +1423,161 @@ export class DGIIService {
       };
     } catch (error: any) {
       logger.error('Error processing multipart ECF:', error);
-      throw new AppError(`Error processing multipart ECF: ${error.message}`, 500);
+      throw wrapError('Error processing multipart ECF', error);
     }
   }
 
+  /**
+   * Procesa una aprobación comercial (ACECF) recibida del comprador de un e-CF emitido por nosotros:
+   * valida su estructura (XSD si está instalado) y la firma del comprador, la asocia al e-CF emitido,
+   * actualiza su estado comercial y la guarda como documento recibido hijo del e-CF.
+   * Si el ACECF no es válido o no corresponde a un e-CF nuestro se lanza 400 sin guardarlo.
+   */
+  async processReceivedAcecf(acecfXml: string): Promise<AcecfReceptionResponse> {
+    try {
+      const acecf = await this.parseReceivedAcecf(acecfXml);
+      logger.info(`Processing received ACECF - eNCF: ${acecf.encf}, RNCComprador: ${acecf.rncComprador}, Estado: ${acecf.estado}`);
+
+      if (config.receivedSignatureVerificationEnabled) {
+        const { errors } = certificateValidationService.verifySignedXml(
+          acecfXml,
+          acecf.rncComprador,
+          parseDgiiDateTime(acecf.fechaHoraAprobacionComercial) || new Date()
+        );
+        if (errors.length) {
+          throw new AppError('Invalid ACECF signature', 400, errors);
+        }
+      }
+
+      // El e-CF emitido por nosotros al que se refiere la aprobación
+      const { items } = await documentService.search({
+        direction: 'emitted',
+        documentType: 'ECF',
+        rncEmisor: acecf.rncEmisor,
+        encf: acecf.encf,
+      });
+      const ecf = items.find((item) => !item.rncComprador || item.rncComprador === acecf.rncComprador);
+      if (!ecf) {
+        throw new AppError(
+          `No emitted e-CF ${acecf.encf} from ${acecf.rncEmisor} to ${acecf.rncComprador} was found`,
+          400
+        );
+      }
+
+      const commercialStatus = acecf.estado === '1' ? 'approved' : 'rejected';
+      const commercialStatusAt = parseDgiiDateTime(acecf.fechaHoraAprobacionComercial)?.toISOString();
+
+      const acecfDocumentId = await this.persistDocument({
+        direction: 'received',
+        documentType: 'ACECF',
+        tipoEcf: ecf.tipoEcf,
+        rncEmisor: acecf.rncEmisor,
+        rncComprador: acecf.rncComprador,
+        encf: acecf.encf,
+        fileName: `${acecf.rncComprador}${acecf.encf}.xml`,
+        signedXml: acecfXml,
+        environment: ecf.environment,
+        dgiiStatus: acecf.estado === '1' ? 'Aprobado' : 'Rechazado',
+        fechaEmision: acecf.fechaEmision,
+        montoTotal: acecf.montoTotal,
+        parentId: ecf.id,
+      });
+      await this.updateDocument(ecf.id, {
+        commercialStatus,
+        commercialStatusReason: acecf.detalleMotivoRechazo || null,
+        commercialStatusAt,
+      });
+
+      logger.info(`Commercial status of ${acecf.encf} updated: ${commercialStatus}`);
+
+      await webhookService.emit(
+        'acecf.received',
+        {
+          acecfInfo: acecf,
+          acecfXml,
+          documentId: ecf.id,
+          acecfDocumentId,
+          commercialStatus,
+          commercialStatusReason: acecf.detalleMotivoRechazo,
+          timestamp: new Date().toISOString(),
+        },
+        acecf.rncEmisor
+      );
+
+      return acecf.estado === '1'
+        ? { codigo: '01', estado: 'Aprobación Comercial Aprobada.', mensaje: [] }
+        : { codigo: '02', estado: 'Aprobacion Comercial Rechazada.', mensaje: [] };
+    } catch (error: any) {
+      logger.error('Error processing received ACECF:', error);
+      throw wrapError('Error processing received ACECF', error);
+    }
+  }
+
+  /**
+   * Igual que processReceivedAcecf, con el ACECF como archivo de una petición multipart
+   */
+  async processMultipartAcecf(body: string, contentType: string): Promise<AcecfReceptionResponse> {
+    try {
+      const { filename, xmlContent } = await senderReceiver.parseMultipart(body, contentType);
+      logger.info(`Received ACECF file: ${filename}`);
+
+      return await this.processReceivedAcecf(xmlContent);
+    } catch (error: any) {
+      logger.error('Error processing multipart ACECF:', error);
+      throw wrapError('Error processing multipart ACECF', error);
+    }
+  }
+
+  /**
+   * Extrae y valida los datos del ACECF: nodo raíz, campos obligatorios, Estado y XSD (si está instalado)
+   */
+  private async parseReceivedAcecf(acecfXml: string): Promise<ReceivedAcecf> {
+    const doc = new DOMParser().parseFromString(acecfXml, 'text/xml');
+    const root = doc.documentElement?.nodeName;
+    if (root !== 'ACECF') {
+      throw new AppError(`The received document root must be ACECF, got ${root || 'none'}`, 400);
+    }
+
+    const getTextContent = (tagName: string): string | undefined =>
+      doc.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+
+    const required = ['RNCEmisor', 'eNCF', 'RNCComprador', 'Estado', 'FechaHoraAprobacionComercial'];
+    const missing = required.filter((tagName) => !getTextContent(tagName));
+    if (missing.length) {
+      throw new AppError(`Invalid ACECF, missing: ${missing.join(', ')}`, 400);
+    }
+
+    const estado = getTextContent('Estado') as string;
+    if (estado !== '1' && estado !== '2') {
+      throw new AppError(`Invalid ACECF Estado: ${estado}. Expected 1 (approved) or 2 (rejected)`, 400);
+    }
+    if (!parseDgiiDateTime(getTextContent('FechaHoraAprobacionComercial') as string)) {
+      throw new AppError('Invalid ACECF FechaHoraAprobacionComercial, expected dd-MM-yyyy HH:mm:ss', 400);
+    }
+
+    try {
+      await xsdValidationService.assertValid(acecfXml);
+    } catch (error: any) {
+      if (error instanceof AppError && error.statusCode === 422) {
+        throw new AppError(error.message, 400, error.details);
+      }
+      // Sin el XSD instalado no es un error del comprador
+      logger.warn(`Could not validate received ACECF against XSD: ${error.message}`);
+    }
+
+    const montoTotal = getTextContent('MontoTotal');
+    return {
+      rncEmisor: getTextContent('RNCEmisor') as string,
+      encf: getTextContent('eNCF') as string,
+      rncComprador: getTextContent('RNCComprador') as string,
+      fechaEmision: getTextContent('FechaEmision'),
+      montoTotal: montoTotal ? parseFloat(montoTotal) : undefined,
+      estado,
+      detalleMotivoRechazo: getTextContent('DetalleMotivoRechazo'),
+      fechaHoraAprobacionComercial: getTextContent('FechaHoraAprobacionComercial') as string,
+    };
+  }
+
   generateQRCode(params: {
     rncEmisor: string;
     rncComprador?: string;
@@ -779,10 +1730,11 @@ export class DGIIService {
 
       logger.info('ACECF signed, sending to DGII...');
 
-      // Enviar a DGII
-      const certs = certificateService.getCertificate(rnc);
+      // Enviar a DGII autenticado con el certificado del comprador, no con el token de la última petición
+      const certs = await certificateService.getCertificate(rnc);
       const env = this.getEnvironment(environment);
       const ecf = new ECF(certs, env);
+      await ecf.authenticate();
 
       // Nombre del archivo: ACECF_RNCComprador_eNCF.xml
       const fileName = `ACECF_${data.rncComprador}_${data.eNCF}.xml`;
@@ -791,15 +1743,40 @@ export class DGIIService {
 
       logger.info('Commercial approval sent successfully');
 
+      const documentId = await this.persistDocument({
+        direction: 'emitted',
+        documentType: 'ACECF',
+        rncEmisor: data.rncEmisor,
+        rncComprador: data.rncComprador,
+        encf: data.eNCF,
+        fileName,
+        signedXml,
+        environment: environment || config.dgiiEnvironment,
+        dgiiStatus: data.estado === '1' ? 'Aprobado' : 'Rechazado',
+        dgiiResponse: response,
+        fechaEmision: data.fechaEmision,
+        montoTotal: data.montoTotal,
+      });
+
+      await this.recordInboxApproval(
+        data.rncEmisor,
+        data.eNCF,
+        data.rncComprador,
+        data.estado,
+        documentId,
+        data.detalleMotivoRechazo
+      );
+
       return {
         success: true,
         response,
         signedXml,
         fileName,
+        documentId,
       };
     } catch (error: any) {
       logger.error('Error sending commercial approval:', error);
-      throw new AppError(`Error sending commercial approval: ${error.message}`, 500);
+      throw wrapError('Error sending commercial approval', error);
     }
   }
 
@@ -860,7 +1837,7 @@ export class DGIIService {
       };
     } catch (error: any) {
       logger.error('Error processing commercial approval:', error);
-      throw new AppError(`Error processing commercial approval: ${error.message}`, 500);
+      throw wrapError('Error processing commercial approval', error);
     }
   }
 
@@ -871,14 +1848,16 @@ export class DGIIService {
    * @param rnc - RNC para cargar el certificado (opcional)
    * @returns XML de la semilla
    */
-  generateSeed(rnc?: string): string {
+  async generateSeed(rnc?: string): Promise<string> {
     try {
       logger.info('Generating authentication seed');
 
-      const certs = certificateService.getCertificate(rnc);
+      const certs = await certificateService.getCertificate(rnc);
       const customAuth = new CustomAuthentication(certs);
 
       const seedXml = customAuth.generateSeed();
+      // Se registra para aceptarla una sola vez y dentro de su vigencia
+      await receptorSeedService.registerSeed(seedXml);
 
       logger.info('Authentication seed generated successfully');
       return seedXml;
@@ -891,6 +1870,7 @@ export class DGIIService {
   /**
    * Valida una semilla firmada y genera un token de autenticación
    * Este método se usa cuando un emisor envía su semilla firmada para autenticarse
+   * La semilla debe haber sido emitida por generateSeed, estar vigente y no haberse usado (401)
    *
    * @param signedSeedXml - XML de la semilla firmada por el emisor
    * @param rnc - RNC para cargar el certificado (opcional)
@@ -900,16 +1880,25 @@ export class DGIIService {
     try {
       logger.info('Validating signed seed');
 
-      const certs = certificateService.getCertificate(rnc);
+      const seedHash = await receptorSeedService.assertSeedAvailable(signedSeedXml);
+
+      const certs = await certificateService.getCertificate(rnc);
       const customAuth = new CustomAuthentication(certs);
 
-      const token = await customAuth.verifySignedSeed(signedSeedXml);
+      let token: string;
+      try {
+        token = await customAuth.verifySignedSeed(signedSeedXml);
+      } catch (error: any) {
+        receptorSeedService.reject('invalidSignature');
+        throw error;
+      }
+      await receptorSeedService.consumeSeed(seedHash);
 
       logger.info('Signed seed validated successfully, token generated');
       return token;
     } catch (error: any) {
       logger.error('Error validating signed seed:', error);
-      throw new AppError(`Error validating signed seed: ${error.message}`, 500);
+      throw wrapError('Error validating signed seed', error);
     }
   }
 }
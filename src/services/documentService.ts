@@ -0,0 +1,262 @@
+import { randomUUID } from 'crypto';
+import database, { Queryable } from '../database';
+import { AppError } from '../middleware/errorHandler';
+import {
+  DgiiMessage,
+  DocumentSearchFilters,
+  DocumentStatusChange,
+  FINAL_DGII_STATUSES,
+  NewStoredDocument,
+  POLLABLE_DOCUMENT_TYPES,
+  StoredDocument,
+} from '../types';
+
+/**
+ * Columnas de la tabla documents indexadas por el nombre de la propiedad en StoredDocument
+ */
+const COLUMNS: Record<keyof StoredDocument, string> = {
+  id: 'id',
+  direction: 'direction',
+  documentType: 'document_type',
+  tipoEcf: 'tipo_ecf',
+  rncEmisor: 'rnc_emisor',
+  rncComprador: 'rnc_comprador',
+  encf: 'encf',
+  fileName: 'file_name',
+  signedXml: 'signed_xml',
+  securityCode: 'security_code',
+  trackId: 'track_id',
+  qrCodeUrl: 'qr_code_url',
+  environment: 'environment',
+  dgiiStatus: 'dgii_status',
+  dgiiResponse: 'dgii_response',
+  fechaEmision: 'fecha_emision',
+  montoTotal: 'monto_total',
+  parentId: 'parent_id',
+  statusCheckedAt: 'status_checked_at',
+  commercialStatus: 'commercial_status',
+  commercialStatusReason: 'commercial_status_reason',
+  commercialStatusAt: 'commercial_status_at',
+  contingencyPeriodId: 'contingency_period_id',
+  contingencyStatus: 'contingency_status',
+  contingencySentAt: 'contingency_sent_at',
+  contingencyError: 'contingency_error',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const JSON_FIELDS: (keyof StoredDocument)[] = ['dgiiResponse'];
+
+const MAX_PAGE_SIZE = 500;
+
+const toColumnValue = (field: keyof StoredDocument, value: any): any => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return JSON_FIELDS.includes(field) ? JSON.stringify(value) : value;
+};
+
+const toStatusChange = (row: any): DocumentStatusChange => ({
+  id: row.id,
+  documentId: row.document_id,
+  trackId: row.track_id || undefined,
+  status: row.status,
+  code: row.code ?? undefined,
+  messages: row.messages ? JSON.parse(row.messages) : [],
+  createdAt: row.created_at,
+});
+
+const toDocument = (row: any): StoredDocument => {
+  const document: any = {};
+  for (const [field, column] of Object.entries(COLUMNS)) {
+    const value = row[column];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    document[field] = JSON_FIELDS.includes(field as keyof StoredDocument) ? JSON.parse(value) : value;
+  }
+  return document as StoredDocument;
+};
+
+/**
+ * Almacén persistente de los documentos emitidos y recibidos (e-CF, RFCE, ARECF, ACECF, ANECF).
+ * DGII exige conservar los XML firmados, por lo que cada documento se guarda tal como fue firmado.
+ */
+export class DocumentService {
+  async save(data: NewStoredDocument, db: Queryable = database): Promise<StoredDocument> {
+    const now = new Date().toISOString();
+    const document = { ...data, id: randomUUID(), createdAt: now, updatedAt: now } as StoredDocument;
+
+    const fields = (Object.keys(COLUMNS) as (keyof StoredDocument)[]).filter(
+      (field) => document[field] !== undefined
+    );
+
+    await db.execute(
+      `INSERT INTO documents (${fields.map((field) => COLUMNS[field]).join(', ')})
+       VALUES (${fields.map(() => '?').join(', ')})`,
+      fields.map((field) => toColumnValue(field, document[field]))
+    );
+
+    return document;
+  }
+
+  async update(id: string, changes: Partial<NewStoredDocument>): Promise<void> {
+    const fields = (Object.keys(changes) as (keyof StoredDocument)[]).filter(
+      (field) => COLUMNS[field] && changes[field as keyof NewStoredDocument] !== undefined
+    );
+
+    if (!fields.length) {
+      return;
+    }
+
+    await database.execute(
+      `UPDATE documents SET ${fields.map((field) => `${COLUMNS[field]} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+      [
+        ...fields.map((field) => toColumnValue(field, changes[field as keyof NewStoredDocument])),
+        new Date().toISOString(),
+        id,
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<StoredDocument | undefined> {
+    const row = await database.queryOne('SELECT * FROM documents WHERE id = ?', [id]);
+    return row ? toDocument(row) : undefined;
+  }
+
+  async getById(id: string): Promise<StoredDocument> {
+    const document = await this.findById(id);
+    if (!document) {
+      throw new AppError(`Document not found: ${id}`, 404);
+    }
+    return document;
+  }
+
+  /**
+   * Busca documentos por filtros. Los resultados no incluyen el XML firmado
+   * para mantener las respuestas livianas; usar getById para obtenerlo.
+   */
+  async search(filters: DocumentSearchFilters): Promise<{ items: Omit<StoredDocument, 'signedXml'>[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const equalityFilters: (keyof DocumentSearchFilters & keyof StoredDocument)[] = [
+      'direction',
+      'documentType',
+      'tipoEcf',
+      'rncEmisor',
+      'rncComprador',
+      'encf',
+      'trackId',
+      'environment',
+      'commercialStatus',
+    ];
+
+    for (const field of equalityFilters) {
+      if (filters[field] !== undefined) {
+        conditions.push(`${COLUMNS[field]} = ?`);
+        params.push(filters[field]);
+      }
+    }
+
+    if (filters.rncs) {
+      const placeholders = filters.rncs.map(() => '?').join(', ') || 'NULL';
+      conditions.push(`(rnc_emisor IN (${placeholders}) OR rnc_comprador IN (${placeholders}))`);
+      params.push(...filters.rncs, ...filters.rncs);
+    }
+
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(filters.from);
+    }
+
+    if (filters.to) {
+      conditions.push('created_at <= ?');
+      params.push(filters.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(filters.limit || 50, MAX_PAGE_SIZE);
+    const offset = filters.offset || 0;
+
+    const columns = Object.values(COLUMNS).filter((column) => column !== COLUMNS.signedXml);
+
+    const rows = await database.query(
+      `SELECT ${columns.join(', ')} FROM documents ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const count = await database.queryOne<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM documents ${where}`,
+      params
+    );
+
+    return {
+      items: rows.map(toDocument),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Documentos emitidos con trackId cuyo estado en DGII aún no es final, solo de los tipos que se consultan
+   * por trackId (POLLABLE_DOCUMENT_TYPES). Se devuelven primero los que llevan más tiempo sin consultarse.
+   */
+  async findPendingStatus(createdSince: string, limit: number): Promise<StoredDocument[]> {
+    const rows = await database.query(
+      `SELECT * FROM documents
+       WHERE direction = 'emitted' AND track_id IS NOT NULL AND created_at >= ?
+         AND document_type IN (${POLLABLE_DOCUMENT_TYPES.map(() => '?').join(', ')})
+         AND (dgii_status IS NULL OR dgii_status NOT IN (${FINAL_DGII_STATUSES.map(() => '?').join(', ')}))
+       ORDER BY COALESCE(status_checked_at, created_at)
+       LIMIT ?`,
+      [createdSince, ...POLLABLE_DOCUMENT_TYPES, ...FINAL_DGII_STATUSES, limit]
+    );
+
+    return rows.map(toDocument);
+  }
+
+  /**
+   * Registra la consulta de estado de un documento. Si el estado cambió, se guarda
+   * en el historial junto con los mensajes de DGII y se actualiza el documento.
+   * Retorna true cuando hubo un cambio de estado.
+   */
+  async recordStatus(
+    document: StoredDocument,
+    status: string,
+    code?: number,
+    messages: DgiiMessage[] = []
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+
+    return database.transaction(async (tx) => {
+      if (document.dgiiStatus === status) {
+        await tx.execute('UPDATE documents SET status_checked_at = ? WHERE id = ?', [now, document.id]);
+        return false;
+      }
+
+      await tx.execute(
+        `INSERT INTO document_status_history (id, document_id, track_id, status, code, messages, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [randomUUID(), document.id, document.trackId || null, status, code ?? null, JSON.stringify(messages), now]
+      );
+      await tx.execute(
+        'UPDATE documents SET dgii_status = ?, status_checked_at = ?, updated_at = ? WHERE id = ?',
+        [status, now, now, document.id]
+      );
+
+      return true;
+    });
+  }
+
+  async getStatusHistory(documentId: string): Promise<DocumentStatusChange[]> {
+    await this.getById(documentId);
+
+    const rows = await database.query(
+      'SELECT * FROM document_status_history WHERE document_id = ? ORDER BY created_at',
+      [documentId]
+    );
+
+    return rows.map(toStatusChange);
+  }
+}
+
+export default new DocumentService();
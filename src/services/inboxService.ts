@@ -0,0 +1,248 @@
+import config from '../config/environment';
+import database from '../database';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { InboxApprovalStatus, InboxEntry, InboxSearchFilters } from '../types';
+
+const MAX_PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Columnas del e-CF recibido (documents) y de la bandeja (inbox); no se incluye el XML
+const SELECT_COLUMNS = `d.id, d.tipo_ecf, d.rnc_emisor, d.rnc_comprador, d.encf, d.fecha_emision, d.monto_total,
+  d.file_name, d.environment, i.created_at, i.arecf_document_id, i.arecf_status, i.approval_status,
+  i.approval_document_id, i.approval_reason, i.approved_at, i.acknowledged_at`;
+
+/**
+ * Plazo para aprobar o rechazar comercialmente un e-CF, contado desde su recepción
+ */
+export const getApprovalDeadline = (receivedAt: string): string =>
+  new Date(new Date(receivedAt).getTime() + config.commercialApprovalDeadlineDays * DAY_MS).toISOString();
+
+const toInboxEntry = (row: any): InboxEntry => ({
+  id: row.id,
+  tipoEcf: row.tipo_ecf || undefined,
+  rncEmisor: row.rnc_emisor || undefined,
+  rncComprador: row.rnc_comprador || undefined,
+  encf: row.encf || undefined,
+  fechaEmision: row.fecha_emision || undefined,
+  montoTotal: row.monto_total ?? undefined,
+  fileName: row.file_name || undefined,
+  environment: row.environment,
+  receivedAt: row.created_at,
+  arecfDocumentId: row.arecf_document_id || undefined,
+  arecfStatus: row.arecf_status,
+  approvalStatus: row.approval_status,
+  // Solo se aprueba comercialmente lo que se acusó como recibido
+  approvalDeadline: row.arecf_status === 'e-CF Recibido' ? getApprovalDeadline(row.created_at) : undefined,
+  approvalDocumentId: row.approval_document_id || undefined,
+  approvalReason: row.approval_reason || undefined,
+  approvedAt: row.approved_at || undefined,
+  acknowledged: Boolean(row.acknowledged_at),
+  acknowledgedAt: row.acknowledged_at || undefined,
+});
+
+/**
+ * Bandeja de entrada de los e-CF recibidos de proveedores. Cada e-CF recibido se guarda junto con
+ * el ARECF con el que se respondió para que los ERP lo consulten (pull) en lugar de depender solo
+ * del webhook ecf.received. El ERP confirma cada documento importado (acknowledge) y puede pedir
+ * únicamente los que aún no confirmó.
+ */
+export class InboxService {
+  async add(documentId: string, arecfDocumentId: string | undefined, arecfStatus: string): Promise<void> {
+    await database.execute(
+      'INSERT INTO inbox (document_id, arecf_document_id, arecf_status, created_at) VALUES (?, ?, ?, ?)',
+      [documentId, arecfDocumentId || null, arecfStatus, new Date().toISOString()]
+    );
+  }
+
+  async getEntry(id: string): Promise<InboxEntry> {
+    const row = await database.queryOne(
+      `SELECT ${SELECT_COLUMNS} FROM inbox i JOIN documents d ON d.id = i.document_id WHERE i.document_id = ?`,
+      [id]
+    );
+    if (!row) {
+      throw new AppError(`Inbox entry not found: ${id}`, 404);
+    }
+    return toInboxEntry(row);
+  }
+
+  /**
+   * e-CF recibidos, los más antiguos primero para que el ERP los importe en orden de llegada
+   */
+  async search(filters: InboxSearchFilters): Promise<{ items: InboxEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const equalityFilters: [keyof InboxSearchFilters, string][] = [
+      ['rncEmisor', 'd.rnc_emisor'],
+      ['rncComprador', 'd.rnc_comprador'],
+      ['tipoEcf', 'd.tipo_ecf'],
+      ['arecfStatus', 'i.arecf_status'],
+      ['approvalStatus', 'i.approval_status'],
+    ];
+
+    for (const [field, column] of equalityFilters) {
+      if (filters[field] !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(filters[field]);
+      }
+    }
+
+    if (filters.rncs) {
+      conditions.push(`d.rnc_comprador IN (${filters.rncs.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...filters.rncs);
+    }
+
+    if (filters.acknowledged !== undefined) {
+      conditions.push(filters.acknowledged ? 'i.acknowledged_at IS NOT NULL' : 'i.acknowledged_at IS NULL');
+    }
+
+    if (filters.from) {
+      conditions.push('i.created_at >= ?');
+      params.push(filters.from);
+    }
+
+    if (filters.to) {
+      conditions.push('i.created_at <= ?');
+      params.push(filters.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(filters.limit || 50, MAX_PAGE_SIZE);
+    const offset = filters.offset || 0;
+
+    const rows = await database.query(
+      `SELECT ${SELECT_COLUMNS} FROM inbox i JOIN documents d ON d.id = i.document_id ${where}
+       ORDER BY i.created_at LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const count = await database.queryOne<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM inbox i JOIN documents d ON d.id = i.document_id ${where}`,
+      params
+    );
+
+    return {
+      items: rows.map(toInboxEntry),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Marca los documentos como importados por el ERP (o los devuelve a pendientes con acknowledged=false).
+   * Retorna cuántos cambiaron; los que ya estaban en ese estado conservan su fecha.
+   */
+  async acknowledge(ids: string[], acknowledged: boolean = true): Promise<number> {
+    if (!ids.length) {
+      return 0;
+    }
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const changed = acknowledged
+      ? await database.execute(
+          `UPDATE inbox SET acknowledged_at = ? WHERE document_id IN (${placeholders}) AND acknowledged_at IS NULL`,
+          [new Date().toISOString(), ...ids]
+        )
+      : await database.execute(
+          `UPDATE inbox SET acknowledged_at = NULL WHERE document_id IN (${placeholders}) AND acknowledged_at IS NOT NULL`,
+          ids
+        );
+
+    logger.info(`Inbox entries ${acknowledged ? 'acknowledged' : 'unacknowledged'}: ${changed}`);
+    return changed;
+  }
+
+  /**
+   * Registra la aprobación comercial (ACECF) enviada para el e-CF recibido del emisor
+   */
+  async recordApproval(
+    rncEmisor: string,
+    encf: string,
+    rncComprador: string,
+    approvalStatus: InboxApprovalStatus,
+    approvalDocumentId?: string,
+    approvalReason?: string
+  ): Promise<number> {
+    return database.execute(
+      `UPDATE inbox SET approval_status = ?, approval_document_id = ?, approval_reason = ?, approved_at = ?
+       WHERE document_id IN (
+         SELECT id FROM documents
+         WHERE direction = 'received' AND document_type = 'ECF' AND rnc_emisor = ? AND encf = ? AND rnc_comprador = ?
+       )`,
+      [
+        approvalStatus,
+        approvalDocumentId || null,
+        approvalReason || null,
+        new Date().toISOString(),
+        rncEmisor,
+        encf,
+        rncComprador,
+      ]
+    );
+  }
+
+  /**
+   * e-CF recibidos pendientes de aprobación comercial cuyo plazo vence antes de la fecha indicada,
+   * con el último umbral de recordatorio enviado
+   */
+  async findPendingApprovals(deadlineBefore: string): Promise<(InboxEntry & { remindedDays?: number })[]> {
+    const receivedBefore = new Date(
+      new Date(deadlineBefore).getTime() - config.commercialApprovalDeadlineDays * DAY_MS
+    ).toISOString();
+
+    const rows = await database.query(
+      `SELECT ${SELECT_COLUMNS}, i.approval_reminded_days FROM inbox i JOIN documents d ON d.id = i.document_id
+       WHERE i.approval_status = 'pending' AND i.arecf_status = 'e-CF Recibido' AND i.created_at <= ?
+       ORDER BY i.created_at`,
+      [receivedBefore]
+    );
+
+    return rows.map((row) => ({ ...toInboxEntry(row), remindedDays: row.approval_reminded_days ?? undefined }));
+  }
+
+  /**
+   * Registra el umbral de recordatorio alcanzado. Retorna false si ya se recordó ese umbral o uno menor
+   */
+  async markReminded(id: string, days: number): Promise<boolean> {
+    const updated = await database.execute(
+      `UPDATE inbox SET approval_reminded_days = ?
+       WHERE document_id = ? AND (approval_reminded_days IS NULL OR approval_reminded_days > ?)`,
+      [days, id, days]
+    );
+    return updated > 0;
+  }
+
+  /**
+   * Reserva un e-CF pendiente para enviar su ACECF (sending), de modo que dos decisiones simultáneas
+   * no envíen dos ACECF. Retorna false si ya no estaba pendiente
+   */
+  async claimApproval(id: string): Promise<boolean> {
+    const updated = await database.execute(
+      "UPDATE inbox SET approval_status = 'sending' WHERE document_id = ? AND approval_status = 'pending'",
+      [id]
+    );
+    return updated > 0;
+  }
+
+  /**
+   * Devuelve a pendiente un e-CF reservado cuyo ACECF no se pudo enviar
+   */
+  async releaseApproval(id: string): Promise<void> {
+    await database.execute(
+      "UPDATE inbox SET approval_status = 'pending' WHERE document_id = ? AND approval_status = 'sending'",
+      [id]
+    );
+  }
+
+  /**
+   * Marca como vencido un e-CF aún pendiente de aprobación. Retorna false si ya no estaba pendiente
+   */
+  async markExpired(id: string): Promise<boolean> {
+    const updated = await database.execute(
+      "UPDATE inbox SET approval_status = 'expired' WHERE document_id = ? AND approval_status = 'pending'",
+      [id]
+    );
+    return updated > 0;
+  }
+}
+
+export default new InboxService();
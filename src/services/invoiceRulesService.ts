@@ -0,0 +1,325 @@
+import config from '../config/environment';
+import { AppError } from '../middleware/errorHandler';
+import { InvoiceComputedTotals, InvoiceData, InvoiceRuleViolation, InvoiceRulesResult } from '../types';
+
+/**
+ * Tasas de ITBIS por IndicadorFacturacion: 1 = 18%, 2 = 16%, 3 = 0%
+ */
+export const ITBIS_RATES: Record<1 | 2 | 3, number> = { 1: 18, 2: 16, 3: 0 };
+
+// IndicadorFacturacion: 0 = no facturable, 4 = exento
+const INDICADOR_NO_FACTURABLE = 0;
+const INDICADOR_EXENTO = 4;
+
+interface RuleContext {
+  ecf: any;
+  items: any[];
+  totales: any;
+  computed: InvoiceComputedTotals;
+}
+
+type InvoiceRule = (context: RuleContext) => InvoiceRuleViolation[];
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toNumber = (value: any): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && value !== '';
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+const itemXPath = (items: any[], index: number): string =>
+  items.length > 1 ? `/ECF/DetallesItems/Item[${index + 1}]` : '/ECF/DetallesItems/Item';
+
+/**
+ * Compara un campo declarado contra el valor esperado. Si el campo no viene y el valor esperado
+ * es distinto de cero también es una discrepancia (DGII exige el campo en ese caso).
+ */
+const compare = (
+  rule: string,
+  xpath: string,
+  actual: any,
+  expected: number,
+  tolerance: number
+): InvoiceRuleViolation[] => {
+  if (!hasValue(actual)) {
+    return expected !== 0
+      ? [{ rule, xpath, message: `Missing value, expected ${expected.toFixed(2)}`, expected, actual: null }]
+      : [];
+  }
+
+  const value = toNumber(actual);
+  if (Math.abs(value - expected) <= tolerance + Number.EPSILON) {
+    return [];
+  }
+
+  return [
+    {
+      rule,
+      xpath,
+      message: `Declared ${value.toFixed(2)}, expected ${expected.toFixed(2)} (difference ${(value - expected).toFixed(2)})`,
+      expected,
+      actual: value,
+    },
+  ];
+};
+
+/**
+ * MontoItem = CantidadItem × PrecioUnitarioItem − DescuentoMonto + RecargoMonto
+ */
+const itemAmounts: InvoiceRule = ({ items }) =>
+  items.flatMap((item, index) => {
+    if (!hasValue(item.CantidadItem) || !hasValue(item.PrecioUnitarioItem)) {
+      return [];
+    }
+
+    const expected = round2(
+      toNumber(item.CantidadItem) * toNumber(item.PrecioUnitarioItem) - toNumber(item.DescuentoMonto) + toNumber(item.RecargoMonto)
+    );
+
+    return compare('item.monto', `${itemXPath(items, index)}/MontoItem`, item.MontoItem, expected, config.invoiceItemTolerance);
+  });
+
+const itemIndicators: InvoiceRule = ({ items }) =>
+  items.flatMap((item, index) => {
+    const indicador = toNumber(item.IndicadorFacturacion);
+    if (hasValue(item.IndicadorFacturacion) && [0, 1, 2, 3, 4].includes(indicador)) {
+      return [];
+    }
+    return [
+      {
+        rule: 'item.indicadorFacturacion',
+        xpath: `${itemXPath(items, index)}/IndicadorFacturacion`,
+        message: `Invalid IndicadorFacturacion: ${item.IndicadorFacturacion ?? 'missing'}. Allowed: 0, 1, 2, 3, 4`,
+        expected: null,
+        actual: item.IndicadorFacturacion ?? null,
+      },
+    ];
+  });
+
+const gravadoAmounts: InvoiceRule = ({ totales, computed }) => {
+  const xpath = '/ECF/Encabezado/Totales';
+  const tolerance = config.invoiceTotalsTolerance;
+
+  return [
+    ...compare('totales.montoGravadoI1', `${xpath}/MontoGravadoI1`, totales.MontoGravadoI1, computed.montoGravadoI1, tolerance),
+    ...compare('totales.montoGravadoI2', `${xpath}/MontoGravadoI2`, totales.MontoGravadoI2, computed.montoGravadoI2, tolerance),
+    ...compare('totales.montoGravadoI3', `${xpath}/MontoGravadoI3`, totales.MontoGravadoI3, computed.montoGravadoI3, tolerance),
+    ...compare('totales.montoGravadoTotal', `${xpath}/MontoGravadoTotal`, totales.MontoGravadoTotal, computed.montoGravadoTotal, tolerance),
+    ...compare('totales.montoExento', `${xpath}/MontoExento`, totales.MontoExento, computed.montoExento, tolerance),
+    ...compare('totales.montoNoFacturable', `${xpath}/MontoNoFacturable`, totales.MontoNoFacturable, computed.montoNoFacturable, tolerance),
+  ];
+};
+
+/**
+ * ITBIS1/ITBIS2/ITBIS3 son las tasas (18, 16 y 0) y deben venir cuando hay monto gravado en esa tasa
+ */
+const itbisRates: InvoiceRule = ({ totales, computed }) => {
+  const gravados: Record<1 | 2 | 3, number> = { 1: computed.montoGravadoI1, 2: computed.montoGravadoI2, 3: computed.montoGravadoI3 };
+
+  return ([1, 2, 3] as const).flatMap((indicador) => {
+    const field = `ITBIS${indicador}`;
+    const declared = totales[field];
+    const expected = ITBIS_RATES[indicador];
+
+    if (!hasValue(declared) && gravados[indicador] === 0) {
+      return [];
+    }
+
+    if (hasValue(declared) && toNumber(declared) === expected) {
+      return [];
+    }
+
+    return [
+      {
+        rule: `totales.itbis${indicador}Rate`,
+        xpath: `/ECF/Encabezado/Totales/${field}`,
+        message: hasValue(declared)
+          ? `Invalid ITBIS rate ${declared}, expected ${expected}`
+          : `Missing ITBIS rate, expected ${expected}`,
+        expected,
+        actual: hasValue(declared) ? toNumber(declared) : null,
+      },
+    ];
+  });
+};
+
+const itbisAmounts: InvoiceRule = ({ totales, computed }) => {
+  const xpath = '/ECF/Encabezado/Totales';
+  const tolerance = config.invoiceTotalsTolerance;
+
+  return [
+    ...compare('totales.totalITBIS1', `${xpath}/TotalITBIS1`, totales.TotalITBIS1, computed.totalITBIS1, tolerance),
+    ...compare('totales.totalITBIS2', `${xpath}/TotalITBIS2`, totales.TotalITBIS2, computed.totalITBIS2, tolerance),
+    ...compare('totales.totalITBIS3', `${xpath}/TotalITBIS3`, totales.TotalITBIS3, computed.totalITBIS3, tolerance),
+    ...compare('totales.totalITBIS', `${xpath}/TotalITBIS`, totales.TotalITBIS, computed.totalITBIS, tolerance),
+  ];
+};
+
+const montoTotal: InvoiceRule = ({ totales, computed }) =>
+  compare('totales.montoTotal', '/ECF/Encabezado/Totales/MontoTotal', totales.MontoTotal, computed.montoTotal, config.invoiceTotalsTolerance);
+
+const retenciones: InvoiceRule = ({ totales, computed }) => {
+  const xpath = '/ECF/Encabezado/Totales';
+  const tolerance = config.invoiceTotalsTolerance;
+
+  return [
+    ...compare('totales.totalITBISRetenido', `${xpath}/TotalITBISRetenido`, totales.TotalITBISRetenido, computed.totalITBISRetenido, tolerance),
+    ...compare('totales.totalISRRetencion', `${xpath}/TotalISRRetencion`, totales.TotalISRRetencion, computed.totalISRRetencion, tolerance),
+  ];
+};
+
+/**
+ * Cada subtotal debe ser consistente consigo mismo (las líneas que agrupa no se identifican en el e-CF)
+ */
+const subtotales: InvoiceRule = ({ ecf }) =>
+  asArray(ecf.Subtotales?.Subtotal).flatMap((subtotal: any, index, all) => {
+    const xpath = all.length > 1 ? `/ECF/Subtotales/Subtotal[${index + 1}]` : '/ECF/Subtotales/Subtotal';
+    const tolerance = config.invoiceTotalsTolerance;
+
+    const gravado = round2(
+      toNumber(subtotal.SubTotalMontoGravadoI1) + toNumber(subtotal.SubTotalMontoGravadoI2) + toNumber(subtotal.SubTotalMontoGravadoI3)
+    );
+    const itbis = round2(toNumber(subtotal.SubTotaITBIS1) + toNumber(subtotal.SubTotaITBIS2) + toNumber(subtotal.SubTotaITBIS3));
+    const total = round2(
+      toNumber(subtotal.SubTotalMontoGravadoTotal) +
+        toNumber(subtotal.SubTotaITBIS) +
+        toNumber(subtotal.SubTotalImpuestoAdicional) +
+        toNumber(subtotal.SubTotalExento)
+    );
+
+    return [
+      ...(hasValue(subtotal.SubTotalMontoGravadoTotal)
+        ? compare('subtotal.montoGravadoTotal', `${xpath}/SubTotalMontoGravadoTotal`, subtotal.SubTotalMontoGravadoTotal, gravado, tolerance)
+        : []),
+      ...(hasValue(subtotal.SubTotaITBIS)
+        ? compare('subtotal.itbis', `${xpath}/SubTotaITBIS`, subtotal.SubTotaITBIS, itbis, tolerance)
+        : []),
+      ...(hasValue(subtotal.MontoSubTotal)
+        ? compare('subtotal.montoSubTotal', `${xpath}/MontoSubTotal`, subtotal.MontoSubTotal, total, tolerance)
+        : []),
+    ];
+  });
+
+const RULES: InvoiceRule[] = [
+  itemIndicators,
+  itemAmounts,
+  gravadoAmounts,
+  itbisRates,
+  itbisAmounts,
+  montoTotal,
+  retenciones,
+  subtotales,
+];
+
+/**
+ * Reglas de negocio de DGII sobre los montos del e-CF: recalcula los totales desde
+ * DetallesItems y DescuentosORecargos y reporta cada diferencia con el valor esperado.
+ *
+ * Complementa la validación XSD: un e-CF puede cumplir el esquema y aun así ser rechazado
+ * porque Totales no cuadra con las líneas.
+ */
+export class InvoiceRulesService {
+  /**
+   * Totales esperados según las líneas. Si IndicadorMontoGravado = 1 los montos de las líneas
+   * incluyen ITBIS y el monto gravado se obtiene descontándolo.
+   */
+  computeTotals(invoiceData: InvoiceData): InvoiceComputedTotals {
+    const ecf: any = invoiceData?.ECF || {};
+    const items = asArray(ecf.DetallesItems?.Item);
+    const totales = ecf.Encabezado?.Totales || {};
+    const itbisIncluded = toNumber(ecf.Encabezado?.IdDoc?.IndicadorMontoGravado) === 1;
+
+    const buckets: Record<number, number> = { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0 };
+
+    for (const item of items) {
+      const indicador = toNumber(item.IndicadorFacturacion);
+      if (indicador in buckets) {
+        buckets[indicador] += toNumber(item.MontoItem);
+      }
+    }
+
+    // Descuentos y recargos globales afectan el monto de la tasa indicada
+    for (const ajuste of asArray<any>(ecf.DescuentosORecargos?.DescuentoORecargo)) {
+      const indicador = toNumber(ajuste.IndicadorFacturacionDescuentooRecargo);
+      if (!(indicador in buckets)) {
+        continue;
+      }
+      const monto = toNumber(ajuste.MontoDescuentooRecargo);
+      buckets[indicador] += ajuste.TipoAjuste === 'R' ? monto : -monto;
+    }
+
+    const gravado = (indicador: 1 | 2 | 3): number =>
+      round2(itbisIncluded ? buckets[indicador] / (1 + ITBIS_RATES[indicador] / 100) : buckets[indicador]);
+
+    const montoGravadoI1 = gravado(1);
+    const montoGravadoI2 = gravado(2);
+    const montoGravadoI3 = gravado(3);
+    const montoGravadoTotal = round2(montoGravadoI1 + montoGravadoI2 + montoGravadoI3);
+    const montoExento = round2(buckets[INDICADOR_EXENTO]);
+    const montoNoFacturable = round2(buckets[INDICADOR_NO_FACTURABLE]);
+
+    const totalITBIS1 = round2((montoGravadoI1 * ITBIS_RATES[1]) / 100);
+    const totalITBIS2 = round2((montoGravadoI2 * ITBIS_RATES[2]) / 100);
+    const totalITBIS3 = round2((montoGravadoI3 * ITBIS_RATES[3]) / 100);
+    const totalITBIS = round2(totalITBIS1 + totalITBIS2 + totalITBIS3);
+
+    // El impuesto adicional se toma tal como fue declarado; su base depende del tipo de impuesto
+    const montoImpuestoAdicional = round2(toNumber(totales.MontoImpuestoAdicional));
+
+    const retenido = (field: string) =>
+      round2(items.reduce((total, item) => total + toNumber(item.Retencion?.[field]), 0));
+
+    return {
+      montoGravadoI1,
+      montoGravadoI2,
+      montoGravadoI3,
+      montoGravadoTotal,
+      montoExento,
+      montoNoFacturable,
+      totalITBIS1,
+      totalITBIS2,
+      totalITBIS3,
+      totalITBIS,
+      montoImpuestoAdicional,
+      montoTotal: round2(montoGravadoTotal + montoExento + totalITBIS + montoImpuestoAdicional),
+      totalITBISRetenido: retenido('MontoITBISRetenido'),
+      totalISRRetencion: retenido('MontoISRRetenido'),
+    };
+  }
+
+  validate(invoiceData: InvoiceData): InvoiceRulesResult {
+    const ecf: any = invoiceData?.ECF || {};
+    const context: RuleContext = {
+      ecf,
+      items: asArray(ecf.DetallesItems?.Item),
+      totales: ecf.Encabezado?.Totales || {},
+      computed: this.computeTotals(invoiceData),
+    };
+
+    const errors = RULES.flatMap((rule) => rule(context));
+
+    return { valid: errors.length === 0, errors, computed: context.computed };
+  }
+
+  /**
+   * Igual que validate, pero lanza 422 con las discrepancias si los montos no cuadran
+   */
+  validateOrThrow(invoiceData: InvoiceData): InvoiceRulesResult {
+    const result = this.validate(invoiceData);
+    if (!result.valid) {
+      throw new AppError(`Invoice totals do not match the items: ${result.errors.length} error(s)`, 422, result.errors);
+    }
+    return result;
+  }
+}
+
+export default new InvoiceRulesService();
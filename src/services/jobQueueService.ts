@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import database from '../database';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { isRetryableError } from '../utils/errors';
+import { Job, JobStatus } from '../types';
+
+export type JobHandler<TPayload = any, TResult = any> = (payload: TPayload, job: Job<TPayload>) => Promise<TResult>;
+
+// Se ejecuta cuando el trabajo falla definitivamente, p.ej. para liberar lo que se reservó al encolarlo
+export type JobFailureHandler<TPayload = any> = (payload: TPayload, job: Job<TPayload>, error: Error) => Promise<void>;
+
+export interface EnqueueOptions {
+  reference?: string;
+  rnc?: string; // RNC al que pertenece el trabajo; limita qué tenant puede consultarlo
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const BATCH_SIZE = 10;
+
+const toJob = (row: any): Job => ({
+  id: row.id,
+  type: row.type,
+  status: row.status,
+  payload: JSON.parse(row.payload),
+  result: row.result ? JSON.parse(row.result) : undefined,
+  reference: row.reference || undefined,
+  rnc: row.rnc || undefined,
+  attempts: Number(row.attempts),
+  maxAttempts: Number(row.max_attempts),
+  runAt: row.run_at,
+  lastError: row.last_error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at || undefined,
+});
+
+/**
+ * Cola de trabajos persistente en la base de datos.
+ *
+ * Los trabajos sobreviven reinicios del servicio. Un worker los procesa en segundo plano
+ * y reintenta con backoff exponencial cuando la falla es transitoria (red o 5xx);
+ * cualquier otro error marca el trabajo como fallido de inmediato.
+ */
+export class JobQueueService {
+  private handlers: Map<string, JobHandler> = new Map();
+  private failureHandlers: Map<string, JobFailureHandler> = new Map();
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  registerHandler<TPayload, TResult>(
+    type: string,
+    handler: JobHandler<TPayload, TResult>,
+    onFailure?: JobFailureHandler<TPayload>
+  ): void {
+    this.handlers.set(type, handler as JobHandler);
+    if (onFailure) {
+      this.failureHandlers.set(type, onFailure as JobFailureHandler);
+    }
+  }
+
+  async enqueue<TPayload>(type: string, payload: TPayload, options: EnqueueOptions = {}): Promise<Job<TPayload>> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+
+    await database.execute(
+      `INSERT INTO jobs (id, type, status, payload, reference, rnc, attempts, max_attempts, run_at, created_at, updated_at)
+       VALUES (?, ?, 'queued', ?, ?, ?, 0, ?, ?, ?, ?)`,
+      [
+        id,
+        type,
+        JSON.stringify(payload),
+        options.reference || null,
+        options.rnc || null,
+        options.maxAttempts || config.jobMaxAttempts,
+        (options.runAt || new Date()).toISOString(),
+        now,
+        now,
+      ]
+    );
+
+    logger.info(`Job queued - ID: ${id}, Type: ${type}${options.reference ? `, Ref: ${options.reference}` : ''}`);
+
+    // Procesar de inmediato sin esperar al siguiente ciclo del worker
+    if (this.timer) {
+      setImmediate(() => this.processDueJobs());
+    }
+
+    return (await this.getJob(id)) as Job<TPayload>;
+  }
+
+  async getJob(id: string): Promise<Job> {
+    const row = await database.queryOne('SELECT * FROM jobs WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Job not found: ${id}`, 404);
+    }
+    return toJob(row);
+  }
+
+  async listJobs(filters: {
+    status?: JobStatus;
+    type?: string;
+    reference?: string;
+    rncs?: string[];
+    limit?: number;
+  }): Promise<Job[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.type) {
+      conditions.push('type = ?');
+      params.push(filters.type);
+    }
+    if (filters.reference) {
+      conditions.push('reference = ?');
+      params.push(filters.reference);
+    }
+    if (filters.rncs) {
+      conditions.push(`rnc IN (${filters.rncs.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...filters.rncs);
+    }
+
+    const rows = await database.query(
+      `SELECT * FROM jobs ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC LIMIT ?`,
+      [...params, Math.min(filters.limit || 50, 500)]
+    );
+
+    return rows.map(toJob);
+  }
+
+  /**
+   * Vuelve a encolar un trabajo fallido con un nuevo ciclo de intentos
+   */
+  async retry(id: string): Promise<Job> {
+    const job = await this.getJob(id);
+    if (job.status !== 'failed') {
+      throw new AppError(`Only failed jobs can be retried (job ${id} is ${job.status})`, 409);
+    }
+
+    await database.execute(
+      "UPDATE jobs SET status = 'queued', attempts = 0, run_at = ?, updated_at = ? WHERE id = ?",
+      [new Date().toISOString(), new Date().toISOString(), id]
+    );
+
+    if (this.timer) {
+      setImmediate(() => this.processDueJobs());
+    }
+
+    return this.getJob(id);
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    // Trabajos que quedaron "processing" por una caída del servicio se vuelven a encolar
+    const recovered = await database.execute(
+      "UPDATE jobs SET status = 'queued', updated_at = ? WHERE status = 'processing'",
+      [new Date().toISOString()]
+    );
+    if (recovered) {
+      logger.warn(`Recovered ${recovered} interrupted job(s)`);
+    }
+
+    this.timer = setInterval(() => this.processDueJobs(), config.jobPollIntervalMs);
+    this.timer.unref();
+    logger.info(`Job queue worker started (interval: ${config.jobPollIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Job queue worker stopped');
+    }
+  }
+
+  async processDueJobs(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const rows = await database.query(
+        "SELECT * FROM jobs WHERE status = 'queued' AND run_at <= ? ORDER BY run_at, created_at LIMIT ?",
+        [new Date().toISOString(), BATCH_SIZE]
+      );
+
+      for (const row of rows) {
+        await this.runJob(toJob(row));
+      }
+    } catch (error: any) {
+      logger.error(`Job queue worker error: ${error.message}`);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    // Reclamar el trabajo; si otro proceso ya lo tomó, no hay filas afectadas
+    const claimed = await database.execute(
+      "UPDATE jobs SET status = 'processing', attempts = attempts + 1, updated_at = ? WHERE id = ? AND status = 'queued'",
+      [new Date().toISOString(), job.id]
+    );
+    if (!claimed) {
+      return;
+    }
+
+    const attempts = job.attempts + 1;
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new AppError(`No handler registered for job type: ${job.type}`, 500);
+      }
+
+      const result = await handler(job.payload, { ...job, attempts });
+      const now = new Date().toISOString();
+
+      await database.execute(
+        "UPDATE jobs SET status = 'completed', result = ?, last_error = NULL, updated_at = ?, completed_at = ? WHERE id = ?",
+        [JSON.stringify(result ?? null), now, now, job.id]
+      );
+
+      logger.info(`Job completed - ID: ${job.id}, Type: ${job.type}, Attempts: ${attempts}`);
+    } catch (error: any) {
+      const now = new Date();
+      const canRetry = isRetryableError(error) && attempts < job.maxAttempts;
+
+      if (canRetry) {
+        const delay = Math.min(config.jobRetryBaseDelayMs * 2 ** (attempts - 1), config.jobRetryMaxDelayMs);
+        const runAt = new Date(now.getTime() + delay).toISOString();
+
+        await database.execute(
+          "UPDATE jobs SET status = 'queued', run_at = ?, last_error = ?, updated_at = ? WHERE id = ?",
+          [runAt, error.message, now.toISOString(), job.id]
+        );
+
+        logger.warn(`Job failed, retrying in ${delay}ms - ID: ${job.id}, Attempt: ${attempts}/${job.maxAttempts}, Error: ${error.message}`);
+      } else {
+        await database.execute(
+          "UPDATE jobs SET status = 'failed', last_error = ?, updated_at = ?, completed_at = ? WHERE id = ?",
+          [error.message, now.toISOString(), now.toISOString(), job.id]
+        );
+
+        logger.error(`Job failed permanently - ID: ${job.id}, Type: ${job.type}, Attempts: ${attempts}, Error: ${error.message}`);
+
+        await this.runFailureHandler({ ...job, attempts }, error);
+      }
+    }
+  }
+
+  private async runFailureHandler(job: Job, error: Error): Promise<void> {
+    const onFailure = this.failureHandlers.get(job.type);
+    if (!onFailure) {
+      return;
+    }
+
+    try {
+      await onFailure(job.payload, job, error);
+    } catch (failureError: any) {
+      logger.error(`Job failure handler error - ID: ${job.id}, Type: ${job.type}, Error: ${failureError.message}`);
+    }
+  }
+}
+
+export default new JobQueueService();
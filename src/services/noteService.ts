@@ -0,0 +1,307 @@
+import { Transformer } from 'dgii-ecf';
+import database, { Queryable } from '../database';
+import { createEcfBuilder, EcfItemInput } from '../builders';
+import { AppError } from '../middleware/errorHandler';
+import documentService from './documentService';
+import simpleInvoiceService, { CODIGO_MODIFICACION } from './simpleInvoiceService';
+import { isoToDgiiDate, todayIsoDate } from '../utils/dates';
+import {
+  BuiltNote,
+  CreateNoteRequest,
+  Ecf,
+  EcfRetencion,
+  EcfTipo,
+  InvoiceData,
+  NewStoredDocument,
+  NoteKind,
+  NoteLine,
+  StoredDocument,
+} from '../types';
+
+const NOTE_TIPOS: Record<NoteKind, EcfTipo> = {
+  credit: 34,
+  debit: 33,
+};
+
+// Una nota modifica facturas y comprobantes, no otras notas
+const NOTE_TIPOS_ECF = ['33', '34'];
+
+// Diferencia de redondeo aceptada al comparar el total acreditado con el de la factura
+const CREDIT_TOLERANCE = 0.01;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toNumber = (value: any): number => Number(value) || 0;
+
+const toArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Convierte el resultado de Transformer.xml2Json (formato compacto de xml-js) al JSON de e-CF:
+ * los textos quedan como valores y se descartan atributos y declaraciones
+ */
+const fromXmlJson = (node: any): any => {
+  if (Array.isArray(node)) {
+    return node.map(fromXmlJson);
+  }
+  if (node === null || typeof node !== 'object') {
+    return node;
+  }
+  if ('_text' in node) {
+    return node._text;
+  }
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (!key.startsWith('_')) {
+      result[key] = fromXmlJson(value);
+    }
+  }
+  return result;
+};
+
+const prorateRetencion = (retencion: EcfRetencion | undefined, ratio: number): EcfRetencion | undefined => {
+  if (!retencion) {
+    return undefined;
+  }
+  return {
+    IndicadorAgenteRetencionoPercepcion: retencion.IndicadorAgenteRetencionoPercepcion,
+    MontoITBISRetenido:
+      retencion.MontoITBISRetenido !== undefined ? round2(toNumber(retencion.MontoITBISRetenido) * ratio) : undefined,
+    MontoISRRetenido:
+      retencion.MontoISRRetenido !== undefined ? round2(toNumber(retencion.MontoISRRetenido) * ratio) : undefined,
+  };
+};
+
+/**
+ * Construye notas de crédito (34) y débito (33) a partir de un e-CF emitido y guardado en el almacén.
+ *
+ * Emisor, comprador, condiciones y líneas se toman del XML firmado del original, y InformacionReferencia
+ * (NCFModificado, FechaNCFModificado, CodigoModificacion) se completa con sus datos. Cada línea se incluye
+ * completa, por una cantidad menor (descuentos, recargos y retenciones proporcionales) o por un monto.
+ * Las notas de crédito no pueden acumular más que el total del original.
+ */
+export class NoteService {
+  async buildNote(kind: NoteKind, originalEncf: string, rnc: string, request: Omit<CreateNoteRequest, 'rnc'>): Promise<BuiltNote> {
+    const original = await this.findOriginal(rnc, originalEncf, request.environment);
+    const ecf = this.parseEcf(original.signedXml);
+    const { IdDoc: idDoc, Emisor: emisor, Comprador: comprador, OtraMoneda: otraMoneda } = ecf.Encabezado;
+
+    const builder = createEcfBuilder(NOTE_TIPOS[kind]);
+    const issueDate = todayIsoDate();
+
+    const items = this.toItems(kind, originalEncf, toArray(ecf.DetallesItems?.Item), request.lines);
+    // Los descuentos y recargos globales solo se conservan si la nota incluye todas las líneas
+    const descuentosORecargos = request.lines ? [] : toArray(ecf.DescuentosORecargos?.DescuentoORecargo);
+
+    builder
+      .idDoc({
+        eNCF: request.encf,
+        FechaVencimientoSecuencia: request.sequenceExpiryDate ? isoToDgiiDate(request.sequenceExpiryDate) : undefined,
+        IndicadorNotaCredito:
+          kind === 'credit' ? simpleInvoiceService.indicadorNotaCredito(emisor.FechaEmision, issueDate) : undefined,
+        IndicadorMontoGravado: idDoc.IndicadorMontoGravado,
+        // Los comprobantes de compras y gastos menores no llevan TipoIngresos; las notas sí
+        TipoIngresos: idDoc.TipoIngresos || '01',
+        TipoPago: idDoc.TipoPago,
+      })
+      .emisor({
+        ...emisor,
+        NumeroFacturaInterna: request.internalNumber,
+        NumeroPedidoInterno: undefined,
+        FechaEmision: isoToDgiiDate(issueDate),
+      });
+
+    if (comprador) {
+      builder.comprador(comprador);
+    }
+
+    items.forEach((item) => builder.addItem(item));
+    descuentosORecargos.forEach(({ NumeroLinea, ...ajuste }) => builder.addDescuentoORecargo(ajuste));
+
+    const totales = simpleInvoiceService.toTotales({
+      ECF: {
+        Encabezado: { IdDoc: { TipoeCF: builder.tipoeCF, IndicadorMontoGravado: idDoc.IndicadorMontoGravado } },
+        DetallesItems: { Item: items },
+        DescuentosORecargos: { DescuentoORecargo: descuentosORecargos },
+      },
+    } as InvoiceData);
+    builder.totales(totales);
+
+    if (otraMoneda?.TipoMoneda && otraMoneda.TipoCambio) {
+      builder.otraMoneda(simpleInvoiceService.toOtraMoneda(totales, otraMoneda.TipoMoneda, toNumber(otraMoneda.TipoCambio)));
+    }
+
+    builder.informacionReferencia({
+      NCFModificado: originalEncf,
+      FechaNCFModificado: emisor.FechaEmision,
+      CodigoModificacion: CODIGO_MODIFICACION[request.code || (kind === 'credit' && !request.lines ? 'void' : 'amount_correction')],
+      RazonModificacion: request.reason,
+    });
+
+    if (kind === 'credit') {
+      await this.assertCreditAvailable(database, original, toNumber(ecf.Encabezado.Totales?.MontoTotal), totales.MontoTotal);
+    }
+
+    return {
+      invoiceData: builder.build({ encfPending: !request.encf }),
+      parentId: original.id,
+      environment: original.environment,
+    };
+  }
+
+  /**
+   * Guarda la nota de crédito firmada antes de enviarla, comprobando en la misma transacción que las notas del
+   * e-CF no superen su total. Bloquear la fila del original serializa las notas concurrentes del mismo e-CF.
+   */
+  async reserveCredit(note: NewStoredDocument): Promise<StoredDocument> {
+    return database.transaction(async (tx) => {
+      await tx.execute('UPDATE documents SET updated_at = updated_at WHERE id = ?', [note.parentId]);
+      const row = await tx.queryOne('SELECT id, encf, signed_xml FROM documents WHERE id = ?', [note.parentId]);
+      if (!row) {
+        throw new AppError(`Original e-CF of credit note ${note.encf} not found`, 404);
+      }
+
+      const ecf = this.parseEcf(row.signed_xml);
+      await this.assertCreditAvailable(tx, row, toNumber(ecf.Encabezado.Totales?.MontoTotal), toNumber(note.montoTotal));
+      return documentService.save(note, tx);
+    });
+  }
+
+  /**
+   * Elimina la nota reservada que DGII no recibió, liberando su monto
+   */
+  async releaseCredit(id: string): Promise<void> {
+    await database.execute(
+      'DELETE FROM documents WHERE id = ? AND track_id IS NULL AND contingency_status IS NULL',
+      [id]
+    );
+  }
+
+  /**
+   * e-CF emitido por el RNC con ese e-NCF; si DGII rechazó uno y se reenvió, se usa el más reciente no rechazado
+   */
+  private async findOriginal(rnc: string, encf: string, environment?: string): Promise<StoredDocument> {
+    const { items } = await documentService.search({
+      direction: 'emitted',
+      documentType: 'ECF',
+      rncEmisor: rnc,
+      encf,
+      environment,
+    });
+
+    if (!items.length) {
+      throw new AppError(`Issued e-CF not found: ${encf}`, 404);
+    }
+
+    const original = items.find((document) => document.dgiiStatus !== 'Rechazado');
+    if (!original) {
+      throw new AppError(`e-CF ${encf} was rejected by DGII and cannot be modified`, 409);
+    }
+    if (original.tipoEcf && NOTE_TIPOS_ECF.includes(original.tipoEcf)) {
+      throw new AppError(`e-CF ${encf} is a debit or credit note and cannot be modified by another note`, 400);
+    }
+
+    return documentService.getById(original.id);
+  }
+
+  private parseEcf(signedXml: string): Ecf {
+    const ecf = fromXmlJson(new Transformer().xml2Json<any>(signedXml))?.ECF;
+    if (!ecf?.Encabezado?.IdDoc || !ecf.Encabezado.Emisor) {
+      throw new AppError('Stored e-CF could not be parsed', 500);
+    }
+    return ecf;
+  }
+
+  private toItems(kind: NoteKind, encf: string, originalItems: any[], lines?: NoteLine[]): EcfItemInput[] {
+    if (!lines) {
+      return originalItems.map(({ NumeroLinea, ...item }) => item);
+    }
+
+    return lines.map((line) => {
+      const item = originalItems.find((originalItem) => toNumber(originalItem.NumeroLinea) === line.line);
+      if (!item) {
+        throw new AppError(`Line ${line.line} not found in e-CF ${encf}`, 400);
+      }
+      return line.amount !== undefined
+        ? this.itemByAmount(kind, item, line.amount)
+        : this.itemByQuantity(kind, item, line.quantity as number);
+    });
+  }
+
+  /**
+   * Parte de la cantidad de la línea original, con descuento, recargo y retenciones proporcionales
+   */
+  private itemByQuantity(kind: NoteKind, item: any, quantity: number): EcfItemInput {
+    const originalQuantity = toNumber(item.CantidadItem);
+    if (kind === 'credit' && quantity > originalQuantity) {
+      throw new AppError(`Line ${item.NumeroLinea}: quantity ${quantity} exceeds the invoiced quantity ${originalQuantity}`, 400);
+    }
+
+    const ratio = originalQuantity ? quantity / originalQuantity : 0;
+    const discount = round2(toNumber(item.DescuentoMonto) * ratio);
+    const surcharge = round2(toNumber(item.RecargoMonto) * ratio);
+
+    // Las tablas de subdescuentos, subrecargos y montos en otra moneda se refieren a la cantidad original
+    const { NumeroLinea, TablaSubDescuento, TablaSubRecargo, TablaSubcantidad, OtraMonedaDetalle, ...rest } = item;
+
+    return {
+      ...rest,
+      Retencion: prorateRetencion(item.Retencion, ratio),
+      CantidadItem: quantity,
+      DescuentoMonto: discount || undefined,
+      RecargoMonto: surcharge || undefined,
+      MontoItem: round2(quantity * toNumber(item.PrecioUnitarioItem) - discount + surcharge),
+    };
+  }
+
+  /**
+   * Monto sobre la línea original (p.ej. un descuento posterior): una unidad por ese monto
+   */
+  private itemByAmount(kind: NoteKind, item: any, amount: number): EcfItemInput {
+    const originalAmount = toNumber(item.MontoItem);
+    if (kind === 'credit' && amount > originalAmount) {
+      throw new AppError(`Line ${item.NumeroLinea}: amount ${amount} exceeds the invoiced amount ${originalAmount}`, 400);
+    }
+
+    return {
+      TablaCodigosItem: item.TablaCodigosItem,
+      IndicadorFacturacion: item.IndicadorFacturacion,
+      Retencion: prorateRetencion(item.Retencion, originalAmount ? amount / originalAmount : 0),
+      NombreItem: item.NombreItem,
+      IndicadorBienoServicio: item.IndicadorBienoServicio,
+      DescripcionItem: item.DescripcionItem,
+      CantidadItem: 1,
+      PrecioUnitarioItem: amount,
+      MontoItem: amount,
+    };
+  }
+
+  /**
+   * Las notas de crédito del e-CF (sin contar las rechazadas por DGII) no pueden superar su total
+   */
+  private async assertCreditAvailable(
+    db: Queryable,
+    original: Pick<StoredDocument, 'id' | 'encf'>,
+    originalTotal: number,
+    requested: number
+  ): Promise<void> {
+    const row = await db.queryOne<{ total: number }>(
+      `SELECT COALESCE(SUM(monto_total), 0) AS total FROM documents
+       WHERE parent_id = ? AND direction = 'emitted' AND document_type = 'ECF' AND tipo_ecf = '34'
+         AND (dgii_status IS NULL OR dgii_status <> 'Rechazado')`,
+      [original.id]
+    );
+    const credited = round2(toNumber(row?.total));
+    const available = round2(originalTotal - credited);
+
+    if (requested > available + CREDIT_TOLERANCE) {
+      throw new AppError(
+        `Credit notes for e-CF ${original.encf} would exceed its total: ${available} available, ${requested} requested`,
+        422,
+        { montoTotal: originalTotal, credited, available, requested }
+      );
+    }
+  }
+}
+
+export default new NoteService();
@@ -0,0 +1,174 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { NoReceivedCode, excludedEncfType } from 'dgii-ecf';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { parseDgiiDateTime } from '../utils/dates';
+import certificateValidationService from './certificateValidationService';
+import documentService from './documentService';
+import tenantService from './tenantService';
+import xsdValidationService from './xsdValidationService';
+import { ReceptorDecision, ReceptorRule, ReceptorRuleOverrides, ReceptorRuleViolation } from '../types';
+
+// Orden de evaluación; el primer incumplimiento define el CodigoMotivoNoRecibido del ARECF
+export const RECEPTOR_RULES: ReceptorRule[] = ['specification', 'rncComprador', 'signature', 'duplicate'];
+
+const RULE_CODES: Record<ReceptorRule, NoReceivedCode> = {
+  specification: NoReceivedCode['Error de especificación'],
+  signature: NoReceivedCode['Error de Firma Digital'],
+  duplicate: NoReceivedCode['Envío duplicado'],
+  rncComprador: NoReceivedCode['RNC Comprador no corresponde'],
+};
+
+/**
+ * Datos del e-CF recibido que usan las reglas (ver extractEcfInfo en dgiiService)
+ */
+interface ReceivedEcfInfo {
+  tipoeCF: string;
+  eNCF: string;
+  rncEmisor: string;
+  rncComprador: string;
+  fechaHoraFirma: string;
+}
+
+// Campos sin los cuales no se puede construir el ARECF
+const ARECF_REQUIRED_FIELDS: Record<string, keyof ReceivedEcfInfo> = {
+  TipoeCF: 'tipoeCF',
+  eNCF: 'eNCF',
+  RNCEmisor: 'rncEmisor',
+  RNCComprador: 'rncComprador',
+};
+
+/**
+ * Reglas de aceptación automática del receptor Emisor-Receptor. DGII no indica si aceptar un e-CF:
+ * el receptor responde "e-CF No Recibido" con el código del primer incumplimiento:
+ *
+ * - specification (1): el documento no es un e-CF bien formado, es de un tipo que no se envía al
+ *   receptor (32, 41, 43, 45, 46, 47) o no cumple su XSD (si está instalado)
+ * - rncComprador (4): el RNCComprador no es uno de nuestros RNC (RNC_RECEPTOR o los de los tenants)
+ * - signature (2): la firma del emisor no es válida (ver certificateValidationService.verifySignedXml)
+ * - duplicate (3): ya se acusó como recibido el mismo e-NCF del mismo emisor
+ *
+ * Las reglas se desactivan globalmente con RECEPTOR_DISABLED_RULES (signature también con
+ * RECEIVED_SIGNATURE_VERIFICATION_ENABLED) y el tenant dueño del RNCComprador puede activarlas
+ * o desactivarlas para sus RNC con `receptorRules`.
+ */
+export class ReceptorRulesService {
+  async evaluate(ecfXml: string, ecfInfo: ReceivedEcfInfo, rncReceptor?: string): Promise<ReceptorDecision> {
+    const missing = Object.keys(ARECF_REQUIRED_FIELDS).filter((field) => !ecfInfo[ARECF_REQUIRED_FIELDS[field]]);
+    if (missing.length) {
+      throw new AppError(`The received document cannot be acknowledged, missing: ${missing.join(', ')}`, 400);
+    }
+
+    // Se responde como el RNCComprador si es uno de nuestros RNC
+    const tenantId = await tenantService.findTenantIdByRnc(ecfInfo.rncComprador);
+    const isOurRnc =
+      Boolean(tenantId) || [rncReceptor, config.rncReceptor].includes(ecfInfo.rncComprador);
+    const receptorRnc = isOurRnc ? ecfInfo.rncComprador : rncReceptor || ecfInfo.rncComprador;
+    const tenant = tenantId ? await tenantService.getTenant(tenantId) : undefined;
+    const rules = this.resolveRules(tenant?.receptorRules);
+
+    const violations: ReceptorRuleViolation[] = [];
+    const addViolation = (rule: ReceptorRule, message: string, details?: any[]) =>
+      violations.push({ rule, code: RULE_CODES[rule], message, ...(details && { details }) });
+
+    if (rules.specification) {
+      const error = await this.checkSpecification(ecfXml, ecfInfo);
+      if (error) {
+        addViolation('specification', error.message, error.details);
+      }
+    }
+    if (rules.rncComprador && !isOurRnc) {
+      addViolation('rncComprador', `RNCComprador ${ecfInfo.rncComprador} is not one of our RNCs`);
+    }
+    if (rules.signature) {
+      const signedAt = (ecfInfo.fechaHoraFirma && parseDgiiDateTime(ecfInfo.fechaHoraFirma)) || new Date();
+      const { errors } = certificateValidationService.verifySignedXml(ecfXml, ecfInfo.rncEmisor, signedAt);
+      if (errors.length) {
+        addViolation('signature', errors.map((error) => error.message).join('; '), errors);
+      }
+    }
+    if (rules.duplicate && (await this.isDuplicate(ecfInfo, receptorRnc))) {
+      addViolation('duplicate', `e-NCF ${ecfInfo.eNCF} from ${ecfInfo.rncEmisor} was already received`);
+    }
+
+    if (violations.length) {
+      logger.warn(
+        `Received ECF rejected - eNCF: ${ecfInfo.eNCF}, RNCEmisor: ${ecfInfo.rncEmisor}: ` +
+          violations.map((violation) => `${violation.rule} (${violation.code}): ${violation.message}`).join('; ')
+      );
+    }
+
+    return {
+      accepted: violations.length === 0,
+      rejectCode: violations[0]?.code,
+      violations,
+      receptorRnc,
+      tenantId,
+      environment: tenant?.environment,
+    };
+  }
+
+  /**
+   * Reglas activas: la configuración global con los cambios del tenant
+   */
+  resolveRules(overrides?: ReceptorRuleOverrides): Record<ReceptorRule, boolean> {
+    return RECEPTOR_RULES.reduce(
+      (rules, rule) => {
+        const enabledByDefault =
+          !config.receptorDisabledRules.includes(rule) &&
+          (rule !== 'signature' || config.receivedSignatureVerificationEnabled);
+        rules[rule] = overrides?.[rule] ?? enabledByDefault;
+        return rules;
+      },
+      {} as Record<ReceptorRule, boolean>
+    );
+  }
+
+  /**
+   * Estructura del e-CF: nodo raíz, formato del e-NCF, tipo recibible y XSD
+   */
+  private async checkSpecification(
+    ecfXml: string,
+    ecfInfo: ReceivedEcfInfo
+  ): Promise<{ message: string; details?: any[] } | undefined> {
+    const root = new DOMParser().parseFromString(ecfXml, 'text/xml').documentElement?.nodeName;
+    if (root !== 'ECF') {
+      return { message: `The received document root must be ECF, got ${root || 'none'}` };
+    }
+    if (!/^E\d{12}$/.test(ecfInfo.eNCF) || ecfInfo.eNCF.substring(1, 3) !== ecfInfo.tipoeCF) {
+      return { message: `Invalid e-NCF ${ecfInfo.eNCF} for TipoeCF ${ecfInfo.tipoeCF}` };
+    }
+    if (excludedEncfType.includes(ecfInfo.tipoeCF)) {
+      return { message: `TipoeCF ${ecfInfo.tipoeCF} is not sent to the receptor` };
+    }
+
+    try {
+      await xsdValidationService.assertValid(ecfXml);
+    } catch (error: any) {
+      if (error instanceof AppError && error.statusCode === 422) {
+        return { message: error.message, details: error.details };
+      }
+      // Sin el XSD instalado no es un error del emisor
+      logger.warn(`Could not validate received ECF against XSD: ${error.message}`);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * El mismo e-NCF del mismo emisor ya se acusó como recibido
+   */
+  private async isDuplicate(ecfInfo: ReceivedEcfInfo, receptorRnc: string): Promise<boolean> {
+    const { items } = await documentService.search({
+      direction: 'emitted',
+      documentType: 'ARECF',
+      rncEmisor: ecfInfo.rncEmisor,
+      rncComprador: receptorRnc,
+      encf: ecfInfo.eNCF,
+    });
+    return items.some((item) => item.dgiiStatus === 'e-CF Recibido');
+  }
+}
+
+export default new ReceptorRulesService();
@@ -0,0 +1,121 @@
+import { DOMParser } from '@xmldom/xmldom';
+import config from '../config/environment';
+import database from '../database';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { hashApiKey } from '../utils/crypto';
+import { ReceptorSeedStats, SeedRejectionReason } from '../types';
+
+// Las semillas vencidas o usadas se conservan un día antes de borrarlas
+const SEED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const REJECTION_MESSAGES: Record<SeedRejectionReason, string> = {
+  unknown: 'The seed was not issued by this receptor',
+  expired: 'The seed has expired',
+  reused: 'The seed was already used',
+  invalidSignature: 'The seed signature is not valid',
+};
+
+/**
+ * Valor aleatorio (`<valor>`) que identifica la semilla, firmada o no
+ */
+const getSeedValue = (seedXml: string): string | undefined => {
+  const doc = new DOMParser().parseFromString(seedXml, 'text/xml');
+  return doc.getElementsByTagName('valor')[0]?.textContent?.trim() || undefined;
+};
+
+/**
+ * Semillas de autenticación Emisor-Receptor. Cada semilla emitida se registra con una vigencia
+ * corta (RECEPTOR_SEED_TTL_MS) y se marca como usada al validarla, de modo que una semilla firmada
+ * no se puede reutilizar para obtener otro token. Se guarda el hash del valor de la semilla.
+ */
+export class ReceptorSeedService {
+  private since = new Date().toISOString();
+  private issued = 0;
+  private validated = 0;
+  private rejected: Record<SeedRejectionReason, number> = { unknown: 0, expired: 0, reused: 0, invalidSignature: 0 };
+
+  async registerSeed(seedXml: string): Promise<void> {
+    const value = getSeedValue(seedXml);
+    if (!value) {
+      throw new AppError('The generated seed has no value', 500);
+    }
+
+    const now = Date.now();
+    await database.execute('DELETE FROM receptor_seeds WHERE expires_at < ?', [
+      new Date(now - SEED_RETENTION_MS).toISOString(),
+    ]);
+    await database.execute('INSERT INTO receptor_seeds (seed_hash, issued_at, expires_at) VALUES (?, ?, ?)', [
+      hashApiKey(value),
+      new Date(now).toISOString(),
+      new Date(now + config.receptorSeedTtlMs).toISOString(),
+    ]);
+
+    this.issued++;
+  }
+
+  /**
+   * Verifica que la semilla firmada corresponda a una semilla emitida, vigente y no usada.
+   * Retorna el hash con el que se marca como usada después de verificar la firma.
+   */
+  async assertSeedAvailable(signedSeedXml: string): Promise<string> {
+    const value = getSeedValue(signedSeedXml);
+    const row = value
+      ? await database.queryOne('SELECT * FROM receptor_seeds WHERE seed_hash = ?', [hashApiKey(value)])
+      : undefined;
+
+    if (!row) {
+      throw this.reject('unknown');
+    }
+    if (row.consumed_at) {
+      throw this.reject('reused');
+    }
+    if (row.expires_at <= new Date().toISOString()) {
+      throw this.reject('expired');
+    }
+
+    return row.seed_hash;
+  }
+
+  /**
+   * Marca la semilla como usada. La condición en el UPDATE evita que dos validaciones
+   * simultáneas de la misma semilla obtengan token.
+   */
+  async consumeSeed(seedHash: string): Promise<void> {
+    const updated = await database.execute(
+      'UPDATE receptor_seeds SET consumed_at = ? WHERE seed_hash = ? AND consumed_at IS NULL',
+      [new Date().toISOString(), seedHash]
+    );
+    if (!updated) {
+      throw this.reject('reused');
+    }
+
+    this.validated++;
+  }
+
+  /**
+   * Cuenta una semilla rechazada y retorna el error (401) a lanzar
+   */
+  reject(reason: SeedRejectionReason): AppError {
+    this.rejected[reason]++;
+    logger.warn(`Signed seed rejected (${reason}): ${REJECTION_MESSAGES[reason]}`);
+    return new AppError(REJECTION_MESSAGES[reason], 401);
+  }
+
+  async getStats(): Promise<ReceptorSeedStats> {
+    const row = await database.queryOne<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM receptor_seeds WHERE consumed_at IS NULL AND expires_at > ?',
+      [new Date().toISOString()]
+    );
+
+    return {
+      since: this.since,
+      issued: this.issued,
+      validated: this.validated,
+      rejected: { ...this.rejected },
+      pending: Number(row?.count || 0),
+    };
+  }
+}
+
+export default new ReceptorSeedService();
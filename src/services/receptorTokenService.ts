@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import database from '../database';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { hashApiKey } from '../utils/crypto';
+import { ReceptorToken } from '../types';
+
+const TOKEN_PREFIX_LENGTH = 12;
+// Vigencia por si el token no trae `exp` (los de CustomAuthentication vencen en 1 hora)
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000;
+// Los tokens vencidos se conservan un tiempo para auditoría antes de borrarlos
+const EXPIRED_TOKEN_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toReceptorToken = (row: any): ReceptorToken => ({
+  id: row.id,
+  prefix: row.prefix,
+  issuedAt: row.issued_at,
+  expiresAt: row.expires_at,
+  lastUsedAt: row.last_used_at || undefined,
+  revokedAt: row.revoked_at || undefined,
+  active: !row.revoked_at && row.expires_at > new Date().toISOString(),
+});
+
+/**
+ * Vencimiento real del token: el `exp` del JWT, o la vigencia por defecto si no lo trae
+ */
+const getTokenExpiry = (token: string): Date => {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    if (typeof payload.exp === 'number') {
+      return new Date(payload.exp * 1000);
+    }
+  } catch (error) {
+    // No es un JWT: se usa la vigencia por defecto
+  }
+  return new Date(Date.now() + DEFAULT_TOKEN_TTL_MS);
+};
+
+/**
+ * Tokens Emisor-Receptor: los entrega /fe/autenticacion/api/validacioncertificado y los exigen
+ * /fe/recepcion/api/ecf y /fe/aprobacioncomercial/api/ecf en el header `Authorization: Bearer`.
+ * Se guarda el hash del token con su vencimiento para poder validarlo y revocarlo.
+ */
+export class ReceptorTokenService {
+  /**
+   * Registra un token recién emitido y retorna su vencimiento
+   */
+  async registerToken(token: string): Promise<ReceptorToken> {
+    const id = randomUUID();
+    const now = new Date();
+
+    await database.execute('DELETE FROM receptor_tokens WHERE expires_at < ?', [
+      new Date(now.getTime() - EXPIRED_TOKEN_RETENTION_MS).toISOString(),
+    ]);
+    await database.execute(
+      'INSERT INTO receptor_tokens (id, token_hash, prefix, issued_at, expires_at) VALUES (?, ?, ?, ?, ?)',
+      [id, hashApiKey(token), token.slice(0, TOKEN_PREFIX_LENGTH), now.toISOString(), getTokenExpiry(token).toISOString()]
+    );
+
+    logger.info(`Receptor token issued - ID: ${id}`);
+
+    return this.getToken(id);
+  }
+
+  async getToken(id: string): Promise<ReceptorToken> {
+    const row = await database.queryOne('SELECT * FROM receptor_tokens WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Receptor token not found: ${id}`, 404);
+    }
+    return toReceptorToken(row);
+  }
+
+  /**
+   * Tokens emitidos, los más recientes primero. Con `active` solo los vigentes y no revocados
+   */
+  async listTokens(active?: boolean): Promise<ReceptorToken[]> {
+    const rows = active
+      ? await database.query(
+          'SELECT * FROM receptor_tokens WHERE revoked_at IS NULL AND expires_at > ? ORDER BY issued_at DESC',
+          [new Date().toISOString()]
+        )
+      : await database.query('SELECT * FROM receptor_tokens ORDER BY issued_at DESC');
+    return rows.map(toReceptorToken);
+  }
+
+  async revokeToken(id: string): Promise<ReceptorToken> {
+    const updated = await database.execute(
+      'UPDATE receptor_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+
+    const token = await this.getToken(id);
+    if (updated) {
+      logger.info(`Receptor token revoked - ID: ${id}`);
+    }
+    return token;
+  }
+
+  /**
+   * Revoca todos los tokens vigentes (p.ej. si se filtró uno). Retorna cuántos se revocaron
+   */
+  async revokeAllTokens(): Promise<number> {
+    const now = new Date().toISOString();
+    const revoked = await database.execute(
+      'UPDATE receptor_tokens SET revoked_at = ? WHERE revoked_at IS NULL AND expires_at > ?',
+      [now, now]
+    );
+
+    logger.info(`Receptor tokens revoked: ${revoked}`);
+    return revoked;
+  }
+
+  /**
+   * Valida el token de una petición de recepción. Lanza 401 si no existe, venció o fue revocado
+   */
+  async authenticate(token: string): Promise<ReceptorToken> {
+    const row = await database.queryOne('SELECT * FROM receptor_tokens WHERE token_hash = ?', [hashApiKey(token)]);
+    if (!row) {
+      throw new AppError('Unauthorized - Invalid receptor token', 401);
+    }
+    if (row.revoked_at) {
+      throw new AppError('Unauthorized - Receptor token revoked', 401);
+    }
+    if (row.expires_at <= new Date().toISOString()) {
+      throw new AppError('Unauthorized - Receptor token expired', 401);
+    }
+
+    await database.execute('UPDATE receptor_tokens SET last_used_at = ? WHERE id = ?', [new Date().toISOString(), row.id]);
+
+    return toReceptorToken(row);
+  }
+}
+
+export default new ReceptorTokenService();
@@ -0,0 +1,533 @@
+import { randomUUID } from 'crypto';
+import database from '../database';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { daysUntil, formatDgiiDateTime, isoToDgiiDate, toIsoDate, todayIsoDate } from '../utils/dates';
+import {
+  AnecfAnulacion,
+  AnecfSecuencias,
+  RegisterSequenceRangeRequest,
+  SequenceAllocation,
+  SequenceNumberStatus,
+  SequenceRange,
+  SequenceVoidReservation,
+  TIPOS_ECF,
+  TipoeCF,
+  VoidData,
+  VoidSequenceRequest,
+} from '../types';
+
+// Un e-NCF tiene el formato E + TipoeCF (2 dígitos) + secuencial (10 dígitos)
+const SEQUENCE_DIGITS = 10;
+const MAX_SEQUENCE = 10 ** SEQUENCE_DIGITS - 1;
+const MAX_ALLOCATION_ATTEMPTS = 100;
+
+// e-NCF que se pueden anular en una sola petición
+const MAX_VOID_COUNT = 10000;
+const ANECF_VERSION = '1.0';
+
+const toRange = (row: any): SequenceRange => ({
+  id: row.id,
+  rnc: row.rnc,
+  environment: row.environment,
+  tipoeCF: row.tipo_ecf,
+  startNumber: Number(row.start_number),
+  endNumber: Number(row.end_number),
+  nextNumber: Number(row.next_number),
+  expiresAt: row.expires_at,
+  status: row.status,
+  remaining: Math.max(Number(row.end_number) - Number(row.next_number) + 1, 0),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Construye el e-NCF a partir del tipo y el número secuencial
+ */
+export const formatEncf = (tipoeCF: string, number: number): string =>
+  `E${tipoeCF}${number.toString().padStart(SEQUENCE_DIGITS, '0')}`;
+
+/**
+ * Número secuencial de un e-NCF del tipo indicado
+ */
+const parseEncfNumber = (encf: string, tipoeCF: string): number => {
+  const match = new RegExp(`^E${tipoeCF}(\\d{${SEQUENCE_DIGITS}})$`).exec(encf);
+  if (!match || Number(match[1]) < 1) {
+    throw new AppError(`Invalid e-NCF for TipoeCF ${tipoeCF}: ${encf}`, 400);
+  }
+  return Number(match[1]);
+};
+
+/**
+ * Agrupa números ordenados en tramos consecutivos (desde/hasta)
+ */
+const toRuns = (numbers: number[]): [number, number][] => {
+  const runs: [number, number][] = [];
+  for (const number of numbers) {
+    const last = runs[runs.length - 1];
+    if (last && number === last[1] + 1) {
+      last[1] = number;
+    } else {
+      runs.push([number, number]);
+    }
+  }
+  return runs;
+};
+
+/**
+ * Administra los rangos de e-NCF autorizados por DGII y la asignación de números.
+ * Cada ambiente (test, cert, prod) tiene sus propios rangos e inventario de e-NCF.
+ *
+ * La asignación es segura ante concurrencia: cada número se reserva con un UPDATE
+ * condicional (compare-and-swap sobre next_number) y se registra en sequence_numbers,
+ * cuya llave primaria impide entregar el mismo e-NCF dos veces aunque varios procesos
+ * compartan la base de datos.
+ */
+export class SequenceService {
+  private assertTipoeCF(tipoeCF: string): asserts tipoeCF is TipoeCF {
+    if (!TIPOS_ECF.includes(tipoeCF as TipoeCF)) {
+      throw new AppError(`Invalid TipoeCF: ${tipoeCF}. Allowed: ${TIPOS_ECF.join(', ')}`, 400);
+    }
+  }
+
+  async registerRange(data: RegisterSequenceRangeRequest): Promise<SequenceRange> {
+    const tipoeCF = data.tipoeCF.toString();
+    this.assertTipoeCF(tipoeCF);
+
+    const expiresAt = toIsoDate(data.expiresAt);
+    if (!expiresAt) {
+      throw new AppError(`Invalid expiresAt: ${data.expiresAt}. Use dd-MM-yyyy or yyyy-MM-dd`, 400);
+    }
+
+    const environment = data.environment || config.dgiiEnvironment;
+    const { startNumber, endNumber } = data;
+    if (!Number.isInteger(startNumber) || !Number.isInteger(endNumber) || startNumber < 1 || endNumber > MAX_SEQUENCE || startNumber > endNumber) {
+      throw new AppError(`Invalid range: ${startNumber}-${endNumber}`, 400);
+    }
+
+    return database.transaction(async (tx) => {
+      const overlapping = await tx.queryOne(
+        `SELECT id, start_number, end_number FROM sequence_ranges
+         WHERE rnc = ? AND environment = ? AND tipo_ecf = ? AND start_number <= ? AND end_number >= ?`,
+        [data.rnc, environment, tipoeCF, endNumber, startNumber]
+      );
+
+      if (overlapping) {
+        throw new AppError(
+          `Range overlaps existing range ${overlapping.id} (${overlapping.start_number}-${overlapping.end_number})`,
+          409
+        );
+      }
+
+      const now = new Date().toISOString();
+      const id = randomUUID();
+
+      await tx.execute(
+        `INSERT INTO sequence_ranges
+           (id, rnc, environment, tipo_ecf, start_number, end_number, next_number, expires_at, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`,
+        [id, data.rnc, environment, tipoeCF, startNumber, endNumber, startNumber, expiresAt, now, now]
+      );
+
+      logger.info(`Sequence range registered - RNC: ${data.rnc}, Env: ${environment}, Tipo: ${tipoeCF}, ${startNumber}-${endNumber}`);
+
+      return toRange(await tx.queryOne('SELECT * FROM sequence_ranges WHERE id = ?', [id]));
+    });
+  }
+
+  async listRanges(rnc?: string, tipoeCF?: string, environment?: string): Promise<(SequenceRange & { warnings: string[] })[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (rnc) {
+      conditions.push('rnc = ?');
+      params.push(rnc);
+    }
+    if (tipoeCF) {
+      conditions.push('tipo_ecf = ?');
+      params.push(tipoeCF);
+    }
+    if (environment) {
+      conditions.push('environment = ?');
+      params.push(environment);
+    }
+
+    const rows = await database.query(
+      `SELECT * FROM sequence_ranges ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY rnc, environment, tipo_ecf, start_number`,
+      params
+    );
+
+    return rows.map(toRange).map((range) => ({ ...range, warnings: this.getRangeWarnings(range) }));
+  }
+
+  async getRange(id: string): Promise<SequenceRange> {
+    const row = await database.queryOne('SELECT * FROM sequence_ranges WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Sequence range not found: ${id}`, 404);
+    }
+    return toRange(row);
+  }
+
+  async disableRange(id: string): Promise<SequenceRange> {
+    const updated = await database.execute(
+      "UPDATE sequence_ranges SET status = 'disabled', updated_at = ? WHERE id = ?",
+      [new Date().toISOString(), id]
+    );
+
+    if (!updated) {
+      throw new AppError(`Sequence range not found: ${id}`, 404);
+    }
+
+    return this.getRange(id);
+  }
+
+  /**
+   * Reserva el siguiente e-NCF disponible para el RNC, ambiente y tipo indicados.
+   * Se usan primero los rangos que vencen antes.
+   */
+  async allocate(rnc: string, tipoeCF: string, environment: string = config.dgiiEnvironment): Promise<SequenceAllocation> {
+    const tipo = tipoeCF.toString();
+    this.assertTipoeCF(tipo);
+
+    // Solo cuenta como contención perder el número frente a otro proceso: saltar un número ya registrado
+    // (p.ej. anulado) siempre avanza next_number, por lo que un bloque anulado no agota los intentos
+    let contention = 0;
+    while (contention < MAX_ALLOCATION_ATTEMPTS) {
+      const row = await database.queryOne(
+        `SELECT * FROM sequence_ranges
+         WHERE rnc = ? AND environment = ? AND tipo_ecf = ? AND status = 'active' AND next_number <= end_number AND expires_at >= ?
+         ORDER BY expires_at, start_number
+         LIMIT 1`,
+        [rnc, environment, tipo, todayIsoDate()]
+      );
+
+      if (!row) {
+        throw new AppError(`No available e-NCF sequence range for RNC ${rnc}, TipoeCF ${tipo} in ${environment}`, 409);
+      }
+
+      const range = toRange(row);
+      const now = new Date().toISOString();
+
+      const claimed = await database.execute(
+        'UPDATE sequence_ranges SET next_number = next_number + 1, updated_at = ? WHERE id = ? AND next_number = ?',
+        [now, range.id, range.nextNumber]
+      );
+
+      if (!claimed) {
+        // Otro proceso tomó este número; reintentar con el estado actualizado
+        contention++;
+        continue;
+      }
+
+      const encf = formatEncf(tipo, range.nextNumber);
+      const inserted = await database.execute(
+        `INSERT INTO sequence_numbers (rnc, environment, encf, tipo_ecf, number, range_id, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'allocated', ?, ?)
+         ON CONFLICT (rnc, environment, encf) DO NOTHING`,
+        [rnc, environment, encf, tipo, range.nextNumber, range.id, now, now]
+      );
+
+      if (!inserted) {
+        // El número ya fue registrado (p.ej. anulado); continuar con el siguiente
+        continue;
+      }
+
+      const warnings = await this.getAllocationWarnings(rnc, tipo, environment);
+      warnings.forEach((warning) => logger.warn(warning));
+
+      logger.info(`e-NCF allocated - RNC: ${rnc}, Env: ${environment}, e-NCF: ${encf}`);
+
+      return {
+        encf,
+        rnc,
+        environment,
+        tipoeCF: tipo,
+        number: range.nextNumber,
+        rangeId: range.id,
+        fechaVencimientoSecuencia: isoToDgiiDate(range.expiresAt),
+        warnings,
+      };
+    }
+
+    throw new AppError(`Could not allocate e-NCF for RNC ${rnc}, TipoeCF ${tipo}: too much contention`, 503);
+  }
+
+  /**
+   * Reserva un e-NCF indicado por el cliente en lugar de asignarlo. Si pertenece a un rango registrado
+   * se registra como asignado para que la asignación automática lo salte; se rechaza si ya se usó o se
+   * anuló. Un número asignado y aún sin usar se acepta para reintentar su envío. Los números fuera de
+   * los rangos registrados no se controlan.
+   */
+  async claim(rnc: string, encf: string, environment: string = config.dgiiEnvironment): Promise<void> {
+    const match = new RegExp(`^E(\\d{2})(\\d{${SEQUENCE_DIGITS}})$`).exec(encf);
+    if (!match) {
+      return;
+    }
+
+    const [, tipo, digits] = match;
+    const number = Number(digits);
+    const range = await database.queryOne(
+      `SELECT id FROM sequence_ranges
+       WHERE rnc = ? AND environment = ? AND tipo_ecf = ? AND start_number <= ? AND end_number >= ?`,
+      [rnc, environment, tipo, number, number]
+    );
+    if (!range) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const inserted = await database.execute(
+      `INSERT INTO sequence_numbers (rnc, environment, encf, tipo_ecf, number, range_id, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'allocated', ?, ?)
+       ON CONFLICT (rnc, environment, encf) DO NOTHING`,
+      [rnc, environment, encf, tipo, number, range.id, now, now]
+    );
+
+    if (inserted) {
+      logger.info(`e-NCF claimed - RNC: ${rnc}, Env: ${environment}, e-NCF: ${encf}`);
+      return;
+    }
+
+    const row = await database.queryOne(
+      'SELECT status FROM sequence_numbers WHERE rnc = ? AND environment = ? AND encf = ?',
+      [rnc, environment, encf]
+    );
+    if (row && row.status !== 'allocated') {
+      throw new AppError(`e-NCF ${encf} was already ${row.status} for RNC ${rnc}`, 409);
+    }
+  }
+
+  /**
+   * Marca un e-NCF asignado como utilizado una vez enviado a DGII
+   */
+  async markUsed(rnc: string, encf: string, environment: string = config.dgiiEnvironment): Promise<void> {
+    await database.execute(
+      `UPDATE sequence_numbers SET status = 'used', updated_at = ?
+       WHERE rnc = ? AND environment = ? AND encf = ? AND status = 'allocated'`,
+      [new Date().toISOString(), rnc, environment, encf]
+    );
+  }
+
+  /**
+   * Marca como anulados los e-NCF indicados para que nunca se asignen. Solo se pueden anular números
+   * de un rango registrado que no se hayan enviado a DGII: nunca asignados o asignados sin usar.
+   */
+  async reserveVoid(request: VoidSequenceRequest): Promise<SequenceVoidReservation> {
+    const tipo = request.tipoeCF.toString();
+    this.assertTipoeCF(tipo);
+
+    const environment = request.environment || config.dgiiEnvironment;
+    const numbers = this.resolveVoidNumbers(request, tipo);
+
+    const ranges = (await database.query(
+      'SELECT * FROM sequence_ranges WHERE rnc = ? AND environment = ? AND tipo_ecf = ?',
+      [request.rnc, environment, tipo]
+    )).map(toRange);
+    const outside = numbers.filter((number) => !ranges.some((range) => number >= range.startNumber && number <= range.endNumber));
+    if (outside.length) {
+      throw new AppError(
+        `e-NCF not in a registered range for RNC ${request.rnc} in ${environment}: ${outside.slice(0, 10).map((number) => formatEncf(tipo, number)).join(', ')}`,
+        400,
+        { encfs: outside.map((number) => formatEncf(tipo, number)) }
+      );
+    }
+
+    return database.transaction(async (tx) => {
+      const rows = await tx.query(
+        `SELECT number, status FROM sequence_numbers
+         WHERE rnc = ? AND environment = ? AND tipo_ecf = ? AND number >= ? AND number <= ?`,
+        [request.rnc, environment, tipo, numbers[0], numbers[numbers.length - 1]]
+      );
+      const statuses = new Map<number, SequenceNumberStatus>(rows.map((row: any) => [Number(row.number), row.status]));
+
+      const unavailable = numbers.filter((number) => statuses.has(number) && statuses.get(number) !== 'allocated');
+      if (unavailable.length) {
+        throw new AppError(
+          `e-NCF already used or voided: ${unavailable.slice(0, 10).map((number) => formatEncf(tipo, number)).join(', ')}`,
+          409,
+          { encfs: unavailable.map((number) => formatEncf(tipo, number)) }
+        );
+      }
+
+      const now = new Date().toISOString();
+      const reservation: SequenceVoidReservation = {
+        rnc: request.rnc,
+        environment,
+        tipoeCF: tipo,
+        encfs: [],
+        inserted: [],
+        allocated: [],
+      };
+
+      for (const number of numbers) {
+        const encf = formatEncf(tipo, number);
+        const range = ranges.find((candidate) => number >= candidate.startNumber && number <= candidate.endNumber) as SequenceRange;
+
+        const changed = statuses.has(number)
+          ? await tx.execute(
+              `UPDATE sequence_numbers SET status = 'voided', updated_at = ?
+               WHERE rnc = ? AND environment = ? AND encf = ? AND status = 'allocated'`,
+              [now, request.rnc, environment, encf]
+            )
+          : await tx.execute(
+              `INSERT INTO sequence_numbers (rnc, environment, encf, tipo_ecf, number, range_id, status, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, 'voided', ?, ?)
+               ON CONFLICT (rnc, environment, encf) DO NOTHING`,
+              [request.rnc, environment, encf, tipo, number, range.id, now, now]
+            );
+
+        if (!changed) {
+          // Se asignó o usó mientras se anulaba
+          throw new AppError(`e-NCF ${encf} changed while voiding; retry the request`, 409);
+        }
+
+        reservation.encfs.push(encf);
+        (statuses.has(number) ? reservation.allocated : reservation.inserted).push(encf);
+      }
+
+      logger.info(`e-NCF reserved for voiding - RNC: ${request.rnc}, Env: ${environment}, Tipo: ${tipo}, count: ${numbers.length}`);
+      return reservation;
+    });
+  }
+
+  /**
+   * Devuelve al inventario los e-NCF reservados si DGII no recibió el ANECF
+   */
+  async releaseVoid(reservation: SequenceVoidReservation): Promise<void> {
+    await database.transaction(async (tx) => {
+      const now = new Date().toISOString();
+      for (const encf of reservation.inserted) {
+        await tx.execute(
+          "DELETE FROM sequence_numbers WHERE rnc = ? AND environment = ? AND encf = ? AND status = 'voided'",
+          [reservation.rnc, reservation.environment, encf]
+        );
+      }
+      for (const encf of reservation.allocated) {
+        await tx.execute(
+          `UPDATE sequence_numbers SET status = 'allocated', updated_at = ?
+           WHERE rnc = ? AND environment = ? AND encf = ? AND status = 'voided'`,
+          [now, reservation.rnc, reservation.environment, encf]
+        );
+      }
+    });
+
+    logger.info(`e-NCF void reservation released - RNC: ${reservation.rnc}, count: ${reservation.encfs.length}`);
+  }
+
+  /**
+   * ANECF de los e-NCF reservados: los consecutivos se agrupan en un tramo de TablaRangoSecuenciasAnuladaseNCF.
+   * El archivo se nombra con el RNC y la fecha y hora de anulación.
+   */
+  toVoidData(reservation: SequenceVoidReservation, date: Date = new Date()): { voidData: VoidData; fileName: string } {
+    const runs = toRuns(reservation.encfs.map((encf) => parseEncfNumber(encf, reservation.tipoeCF)));
+    const fechaHora = formatDgiiDateTime(date);
+
+    const secuencias: AnecfSecuencias[] = runs.map(([from, to]) => ({
+      SecuenciaeNCFDesde: formatEncf(reservation.tipoeCF, from),
+      SecuenciaeNCFHasta: formatEncf(reservation.tipoeCF, to),
+    }));
+    const anulacion: AnecfAnulacion = {
+      NoLinea: 1,
+      TipoeCF: reservation.tipoeCF,
+      TablaRangoSecuenciasAnuladaseNCF: { Secuencias: secuencias },
+      CantidadeNCFAnulados: reservation.encfs.length,
+    };
+
+    return {
+      voidData: {
+        ANECF: {
+          Encabezado: {
+            Version: ANECF_VERSION,
+            RncEmisor: reservation.rnc,
+            CantidadeNCFAnulados: reservation.encfs.length,
+            FechaHoraAnulacioneNCF: fechaHora,
+          },
+          DetalleAnulacion: { Anulacion: [anulacion] },
+        },
+      },
+      fileName: `${reservation.rnc}${fechaHora.replace(/\D/g, '')}.xml`,
+    };
+  }
+
+  private resolveVoidNumbers(request: VoidSequenceRequest, tipoeCF: string): number[] {
+    let numbers: number[];
+
+    if (request.range) {
+      const from = parseEncfNumber(request.range.from, tipoeCF);
+      const to = parseEncfNumber(request.range.to, tipoeCF);
+      if (from > to) {
+        throw new AppError(`Invalid range: ${request.range.from}-${request.range.to}`, 400);
+      }
+      if (to - from + 1 > MAX_VOID_COUNT) {
+        throw new AppError(`Cannot void more than ${MAX_VOID_COUNT} e-NCF per request`, 400);
+      }
+      numbers = Array.from({ length: to - from + 1 }, (_, index) => from + index);
+    } else {
+      numbers = Array.from(new Set((request.encfs || []).map((encf) => parseEncfNumber(encf, tipoeCF)))).sort((a, b) => a - b);
+    }
+
+    if (!numbers.length) {
+      throw new AppError('encfs or range is required', 400);
+    }
+    if (numbers.length > MAX_VOID_COUNT) {
+      throw new AppError(`Cannot void more than ${MAX_VOID_COUNT} e-NCF per request`, 400);
+    }
+    return numbers;
+  }
+
+  private getRangeWarnings(range: SequenceRange): string[] {
+    const warnings: string[] = [];
+    if (range.status !== 'active') {
+      return warnings;
+    }
+
+    const days = daysUntil(range.expiresAt);
+    if (days < 0) {
+      warnings.push(`Range ${range.id} (${range.tipoeCF}) expired on ${range.expiresAt}`);
+    } else if (days <= config.sequenceExpiryWarningDays) {
+      warnings.push(`Range ${range.id} (${range.tipoeCF}) expires in ${days} day(s) on ${range.expiresAt}`);
+    }
+
+    if (range.remaining === 0) {
+      warnings.push(`Range ${range.id} (${range.tipoeCF}) is exhausted`);
+    } else if (range.remaining <= config.sequenceLowThreshold) {
+      warnings.push(`Range ${range.id} (${range.tipoeCF}) has only ${range.remaining} e-NCF left`);
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Advierte cuando lo que queda disponible para el RNC, ambiente y tipo (sumando todos los rangos vigentes)
+   * está por agotarse, o cuando el rango en uso está por vencer
+   */
+  private async getAllocationWarnings(rnc: string, tipoeCF: string, environment: string): Promise<string[]> {
+    const ranges = (await database.query(
+      `SELECT * FROM sequence_ranges
+       WHERE rnc = ? AND environment = ? AND tipo_ecf = ? AND status = 'active' AND next_number <= end_number AND expires_at >= ?
+       ORDER BY expires_at, start_number`,
+      [rnc, environment, tipoeCF, todayIsoDate()]
+    )).map(toRange);
+
+    const warnings: string[] = [];
+    const remaining = ranges.reduce((total, range) => total + range.remaining, 0);
+
+    if (remaining <= config.sequenceLowThreshold) {
+      warnings.push(`Only ${remaining} e-NCF left for RNC ${rnc}, TipoeCF ${tipoeCF}. Request a new range from DGII`);
+    }
+
+    const current = ranges[0];
+    if (current) {
+      const days = daysUntil(current.expiresAt);
+      if (days <= config.sequenceExpiryWarningDays) {
+        warnings.push(`Sequence range for RNC ${rnc}, TipoeCF ${tipoeCF} expires in ${days} day(s) on ${current.expiresAt}`);
+      }
+    }
+
+    return warnings;
+  }
+}
+
+export default new SequenceService();
@@ -0,0 +1,306 @@
+import { createEcfBuilder, EcfDescuentoORecargoInput, EcfItemInput } from '../builders';
+import { AppError } from '../middleware/errorHandler';
+import invoiceRulesService from './invoiceRulesService';
+import { isoToDgiiDate, todayIsoDate, toIsoDate } from '../utils/dates';
+import {
+  EcfComprador,
+  EcfIdDoc,
+  EcfOtraMoneda,
+  EcfTotales,
+  IndicadorFacturacion,
+  InvoiceData,
+  SimpleIncomeType,
+  SimpleInvoice,
+  SimpleInvoiceAdjustment,
+  SimpleInvoiceLine,
+  SimpleModificationCode,
+  SimplePaymentMethod,
+  SimplePaymentType,
+  SimpleTaxCode,
+} from '../types';
+
+// Tablas de códigos de DGII para los valores del formato simplificado
+
+const INDICADOR_FACTURACION: Record<SimpleTaxCode, IndicadorFacturacion> = {
+  non_billable: 0,
+  itbis18: 1,
+  itbis16: 2,
+  itbis0: 3,
+  exempt: 4,
+};
+
+const TIPO_INGRESOS: Record<SimpleIncomeType, string> = {
+  operations: '01',
+  financial: '02',
+  extraordinary: '03',
+  leases: '04',
+  asset_sale: '05',
+  other: '06',
+};
+
+const TIPO_PAGO: Record<SimplePaymentType, 1 | 2 | 3> = {
+  cash: 1,
+  credit: 2,
+  free: 3,
+};
+
+const FORMA_PAGO: Record<SimplePaymentMethod, number> = {
+  cash: 1,
+  bank: 2,
+  card: 3,
+  credit: 4,
+  gift_certificate: 5,
+  swap: 6,
+  credit_note: 7,
+  other: 8,
+};
+
+export const CODIGO_MODIFICACION: Record<SimpleModificationCode, 1 | 2 | 3 | 4 | 5> = {
+  void: 1,
+  text_correction: 2,
+  amount_correction: 3,
+  contingency_replacement: 4,
+  consumer_reference: 5,
+};
+
+// Una nota de crédito emitida más de 30 días después de la factura no puede rebajar el ITBIS
+const NOTA_CREDITO_ITBIS_DAYS = 30;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Los montos en cero se omiten del e-CF
+const nonZero = (value: number): number | undefined => (value !== 0 ? value : undefined);
+
+const toDgiiDate = (value: string, field: string): string => {
+  const isoDate = toIsoDate(value);
+  if (!isoDate) {
+    throw new AppError(`Invalid date for ${field}: ${value}. Expected yyyy-MM-dd`, 400);
+  }
+  return isoToDgiiDate(isoDate);
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+/**
+ * Traduce el formato simplificado de factura (claves en inglés, fechas yyyy-MM-dd, códigos con nombre)
+ * al e-CF de DGII: nombres y orden de campos, fechas dd-MM-yyyy y tablas de códigos.
+ *
+ * MontoItem y Totales se calculan a partir de las líneas, por lo que el ERP solo envía cantidades,
+ * precios, descuentos e impuesto de cada línea.
+ */
+export class SimpleInvoiceService {
+  toInvoiceData(invoice: SimpleInvoice, rnc: string, encf?: string): InvoiceData {
+    const builder = createEcfBuilder(invoice.type);
+    const isAllowed = (path: string) => !builder.rules.forbidden.includes(path);
+
+    const issueDate = invoice.issueDate ? toIsoDate(invoice.issueDate) : todayIsoDate();
+    if (!issueDate) {
+      throw new AppError(`Invalid date for issueDate: ${invoice.issueDate}. Expected yyyy-MM-dd`, 400);
+    }
+
+    const items = invoice.lines.map((line) => this.toItem(line));
+    const descuentosORecargos = (invoice.adjustments || []).map((adjustment) => this.toDescuentoORecargo(adjustment, items));
+
+    const idDoc: Omit<EcfIdDoc, 'TipoeCF'> = {
+      eNCF: encf,
+      FechaVencimientoSecuencia: invoice.sequenceExpiryDate
+        ? toDgiiDate(invoice.sequenceExpiryDate, 'sequenceExpiryDate')
+        : undefined,
+      IndicadorNotaCredito: builder.tipoeCF === 34 ? this.indicadorNotaCredito(invoice.reference?.date, issueDate) : undefined,
+      IndicadorMontoGravado: invoice.pricesIncludeTax !== undefined ? (invoice.pricesIncludeTax ? 1 : 0) : undefined,
+      TipoIngresos: isAllowed('Encabezado/IdDoc/TipoIngresos') ? TIPO_INGRESOS[invoice.incomeType || 'operations'] : undefined,
+      TipoPago: TIPO_PAGO[invoice.paymentType || 'cash'],
+      FechaLimitePago: invoice.paymentDueDate ? toDgiiDate(invoice.paymentDueDate, 'paymentDueDate') : undefined,
+      TerminoPago: invoice.paymentTerms,
+      TablaFormasPago: invoice.payments?.length
+        ? { FormaDePago: invoice.payments.map((payment) => ({ FormaPago: FORMA_PAGO[payment.method], MontoPago: payment.amount })) }
+        : undefined,
+    };
+
+    builder
+      .idDoc(idDoc)
+      .emisor({
+        RNCEmisor: rnc,
+        RazonSocialEmisor: invoice.issuer.name,
+        NombreComercial: invoice.issuer.tradeName,
+        Sucursal: invoice.issuer.branch,
+        DireccionEmisor: invoice.issuer.address,
+        Municipio: invoice.issuer.municipality,
+        Provincia: invoice.issuer.province,
+        TablaTelefonoEmisor: invoice.issuer.phones?.length ? { TelefonoEmisor: invoice.issuer.phones } : undefined,
+        CorreoEmisor: invoice.issuer.email,
+        WebSite: invoice.issuer.website,
+        ActividadEconomica: invoice.issuer.economicActivity,
+        CodigoVendedor: invoice.sellerCode,
+        NumeroFacturaInterna: invoice.internalNumber,
+        NumeroPedidoInterno: invoice.orderNumber,
+        FechaEmision: isoToDgiiDate(issueDate),
+      });
+
+    if (invoice.customer) {
+      builder.comprador(this.toComprador(invoice));
+    }
+
+    items.forEach((item) => builder.addItem(item));
+    descuentosORecargos.forEach((ajuste) => builder.addDescuentoORecargo(ajuste));
+
+    const totales = this.toTotales({
+      ECF: {
+        Encabezado: { IdDoc: { TipoeCF: builder.tipoeCF, ...idDoc } },
+        DetallesItems: { Item: items },
+        DescuentosORecargos: { DescuentoORecargo: descuentosORecargos },
+      },
+    } as InvoiceData);
+    builder.totales(totales);
+
+    if (invoice.currency) {
+      builder.otraMoneda(this.toOtraMoneda(totales, invoice.currency.code, invoice.currency.exchangeRate));
+    }
+
+    if (invoice.reference) {
+      builder.informacionReferencia({
+        NCFModificado: invoice.reference.encf,
+        RNCOtroContribuyente: invoice.reference.otherRnc,
+        FechaNCFModificado: toDgiiDate(invoice.reference.date, 'reference.date'),
+        CodigoModificacion: CODIGO_MODIFICACION[invoice.reference.code],
+        RazonModificacion: invoice.reference.reason,
+      });
+    }
+
+    // Sin e-NCF en la petición se asigna al enviar, junto con FechaVencimientoSecuencia
+    return builder.build({ encfPending: !encf });
+  }
+
+  private toItem(line: SimpleInvoiceLine): EcfItemInput {
+    const gross = line.quantity * line.unitPrice;
+    const discount = line.discount ?? (line.discountPercent !== undefined ? round2((gross * line.discountPercent) / 100) : 0);
+    const surcharge = line.surcharge || 0;
+
+    return {
+      IndicadorFacturacion: INDICADOR_FACTURACION[line.tax],
+      Retencion: line.withholding
+        ? {
+            IndicadorAgenteRetencionoPercepcion: line.withholding.agent === 'perception' ? 2 : 1,
+            MontoITBISRetenido: line.withholding.itbis,
+            MontoISRRetenido: line.withholding.isr,
+          }
+        : undefined,
+      NombreItem: line.name,
+      IndicadorBienoServicio: line.kind === 'service' ? 2 : 1,
+      DescripcionItem: line.description,
+      CantidadItem: line.quantity,
+      UnidadMedida: line.unitCode,
+      PrecioUnitarioItem: line.unitPrice,
+      DescuentoMonto: nonZero(discount),
+      TablaSubDescuento:
+        line.discount === undefined && line.discountPercent
+          ? { SubDescuento: [{ TipoSubDescuento: '%', SubDescuentoPorcentaje: line.discountPercent, MontoSubDescuento: discount }] }
+          : undefined,
+      RecargoMonto: nonZero(surcharge),
+      MontoItem: round2(gross - discount + surcharge),
+    };
+  }
+
+  /**
+   * Un ajuste porcentual se calcula sobre las líneas con el mismo impuesto
+   */
+  private toDescuentoORecargo(
+    adjustment: SimpleInvoiceAdjustment,
+    items: EcfItemInput[]
+  ): EcfDescuentoORecargoInput {
+    const indicador = INDICADOR_FACTURACION[adjustment.tax];
+    const base = items
+      .filter((item) => item.IndicadorFacturacion === indicador)
+      .reduce((total, item) => total + item.MontoItem, 0);
+    const amount = adjustment.amount ?? round2((base * (adjustment.percent || 0)) / 100);
+
+    return {
+      TipoAjuste: adjustment.type === 'surcharge' ? 'R' : 'D',
+      DescripcionDescuentooRecargo: adjustment.description,
+      TipoValor: adjustment.amount === undefined ? '%' : '$',
+      ValorDescuentooRecargo: adjustment.amount === undefined ? adjustment.percent : adjustment.amount,
+      MontoDescuentooRecargo: amount,
+      IndicadorFacturacionDescuentooRecargo: indicador,
+    };
+  }
+
+  private toComprador(invoice: SimpleInvoice): EcfComprador {
+    const customer = invoice.customer!;
+    return {
+      RNCComprador: customer.rnc,
+      IdentificadorExtranjero: customer.foreignId,
+      RazonSocialComprador: customer.name,
+      ContactoComprador: customer.contact,
+      CorreoComprador: customer.email,
+      DireccionComprador: customer.address,
+      MunicipioComprador: customer.municipality,
+      ProvinciaComprador: customer.province,
+      FechaEntrega: customer.deliveryDate ? toDgiiDate(customer.deliveryDate, 'customer.deliveryDate') : undefined,
+      FechaOrdenCompra: customer.purchaseOrderDate
+        ? toDgiiDate(customer.purchaseOrderDate, 'customer.purchaseOrderDate')
+        : undefined,
+      NumeroOrdenCompra: customer.purchaseOrderNumber,
+      CodigoInternoComprador: customer.internalCode,
+    };
+  }
+
+  /**
+   * Totales calculados con las mismas reglas que verifica InvoiceRulesService antes de enviar
+   */
+  toTotales(invoiceData: InvoiceData): EcfTotales {
+    const computed = invoiceRulesService.computeTotals(invoiceData);
+    const gravados = [computed.montoGravadoI1, computed.montoGravadoI2, computed.montoGravadoI3];
+
+    return {
+      MontoGravadoTotal: nonZero(computed.montoGravadoTotal),
+      MontoGravadoI1: nonZero(computed.montoGravadoI1),
+      MontoGravadoI2: nonZero(computed.montoGravadoI2),
+      MontoGravadoI3: nonZero(computed.montoGravadoI3),
+      MontoExento: nonZero(computed.montoExento),
+      ITBIS1: gravados[0] ? 18 : undefined,
+      ITBIS2: gravados[1] ? 16 : undefined,
+      ITBIS3: gravados[2] ? 0 : undefined,
+      TotalITBIS: computed.montoGravadoTotal ? computed.totalITBIS : undefined,
+      TotalITBIS1: gravados[0] ? computed.totalITBIS1 : undefined,
+      TotalITBIS2: gravados[1] ? computed.totalITBIS2 : undefined,
+      TotalITBIS3: gravados[2] ? computed.totalITBIS3 : undefined,
+      MontoTotal: computed.montoTotal,
+      MontoNoFacturable: nonZero(computed.montoNoFacturable),
+      TotalITBISRetenido: nonZero(computed.totalITBISRetenido),
+      TotalISRRetencion: nonZero(computed.totalISRRetencion),
+    };
+  }
+
+  toOtraMoneda(totales: EcfTotales, code: string, exchangeRate: number): EcfOtraMoneda {
+    const convert = (value?: number) => (value !== undefined ? round2(value / exchangeRate) : undefined);
+
+    return {
+      TipoMoneda: code,
+      TipoCambio: exchangeRate,
+      MontoGravadoTotalOtraMoneda: convert(totales.MontoGravadoTotal),
+      MontoGravado1OtraMoneda: convert(totales.MontoGravadoI1),
+      MontoGravado2OtraMoneda: convert(totales.MontoGravadoI2),
+      MontoGravado3OtraMoneda: convert(totales.MontoGravadoI3),
+      MontoExentoOtraMoneda: convert(totales.MontoExento),
+      TotalITBISOtraMoneda: convert(totales.TotalITBIS),
+      TotalITBIS1OtraMoneda: convert(totales.TotalITBIS1),
+      TotalITBIS2OtraMoneda: convert(totales.TotalITBIS2),
+      TotalITBIS3OtraMoneda: convert(totales.TotalITBIS3),
+      MontoTotalOtraMoneda: round2(totales.MontoTotal / exchangeRate),
+    };
+  }
+
+  /**
+   * 1 si la nota de crédito se emite más de 30 días después del comprobante que modifica
+   */
+  indicadorNotaCredito(referenceDate: string | undefined, issueDate: string): 0 | 1 | undefined {
+    const isoReferenceDate = referenceDate ? toIsoDate(referenceDate) : undefined;
+    if (!isoReferenceDate) {
+      return undefined;
+    }
+    return daysBetween(isoReferenceDate, issueDate) > NOTA_CREDITO_ITBIS_DAYS ? 1 : 0;
+  }
+}
+
+export default new SimpleInvoiceService();
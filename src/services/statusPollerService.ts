@@ -0,0 +1,100 @@
+import config from '../config/environment';
+import logger from '../utils/logger';
+import dgiiService from './dgiiService';
+import documentService from './documentService';
+import webhookService from './webhookService';
+import { FINAL_DGII_STATUSES, StoredDocument } from '../types';
+
+/**
+ * Consulta periódicamente en DGII el estado de los e-CF enviados que aún no tienen
+ * un estado final (Aceptado, Rechazado o Aceptado Condicional).
+ *
+ * Cada cambio de estado queda en el historial del documento con los mensajes de DGII,
+ * de modo que los clientes no necesitan consultar el trackId por su cuenta.
+ */
+export class StatusPollerService {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  start(): void {
+    if (this.timer || !config.statusPollEnabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.pollPendingDocuments(), config.statusPollIntervalMs);
+    this.timer.unref();
+    logger.info(`DGII status poller started (interval: ${config.statusPollIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('DGII status poller stopped');
+    }
+  }
+
+  async pollPendingDocuments(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const since = new Date(Date.now() - config.statusPollMaxAgeHours * 60 * 60 * 1000).toISOString();
+      const documents = await documentService.findPendingStatus(since, config.statusPollBatchSize);
+
+      for (const document of documents) {
+        await this.checkDocument(document);
+      }
+    } catch (error: any) {
+      logger.error(`DGII status poller error: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Consulta el trackId del documento y registra el estado si cambió.
+   * Los errores se registran sin interrumpir el ciclo; el documento se vuelve a consultar en el siguiente.
+   */
+  async checkDocument(document: StoredDocument): Promise<void> {
+    try {
+      const status = await dgiiService.getStatus(document.trackId!, document.rncEmisor, document.environment);
+      if (!status?.estado) {
+        return;
+      }
+
+      const changed = await documentService.recordStatus(document, status.estado, status.codigo, status.mensajes || []);
+      if (!changed) {
+        return;
+      }
+
+      const isFinal = (FINAL_DGII_STATUSES as readonly string[]).includes(status.estado);
+      logger.info(
+        `Document status changed - e-NCF: ${document.encf}, TrackID: ${document.trackId}, ` +
+          `${document.dgiiStatus || 'none'} -> ${status.estado}${isFinal ? ' (final)' : ''}`
+      );
+
+      await webhookService.emit(
+        'document.status_changed',
+        {
+          documentId: document.id,
+          encf: document.encf,
+          rncEmisor: document.rncEmisor,
+          trackId: document.trackId,
+          previousStatus: document.dgiiStatus || null,
+          status: status.estado,
+          code: status.codigo,
+          messages: status.mensajes || [],
+          final: isFinal,
+        },
+        document.rncEmisor
+      );
+    } catch (error: any) {
+      logger.error(`Error checking status for document ${document.id} (TrackID: ${document.trackId}): ${error.message}`);
+    }
+  }
+}
+
+export default new StatusPollerService();
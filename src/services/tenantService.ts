@@ -0,0 +1,347 @@
+import { randomUUID } from 'crypto';
+import database from '../database';
+import { Queryable } from '../database/types';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { decryptSecret, encryptSecret, generateApiKey, hashApiKey } from '../utils/crypto';
+import certificateValidationService from './certificateValidationService';
+import {
+  CreateTenantRequest,
+  CreatedTenantApiKey,
+  Tenant,
+  TenantApiKey,
+  UpdateTenantRequest,
+} from '../types';
+
+const API_KEY_PREFIX_LENGTH = 12;
+
+/**
+ * Certificado de un tenant ya descifrado, para cargarlo con P12Reader
+ */
+export interface TenantCertificate {
+  tenantId: string;
+  version: string; // Cambia cada vez que se actualiza el tenant; invalida el certificado en caché
+  certificateBase64: string;
+  password: string;
+}
+
+const toTenant = (row: any, rncs: string[]): Tenant => ({
+  id: row.id,
+  name: row.name,
+  rncs,
+  environment: row.environment || undefined,
+  receptorRules: row.receptor_rules ? JSON.parse(row.receptor_rules) : undefined,
+  hasCertificate: Boolean(row.certificate),
+  active: Boolean(row.active),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toApiKey = (row: any): TenantApiKey => ({
+  id: row.id,
+  tenantId: row.tenant_id,
+  prefix: row.prefix,
+  description: row.description || undefined,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at || undefined,
+  revokedAt: row.revoked_at || undefined,
+});
+
+/**
+ * Registro de tenants: empresas con sus propias API keys, RNC, certificado y ambiente DGII.
+ *
+ * Cada RNC pertenece a un solo tenant y el certificado se resuelve a partir del RNC,
+ * por lo que una petición autorizada para un RNC solo puede firmar con el certificado
+ * del tenant dueño de ese RNC. El certificado y su contraseña se guardan cifrados.
+ */
+export class TenantService {
+  async createTenant(data: CreateTenantRequest): Promise<Tenant> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+
+    if (data.certificateBase64 !== undefined) {
+      this.assertCertificate(data.certificateBase64, data.certificatePassword || '', data.rncs);
+    }
+
+    await database.transaction(async (tx) => {
+      await tx.execute(
+        `INSERT INTO tenants (id, name, environment, receptor_rules, certificate, certificate_password, active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          data.name,
+          data.environment || null,
+          data.receptorRules ? JSON.stringify(data.receptorRules) : null,
+          data.certificateBase64 ? encryptSecret(data.certificateBase64) : null,
+          data.certificateBase64 ? encryptSecret(data.certificatePassword || '') : null,
+          data.active === false ? 0 : 1,
+          now,
+          now,
+        ]
+      );
+      await this.saveRncs(tx, id, data.rncs);
+    });
+
+    logger.info(`Tenant created - ID: ${id}, Name: ${data.name}, RNCs: ${data.rncs.join(', ')}`);
+
+    return this.getTenant(id);
+  }
+
+  async getTenant(id: string): Promise<Tenant> {
+    const row = await database.queryOne('SELECT * FROM tenants WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Tenant not found: ${id}`, 404);
+    }
+    return toTenant(row, await this.getRncs(id));
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    const rows = await database.query('SELECT * FROM tenants ORDER BY created_at');
+    const rncRows = await database.query<{ rnc: string; tenant_id: string }>(
+      'SELECT rnc, tenant_id FROM tenant_rncs ORDER BY rnc'
+    );
+
+    return rows.map((row) =>
+      toTenant(
+        row,
+        rncRows.filter((rncRow) => rncRow.tenant_id === row.id).map((rncRow) => rncRow.rnc)
+      )
+    );
+  }
+
+  /**
+   * Actualiza el tenant. Si se cambia el certificado o la contraseña, se valida
+   * la combinación resultante antes de guardarla.
+   */
+  async updateTenant(id: string, changes: UpdateTenantRequest): Promise<Tenant> {
+    const row = await database.queryOne('SELECT * FROM tenants WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Tenant not found: ${id}`, 404);
+    }
+
+    let certificate: string | null = row.certificate;
+    let certificatePassword: string | null = row.certificate_password;
+
+    // El certificado se verifica de nuevo si cambia el certificado, la contraseña o los RNC que firma
+    if (
+      changes.certificateBase64 !== undefined ||
+      changes.certificatePassword !== undefined ||
+      (changes.rncs && row.certificate)
+    ) {
+      const certificateBase64 =
+        changes.certificateBase64 ?? (row.certificate ? decryptSecret(row.certificate).toString() : undefined);
+      if (!certificateBase64) {
+        throw new AppError('certificateBase64 is required to set a certificate password', 400);
+      }
+
+      const password =
+        changes.certificatePassword ??
+        (changes.certificateBase64 === undefined && row.certificate_password
+          ? decryptSecret(row.certificate_password).toString()
+          : '');
+
+      this.assertCertificate(certificateBase64, password, changes.rncs || (await this.getRncs(id)));
+      certificate = encryptSecret(certificateBase64);
+      certificatePassword = encryptSecret(password);
+    }
+
+    await database.transaction(async (tx) => {
+      await tx.execute(
+        `UPDATE tenants
+         SET name = ?, environment = ?, receptor_rules = ?, certificate = ?, certificate_password = ?, active = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          changes.name ?? row.name,
+          changes.environment !== undefined ? changes.environment : row.environment,
+          changes.receptorRules !== undefined
+            ? changes.receptorRules && JSON.stringify(changes.receptorRules)
+            : row.receptor_rules,
+          certificate,
+          certificatePassword,
+          changes.active !== undefined ? (changes.active ? 1 : 0) : row.active,
+          new Date().toISOString(),
+          id,
+        ]
+      );
+
+      if (changes.rncs) {
+        await tx.execute('DELETE FROM tenant_rncs WHERE tenant_id = ?', [id]);
+        await this.saveRncs(tx, id, changes.rncs);
+      }
+    });
+
+    logger.info(`Tenant updated - ID: ${id}`);
+
+    return this.getTenant(id);
+  }
+
+  /**
+   * Elimina el tenant con sus RNC, API keys y suscripciones de webhook.
+   * Los documentos emitidos se conservan: DGII exige guardarlos.
+   */
+  async deleteTenant(id: string): Promise<void> {
+    await this.getTenant(id);
+
+    await database.transaction(async (tx) => {
+      await tx.execute(
+        'DELETE FROM webhook_deliveries WHERE subscription_id IN (SELECT id FROM webhook_subscriptions WHERE tenant_id = ?)',
+        [id]
+      );
+      await tx.execute('DELETE FROM webhook_subscriptions WHERE tenant_id = ?', [id]);
+      await tx.execute('DELETE FROM tenant_api_keys WHERE tenant_id = ?', [id]);
+      await tx.execute('DELETE FROM tenant_rncs WHERE tenant_id = ?', [id]);
+      await tx.execute('DELETE FROM tenants WHERE id = ?', [id]);
+    });
+
+    logger.info(`Tenant deleted - ID: ${id}`);
+  }
+
+  /**
+   * Genera una API key para el tenant. La key en claro solo se retorna aquí
+   */
+  async createApiKey(tenantId: string, description?: string): Promise<CreatedTenantApiKey> {
+    await this.getTenant(tenantId);
+
+    const apiKey = generateApiKey();
+    const id = randomUUID();
+
+    await database.execute(
+      `INSERT INTO tenant_api_keys (id, tenant_id, key_hash, prefix, description, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, tenantId, hashApiKey(apiKey), apiKey.slice(0, API_KEY_PREFIX_LENGTH), description || null, new Date().toISOString()]
+    );
+
+    logger.info(`Tenant API key created - Tenant: ${tenantId}, Key: ${id}`);
+
+    const row = await database.queryOne('SELECT * FROM tenant_api_keys WHERE id = ?', [id]);
+    return { ...toApiKey(row), apiKey };
+  }
+
+  async listApiKeys(tenantId: string): Promise<TenantApiKey[]> {
+    await this.getTenant(tenantId);
+
+    const rows = await database.query('SELECT * FROM tenant_api_keys WHERE tenant_id = ? ORDER BY created_at', [tenantId]);
+    return rows.map(toApiKey);
+  }
+
+  async revokeApiKey(tenantId: string, keyId: string): Promise<TenantApiKey> {
+    const updated = await database.execute(
+      'UPDATE tenant_api_keys SET revoked_at = ? WHERE id = ? AND tenant_id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), keyId, tenantId]
+    );
+
+    const row = await database.queryOne('SELECT * FROM tenant_api_keys WHERE id = ? AND tenant_id = ?', [keyId, tenantId]);
+    if (!row) {
+      throw new AppError(`API key not found: ${keyId}`, 404);
+    }
+    if (updated) {
+      logger.info(`Tenant API key revoked - Tenant: ${tenantId}, Key: ${keyId}`);
+    }
+
+    return toApiKey(row);
+  }
+
+  /**
+   * Tenant activo dueño de la API key, o undefined si la key no existe o fue revocada
+   */
+  async authenticate(apiKey: string): Promise<Tenant | undefined> {
+    const keyRow = await database.queryOne<{ id: string; tenant_id: string }>(
+      'SELECT id, tenant_id FROM tenant_api_keys WHERE key_hash = ? AND revoked_at IS NULL',
+      [hashApiKey(apiKey)]
+    );
+    if (!keyRow) {
+      return undefined;
+    }
+
+    const row = await database.queryOne('SELECT * FROM tenants WHERE id = ? AND active = 1', [keyRow.tenant_id]);
+    if (!row) {
+      return undefined;
+    }
+
+    await database.execute('UPDATE tenant_api_keys SET last_used_at = ? WHERE id = ?', [
+      new Date().toISOString(),
+      keyRow.id,
+    ]);
+
+    return toTenant(row, await this.getRncs(row.id));
+  }
+
+  async findTenantIdByRnc(rnc: string): Promise<string | undefined> {
+    const row = await database.queryOne<{ tenant_id: string }>('SELECT tenant_id FROM tenant_rncs WHERE rnc = ?', [rnc]);
+    return row?.tenant_id;
+  }
+
+  /**
+   * Certificado del tenant dueño del RNC. undefined si el RNC no pertenece a ningún
+   * tenant o si el tenant no tiene certificado (se usa el de la carpeta de certificados)
+   */
+  async getCertificate(rnc: string): Promise<TenantCertificate | undefined> {
+    const row = await database.queryOne(
+      `SELECT t.id, t.certificate, t.certificate_password, t.updated_at
+       FROM tenants t JOIN tenant_rncs r ON r.tenant_id = t.id
+       WHERE r.rnc = ?`,
+      [rnc]
+    );
+    if (!row?.certificate) {
+      return undefined;
+    }
+
+    return {
+      tenantId: row.id,
+      version: row.updated_at,
+      certificateBase64: decryptSecret(row.certificate).toString(),
+      password: row.certificate_password ? decryptSecret(row.certificate_password).toString() : '',
+    };
+  }
+
+  /**
+   * Certificados de todos los tenants con sus RNC (para el monitor de vencimiento)
+   */
+  async listCertificates(): Promise<(TenantCertificate & { rncs: string[] })[]> {
+    const rows = await database.query(
+      'SELECT id, certificate, certificate_password, updated_at FROM tenants WHERE certificate IS NOT NULL ORDER BY created_at'
+    );
+
+    const certificates: (TenantCertificate & { rncs: string[] })[] = [];
+    for (const row of rows) {
+      certificates.push({
+        tenantId: row.id,
+        version: row.updated_at,
+        certificateBase64: decryptSecret(row.certificate).toString(),
+        password: row.certificate_password ? decryptSecret(row.certificate_password).toString() : '',
+        rncs: await this.getRncs(row.id),
+      });
+    }
+    return certificates;
+  }
+
+  private async getRncs(tenantId: string): Promise<string[]> {
+    const rows = await database.query<{ rnc: string }>(
+      'SELECT rnc FROM tenant_rncs WHERE tenant_id = ? ORDER BY rnc',
+      [tenantId]
+    );
+    return rows.map((row) => row.rnc);
+  }
+
+  private async saveRncs(tx: Queryable, tenantId: string, rncs: string[]): Promise<void> {
+    for (const rnc of rncs) {
+      const owner = await tx.queryOne<{ tenant_id: string }>('SELECT tenant_id FROM tenant_rncs WHERE rnc = ?', [rnc]);
+      if (owner && owner.tenant_id !== tenantId) {
+        throw new AppError(`RNC ${rnc} already belongs to another tenant`, 409);
+      }
+      await tx.execute('INSERT INTO tenant_rncs (rnc, tenant_id) VALUES (?, ?)', [rnc, tenantId]);
+    }
+  }
+
+  /**
+   * Verifica el P12 para cada RNC del tenant (contraseña, llave, vigencia, sujeto, cadena y uso de llave)
+   */
+  private assertCertificate(certificateBase64: string, password: string, rncs: string[]): void {
+    const { errors } = certificateValidationService.validateP12(certificateBase64, password, rncs);
+    if (errors.length) {
+      throw new AppError(`Invalid tenant certificate: ${errors.length} error(s)`, 422, errors);
+    }
+  }
+}
+
+export default new TenantService();
@@ -0,0 +1,362 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import axios from 'axios';
+import database from '../database';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { isRetryableError } from '../utils/errors';
+import jobQueueService from './jobQueueService';
+import tenantService from './tenantService';
+import {
+  CreateWebhookSubscriptionRequest,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookSubscription,
+} from '../types';
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook.deliver';
+
+interface WebhookDeliveryJob {
+  deliveryId: string;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+const toSubscription = (row: any): WebhookSubscription => ({
+  id: row.id,
+  url: row.url,
+  events: JSON.parse(row.events),
+  secret: row.secret,
+  tenantId: row.tenant_id || undefined,
+  rnc: row.rnc || undefined,
+  headers: row.headers ? JSON.parse(row.headers) : undefined,
+  payloadFormat: row.payload_format,
+  description: row.description || undefined,
+  active: Boolean(row.active),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toDelivery = (row: any): WebhookDelivery => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  event: row.event,
+  payload: JSON.parse(row.payload),
+  status: row.status,
+  attempts: Number(row.attempts),
+  responseStatus: row.response_status ?? undefined,
+  responseBody: row.response_body || undefined,
+  lastError: row.last_error || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  deliveredAt: row.delivered_at || undefined,
+});
+
+/**
+ * Firma HMAC-SHA256 del cuerpo enviado. Se firma `${timestamp}.${body}` para que
+ * el receptor pueda rechazar notificaciones repetidas fuera de una ventana de tiempo.
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Suscripciones a eventos y entrega de webhooks firmados.
+ *
+ * Cada notificación queda registrada como una entrega (webhook_deliveries) y se envía
+ * a través de la cola de trabajos, que reintenta ante fallas de red, 429 o 5xx.
+ */
+export class WebhookService {
+  constructor() {
+    jobQueueService.registerHandler<WebhookDeliveryJob, any>(WEBHOOK_DELIVERY_JOB, async ({ deliveryId }, job) =>
+      this.deliver(deliveryId, job.attempts >= job.maxAttempts)
+    );
+  }
+
+  async createSubscription(data: CreateWebhookSubscriptionRequest): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+
+    if (data.tenantId) {
+      await tenantService.getTenant(data.tenantId);
+    }
+
+    await database.execute(
+      `INSERT INTO webhook_subscriptions
+         (id, url, events, secret, tenant_id, rnc, headers, payload_format, description, active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        data.url,
+        JSON.stringify(data.events),
+        data.secret || randomBytes(32).toString('hex'),
+        data.tenantId || null,
+        data.rnc || null,
+        data.headers ? JSON.stringify(data.headers) : null,
+        data.payloadFormat || 'event',
+        data.description || null,
+        data.active === false ? 0 : 1,
+        now,
+        now,
+      ]
+    );
+
+    logger.info(`Webhook subscription created - ID: ${id}, URL: ${data.url}, Events: ${data.events.join(', ')}`);
+
+    return this.getSubscription(id);
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription> {
+    const row = await database.queryOne('SELECT * FROM webhook_subscriptions WHERE id = ?', [id]);
+    if (!row) {
+      throw new AppError(`Webhook subscription not found: ${id}`, 404);
+    }
+    return toSubscription(row);
+  }
+
+  async listSubscriptions(filters: { rnc?: string; tenantId?: string } = {}): Promise<WebhookSubscription[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.rnc) {
+      conditions.push('rnc = ?');
+      params.push(filters.rnc);
+    }
+    if (filters.tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(filters.tenantId);
+    }
+
+    const rows = await database.query(
+      `SELECT * FROM webhook_subscriptions ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at`,
+      params
+    );
+
+    return rows.map(toSubscription);
+  }
+
+  async updateSubscription(id: string, changes: Partial<CreateWebhookSubscriptionRequest>): Promise<WebhookSubscription> {
+    const current = await this.getSubscription(id);
+    const updated = { ...current, ...changes };
+
+    await database.execute(
+      `UPDATE webhook_subscriptions
+       SET url = ?, events = ?, secret = ?, rnc = ?, headers = ?, payload_format = ?, description = ?, active = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        updated.url,
+        JSON.stringify(updated.events),
+        updated.secret,
+        updated.rnc || null,
+        updated.headers ? JSON.stringify(updated.headers) : null,
+        updated.payloadFormat,
+        updated.description || null,
+        updated.active ? 1 : 0,
+        new Date().toISOString(),
+        id,
+      ]
+    );
+
+    return this.getSubscription(id);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.getSubscription(id);
+
+    await database.transaction(async (tx) => {
+      await tx.execute('DELETE FROM webhook_deliveries WHERE subscription_id = ?', [id]);
+      await tx.execute('DELETE FROM webhook_subscriptions WHERE id = ?', [id]);
+    });
+
+    logger.info(`Webhook subscription deleted - ID: ${id}`);
+  }
+
+  /**
+   * Registra y encola una entrega para cada suscripción activa al evento.
+   * Las suscripciones con RNC solo reciben eventos de ese RNC, y las de un tenant solo los de sus RNC.
+   * Nunca lanza error: una falla al notificar no debe interrumpir la operación que generó el evento.
+   */
+  async emit(event: WebhookEvent, data: any, rnc?: string): Promise<void> {
+    try {
+      const tenantId = rnc ? await tenantService.findTenantIdByRnc(rnc) : undefined;
+      const subscriptions = (await database.query('SELECT * FROM webhook_subscriptions WHERE active = 1'))
+        .map(toSubscription)
+        .filter((subscription) => subscription.events.includes(event))
+        .filter((subscription) => !subscription.tenantId || subscription.tenantId === tenantId)
+        .filter((subscription) => !subscription.rnc || subscription.rnc === rnc);
+
+      for (const subscription of subscriptions) {
+        const now = new Date().toISOString();
+        const deliveryId = randomUUID();
+
+        await database.execute(
+          `INSERT INTO webhook_deliveries (id, subscription_id, event, payload, status, attempts, created_at, updated_at)
+           VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)`,
+          [deliveryId, subscription.id, event, JSON.stringify(data), now, now]
+        );
+
+        await jobQueueService.enqueue<WebhookDeliveryJob>(WEBHOOK_DELIVERY_JOB, { deliveryId }, { reference: deliveryId });
+      }
+    } catch (error: any) {
+      logger.error(`Error emitting webhook event ${event}: ${error.message}`);
+    }
+  }
+
+  async getDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const row = await database.queryOne(
+      'SELECT * FROM webhook_deliveries WHERE id = ? AND subscription_id = ?',
+      [deliveryId, subscriptionId]
+    );
+    if (!row) {
+      throw new AppError(`Webhook delivery not found: ${deliveryId}`, 404);
+    }
+    return toDelivery(row);
+  }
+
+  async listDeliveries(
+    subscriptionId: string,
+    filters: { status?: WebhookDeliveryStatus; event?: string; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    await this.getSubscription(subscriptionId);
+
+    const conditions = ['subscription_id = ?'];
+    const params: any[] = [subscriptionId];
+
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.event) {
+      conditions.push('event = ?');
+      params.push(filters.event);
+    }
+
+    const rows = await database.query(
+      `SELECT * FROM webhook_deliveries WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ?`,
+      [...params, Math.min(filters.limit || 50, 500)]
+    );
+
+    return rows.map(toDelivery);
+  }
+
+  /**
+   * Vuelve a enviar una entrega (fallida o no) con el mismo payload
+   */
+  async replayDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery> {
+    await this.getDelivery(subscriptionId, deliveryId);
+
+    await database.execute(
+      "UPDATE webhook_deliveries SET status = 'pending', updated_at = ? WHERE id = ?",
+      [new Date().toISOString(), deliveryId]
+    );
+    await jobQueueService.enqueue<WebhookDeliveryJob>(WEBHOOK_DELIVERY_JOB, { deliveryId }, { reference: deliveryId });
+
+    logger.info(`Webhook delivery replay queued - ID: ${deliveryId}`);
+
+    return this.getDelivery(subscriptionId, deliveryId);
+  }
+
+  /**
+   * Crea una suscripción para la URL de Odoo configurada en ODOO_WEBHOOK_URL,
+   * con el mismo payload y encabezado x-api-key que enviaba la notificación anterior.
+   */
+  async ensureLegacySubscription(): Promise<void> {
+    if (!config.odooWebhookUrl) {
+      return;
+    }
+
+    const existing = await database.queryOne('SELECT id FROM webhook_subscriptions WHERE url = ?', [config.odooWebhookUrl]);
+    if (existing) {
+      return;
+    }
+
+    await this.createSubscription({
+      url: config.odooWebhookUrl,
+      events: ['ecf.received'],
+      headers: config.odooWebhookApiKey ? { 'x-api-key': config.odooWebhookApiKey } : undefined,
+      payloadFormat: 'data',
+      description: 'Odoo (ODOO_WEBHOOK_URL)',
+    });
+  }
+
+  /**
+   * Envía una entrega. Si falla, el error se propaga para que la cola reintente;
+   * cuando no quedan reintentos (o el error no es transitorio) la entrega queda como fallida.
+   */
+  private async deliver(deliveryId: string, isLastAttempt: boolean): Promise<{ status: number }> {
+    const row = await database.queryOne(
+      `SELECT d.*, s.url, s.secret, s.headers, s.payload_format
+       FROM webhook_deliveries d JOIN webhook_subscriptions s ON s.id = d.subscription_id
+       WHERE d.id = ?`,
+      [deliveryId]
+    );
+    if (!row) {
+      throw new AppError(`Webhook delivery not found: ${deliveryId}`, 404);
+    }
+
+    const delivery = toDelivery(row);
+    const body = JSON.stringify(
+      row.payload_format === 'data'
+        ? delivery.payload
+        : { id: delivery.id, event: delivery.event, createdAt: delivery.createdAt, data: delivery.payload }
+    );
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await axios.post(row.url, body, {
+        headers: {
+          ...(row.headers ? JSON.parse(row.headers) : {}),
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(row.secret, timestamp, body),
+        },
+        timeout: DELIVERY_TIMEOUT_MS,
+      });
+
+      const now = new Date().toISOString();
+      await database.execute(
+        `UPDATE webhook_deliveries
+         SET status = 'delivered', attempts = attempts + 1, response_status = ?, response_body = ?, last_error = NULL,
+             updated_at = ?, delivered_at = ?
+         WHERE id = ?`,
+        [response.status, this.truncate(response.data), now, now, deliveryId]
+      );
+
+      logger.info(`Webhook delivered - ID: ${deliveryId}, Event: ${delivery.event}, Status: ${response.status}`);
+      return { status: response.status };
+    } catch (error: any) {
+      const failed = isLastAttempt || !isRetryableError(error);
+
+      await database.execute(
+        `UPDATE webhook_deliveries
+         SET status = ?, attempts = attempts + 1, response_status = ?, response_body = ?, last_error = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          failed ? 'failed' : 'pending',
+          error.response?.status ?? null,
+          this.truncate(error.response?.data),
+          error.message,
+          new Date().toISOString(),
+          deliveryId,
+        ]
+      );
+
+      logger.warn(`Webhook delivery failed - ID: ${deliveryId}, Event: ${delivery.event}, Error: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private truncate(data: any): string | null {
+    if (data === undefined || data === null || data === '') {
+      return null;
+    }
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.slice(0, MAX_RESPONSE_BODY_LENGTH);
+  }
+}
+
+export default new WebhookService();
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { validateXML } from 'xmllint-wasm';
+import { DOMParser } from '@xmldom/xmldom';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { XsdDocumentType, XsdValidationError, XsdValidationResult } from '../types';
+
+const XSD_DOCUMENT_TYPES: XsdDocumentType[] = ['ECF', 'RFCE', 'ARECF', 'ACECF', 'ANECF'];
+
+const DOCUMENT_FILE_NAME = 'document.xml';
+
+/**
+ * Nombre del archivo XSD esperado en config.xsdPath para cada documento (ver xsd/README.md)
+ */
+export const getSchemaFileName = (documentType: XsdDocumentType, tipoeCF?: string): string => {
+  switch (documentType) {
+    case 'ECF':
+      return `ECF-${tipoeCF}.xsd`;
+    case 'RFCE':
+      return 'RFCE-32.xsd';
+    default:
+      return `${documentType}.xsd`;
+  }
+};
+
+// Con locator, xmldom agrega a cada elemento la línea en que inicia
+type LocatedElement = Element & { lineNumber?: number };
+
+const parseXml = (xml: string): Document =>
+  new DOMParser({ locator: {}, errorHandler: { warning: () => undefined, error: () => undefined } }).parseFromString(
+    xml,
+    'text/xml'
+  );
+
+/**
+ * Relaciona cada línea del XML con la ruta XPath del elemento que inicia en ella,
+ * incluyendo la posición cuando hay hermanos con el mismo nombre (p.ej. /ECF/DetallesItems/Item[2])
+ */
+const buildLineIndex = (doc: Document): Map<number, string> => {
+  const index = new Map<number, string>();
+
+  const visit = (element: LocatedElement, xpath: string) => {
+    const line = element.lineNumber;
+    if (line && !index.has(line)) {
+      index.set(line, xpath);
+    }
+
+    const children = Array.from(element.childNodes).filter((node) => node.nodeType === 1) as Element[];
+    const counts = new Map<string, number>();
+    const positions = new Map<string, number>();
+    children.forEach((child) => counts.set(child.nodeName, (counts.get(child.nodeName) || 0) + 1));
+
+    for (const child of children) {
+      const position = (positions.get(child.nodeName) || 0) + 1;
+      positions.set(child.nodeName, position);
+      const step = counts.get(child.nodeName)! > 1 ? `${child.nodeName}[${position}]` : child.nodeName;
+      visit(child, `${xpath}/${step}`);
+    }
+  };
+
+  if (doc.documentElement) {
+    visit(doc.documentElement, `/${doc.documentElement.nodeName}`);
+  }
+
+  return index;
+};
+
+/**
+ * Valida los documentos contra los XSD oficiales de DGII antes de firmarlos.
+ *
+ * Los XSD no se distribuyen con el servicio: se deben copiar en XSD_PATH con los nombres
+ * indicados en xsd/README.md. Si falta el XSD de un documento, la validación se omite con una
+ * advertencia, salvo que XSD_REQUIRE_SCHEMAS=true.
+ */
+export class XsdValidationService {
+  private schemas: Map<string, string> = new Map();
+  private warnedMissing: Set<string> = new Set();
+
+  /**
+   * Tipo de documento según el nodo raíz, y TipoeCF para los e-CF
+   */
+  detect(xml: string): { documentType: XsdDocumentType; tipoeCF?: string } | undefined {
+    const doc = parseXml(xml);
+    const root = doc.documentElement?.nodeName as XsdDocumentType | undefined;
+
+    if (!root || !XSD_DOCUMENT_TYPES.includes(root)) {
+      return undefined;
+    }
+
+    const tipoeCF = doc.getElementsByTagName('TipoeCF')[0]?.textContent?.trim() || undefined;
+    return { documentType: root, tipoeCF };
+  }
+
+  /**
+   * Valida el XML contra su XSD. Lanza 400 si el tipo de documento no se reconoce
+   * y 503 si el XSD correspondiente no está instalado.
+   */
+  async validate(xml: string): Promise<XsdValidationResult> {
+    const detected = this.detect(xml);
+    if (!detected) {
+      throw new AppError(`Unsupported document for XSD validation. Root element must be one of: ${XSD_DOCUMENT_TYPES.join(', ')}`, 400);
+    }
+
+    const { documentType, tipoeCF } = detected;
+    if (documentType === 'ECF' && !tipoeCF) {
+      throw new AppError('Encabezado/IdDoc/TipoeCF is required to select the e-CF schema', 400);
+    }
+
+    const schemaFile = getSchemaFileName(documentType, tipoeCF);
+    const schema = this.loadSchema(schemaFile);
+    if (!schema) {
+      throw new AppError(`XSD schema not installed: ${schemaFile} (XSD_PATH=${config.xsdPath}). See xsd/README.md`, 503);
+    }
+
+    // Se valida el XML formateado (un elemento por línea) para poder ubicar cada error
+    const formatted = await validateXML({ xml: { fileName: DOCUMENT_FILE_NAME, contents: xml }, normalization: 'format' });
+    const contents = formatted.normalized || xml;
+
+    const result = await validateXML({
+      xml: { fileName: DOCUMENT_FILE_NAME, contents },
+      schema: { fileName: schemaFile, contents: schema },
+      preload: this.loadIncludedSchemas(schemaFile),
+    });
+
+    const lineIndex = buildLineIndex(parseXml(contents));
+    const errors: XsdValidationError[] = result.errors.map((error) => {
+      const line = error.loc?.fileName === DOCUMENT_FILE_NAME ? error.loc.lineNumber : undefined;
+      return {
+        message: error.message.replace(/^Schemas validity error\s*:\s*/, '').trim(),
+        ...(line && lineIndex.has(line) && { xpath: lineIndex.get(line) }),
+        ...(line && { line }),
+      };
+    });
+
+    return { valid: result.valid, documentType, schema: schemaFile, errors };
+  }
+
+  /**
+   * Valida el documento antes de firmarlo y lanza 422 con los errores por campo si no cumple el XSD.
+   * Los documentos que no son de DGII (p.ej. SemillaModel) no se validan.
+   */
+  async assertValid(xml: string): Promise<void> {
+    if (!config.xsdValidationEnabled) {
+      return;
+    }
+
+    const detected = this.detect(xml);
+    if (!detected) {
+      return;
+    }
+
+    const schemaFile = getSchemaFileName(detected.documentType, detected.tipoeCF);
+    if (!this.loadSchema(schemaFile) && !config.xsdRequireSchemas) {
+      if (!this.warnedMissing.has(schemaFile)) {
+        this.warnedMissing.add(schemaFile);
+        logger.warn(`XSD schema not installed, skipping validation: ${schemaFile} (XSD_PATH=${config.xsdPath})`);
+      }
+      return;
+    }
+
+    await this.validateOrThrow(xml);
+  }
+
+  /**
+   * Igual que validate, pero lanza 422 con los errores por campo si el documento no cumple el XSD
+   */
+  async validateOrThrow(xml: string): Promise<XsdValidationResult> {
+    const result = await this.validate(xml);
+    if (!result.valid) {
+      throw new AppError(
+        `${result.documentType} does not conform to ${result.schema}: ${result.errors.length} error(s)`,
+        422,
+        result.errors
+      );
+    }
+    return result;
+  }
+
+  private loadSchema(fileName: string): string | undefined {
+    if (this.schemas.has(fileName)) {
+      return this.schemas.get(fileName);
+    }
+
+    const filePath = path.join(config.xsdPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    const contents = fs.readFileSync(filePath, 'utf-8');
+    this.schemas.set(fileName, contents);
+    return contents;
+  }
+
+  /**
+   * Los demás XSD del directorio se cargan para resolver xs:include / xs:import
+   */
+  private loadIncludedSchemas(schemaFile: string): { fileName: string; contents: string }[] {
+    if (!fs.existsSync(config.xsdPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(config.xsdPath)
+      .filter((fileName) => fileName.endsWith('.xsd') && fileName !== schemaFile)
+      .map((fileName) => ({ fileName, contents: this.loadSchema(fileName)! }));
+  }
+}
+
+export default new XsdValidationService();
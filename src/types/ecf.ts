@@ -0,0 +1,316 @@
+/**
+ * Estructura del e-CF según el formato de DGII (v1.0). Los nombres de campo son los del XML;
+ * el orden de los campos de cada sección está en src/builders/ecfFieldOrder.ts.
+ *
+ * Los campos obligatorios y no permitidos dependen del TipoeCF (ver src/builders/ecfTypeRules.ts),
+ * por lo que aquí solo son obligatorios los que aplican a todos los tipos.
+ */
+
+/** Fechas en formato dd-MM-yyyy */
+export type EcfDate = string;
+
+/** Fecha y hora en formato dd-MM-yyyy HH:mm:ss */
+export type EcfDateTime = string;
+
+export type EcfTipo = 31 | 32 | 33 | 34 | 41 | 43 | 44 | 45 | 46 | 47;
+
+/**
+ * 0 = No facturable, 1 = ITBIS 18%, 2 = ITBIS 16%, 3 = ITBIS 0%, 4 = Exento
+ */
+export type IndicadorFacturacion = 0 | 1 | 2 | 3 | 4;
+
+export interface EcfFormaDePago {
+  FormaPago: number;
+  MontoPago: number;
+}
+
+export interface EcfIdDoc {
+  TipoeCF: EcfTipo;
+  eNCF?: string;
+  FechaVencimientoSecuencia?: EcfDate;
+  IndicadorNotaCredito?: 0 | 1;
+  IndicadorEnvioDiferido?: 0 | 1;
+  IndicadorMontoGravado?: 0 | 1;
+  IndicadorServicioTodoIncluido?: 0 | 1;
+  TipoIngresos?: string;
+  TipoPago?: 1 | 2 | 3;
+  FechaLimitePago?: EcfDate;
+  TerminoPago?: string;
+  TablaFormasPago?: { FormaDePago: EcfFormaDePago[] };
+  TipoCuentaPago?: string;
+  NumeroCuentaPago?: string;
+  BancoPago?: string;
+  FechaDesde?: EcfDate;
+  FechaHasta?: EcfDate;
+  TotalPaginas?: number;
+}
+
+export interface EcfEmisor {
+  RNCEmisor: string;
+  RazonSocialEmisor: string;
+  NombreComercial?: string;
+  Sucursal?: string;
+  DireccionEmisor?: string;
+  Municipio?: string;
+  Provincia?: string;
+  TablaTelefonoEmisor?: { TelefonoEmisor: string[] };
+  CorreoEmisor?: string;
+  WebSite?: string;
+  ActividadEconomica?: string;
+  CodigoVendedor?: string;
+  NumeroFacturaInterna?: string;
+  NumeroPedidoInterno?: string;
+  ZonaVenta?: string;
+  RutaVenta?: string;
+  InformacionAdicionalEmisor?: string;
+  FechaEmision: EcfDate;
+}
+
+export interface EcfComprador {
+  RNCComprador?: string;
+  IdentificadorExtranjero?: string;
+  RazonSocialComprador?: string;
+  ContactoComprador?: string;
+  CorreoComprador?: string;
+  DireccionComprador?: string;
+  MunicipioComprador?: string;
+  ProvinciaComprador?: string;
+  FechaEntrega?: EcfDate;
+  ContactoEntrega?: string;
+  DireccionEntrega?: string;
+  TelefonoAdicional?: string;
+  FechaOrdenCompra?: EcfDate;
+  NumeroOrdenCompra?: string;
+  CodigoInternoComprador?: string;
+  ResponsablePago?: string;
+  InformacionAdicionalComprador?: string;
+}
+
+export interface EcfInformacionesAdicionales {
+  FechaEmbarque?: EcfDate;
+  NumeroEmbarque?: string;
+  NumeroContenedor?: string;
+  NumeroReferencia?: string;
+  PesoBruto?: number;
+  PesoNeto?: number;
+  UnidadPesoBruto?: number;
+  UnidadPesoNeto?: number;
+  CantidadBulto?: number;
+  UnidadBulto?: number;
+  VolumenBulto?: number;
+  UnidadVolumen?: number;
+}
+
+export interface EcfTransporte {
+  Conductor?: string;
+  DocumentoTransporte?: string;
+  Ficha?: string;
+  Placa?: string;
+  RutaTransporte?: string;
+  ZonaTransporte?: string;
+  NumeroAlbaran?: string;
+}
+
+export interface EcfImpuestoAdicional {
+  TipoImpuesto: string;
+  TasaImpuestoAdicional: number;
+  MontoImpuestoSelectivoConsumoEspecifico?: number;
+  MontoImpuestoSelectivoConsumoAdvalorem?: number;
+  OtrosImpuestosAdicionales?: number;
+}
+
+export interface EcfTotales {
+  MontoGravadoTotal?: number;
+  MontoGravadoI1?: number;
+  MontoGravadoI2?: number;
+  MontoGravadoI3?: number;
+  MontoExento?: number;
+  ITBIS1?: number;
+  ITBIS2?: number;
+  ITBIS3?: number;
+  TotalITBIS?: number;
+  TotalITBIS1?: number;
+  TotalITBIS2?: number;
+  TotalITBIS3?: number;
+  MontoImpuestoAdicional?: number;
+  ImpuestosAdicionales?: { ImpuestoAdicional: EcfImpuestoAdicional[] };
+  MontoTotal: number;
+  MontoNoFacturable?: number;
+  MontoPeriodo?: number;
+  SaldoAnterior?: number;
+  MontoAvancePago?: number;
+  ValorPagar?: number;
+  TotalITBISRetenido?: number;
+  TotalISRRetencion?: number;
+  TotalITBISPercepcion?: number;
+  TotalISRPercepcion?: number;
+}
+
+export interface EcfImpuestoAdicionalOtraMoneda {
+  TipoImpuestoOtraMoneda: string;
+  TasaImpuestoAdicionalOtraMoneda: number;
+  MontoImpuestoSelectivoConsumoEspecificoOtraMoneda?: number;
+  MontoImpuestoSelectivoConsumoAdvaloremOtraMoneda?: number;
+  OtrosImpuestosAdicionalesOtraMoneda?: number;
+}
+
+export interface EcfOtraMoneda {
+  TipoMoneda: string;
+  TipoCambio: number;
+  MontoGravadoTotalOtraMoneda?: number;
+  MontoGravado1OtraMoneda?: number;
+  MontoGravado2OtraMoneda?: number;
+  MontoGravado3OtraMoneda?: number;
+  MontoExentoOtraMoneda?: number;
+  TotalITBISOtraMoneda?: number;
+  TotalITBIS1OtraMoneda?: number;
+  TotalITBIS2OtraMoneda?: number;
+  TotalITBIS3OtraMoneda?: number;
+  MontoImpuestoAdicionalOtraMoneda?: number;
+  ImpuestosAdicionalesOtraMoneda?: { ImpuestoAdicionalOtraMoneda: EcfImpuestoAdicionalOtraMoneda[] };
+  MontoTotalOtraMoneda: number;
+}
+
+export interface EcfEncabezado {
+  Version: string;
+  IdDoc: EcfIdDoc;
+  Emisor: EcfEmisor;
+  Comprador?: EcfComprador;
+  InformacionesAdicionales?: EcfInformacionesAdicionales;
+  Transporte?: EcfTransporte;
+  Totales: EcfTotales;
+  OtraMoneda?: EcfOtraMoneda;
+}
+
+export interface EcfRetencion {
+  IndicadorAgenteRetencionoPercepcion: 1 | 2;
+  MontoITBISRetenido?: number;
+  MontoISRRetenido?: number;
+}
+
+export interface EcfSubDescuento {
+  TipoSubDescuento: '$' | '%';
+  SubDescuentoPorcentaje?: number;
+  MontoSubDescuento: number;
+}
+
+export interface EcfSubRecargo {
+  TipoSubRecargo: '$' | '%';
+  SubRecargoPorcentaje?: number;
+  MontoSubRecargo: number;
+}
+
+export interface EcfOtraMonedaDetalle {
+  PrecioOtraMoneda: number;
+  DescuentoOtraMoneda?: number;
+  RecargoOtraMoneda?: number;
+  MontoItemOtraMoneda: number;
+}
+
+export interface EcfItem {
+  NumeroLinea: number;
+  TablaCodigosItem?: { CodigosItem: { TipoCodigo: string; CodigoItem: string }[] };
+  IndicadorFacturacion: IndicadorFacturacion;
+  Retencion?: EcfRetencion;
+  NombreItem: string;
+  /** 1 = Bien, 2 = Servicio */
+  IndicadorBienoServicio: 1 | 2;
+  DescripcionItem?: string;
+  CantidadItem: number;
+  UnidadMedida?: number;
+  CantidadReferencia?: number;
+  UnidadReferencia?: number;
+  TablaSubcantidad?: { SubcantidadItem: { Subcantidad: number; CodigoSubcantidad: number }[] };
+  GradosAlcohol?: number;
+  PrecioUnitarioReferencia?: number;
+  FechaElaboracion?: EcfDate;
+  FechaVencimientoItem?: EcfDate;
+  PrecioUnitarioItem: number;
+  DescuentoMonto?: number;
+  TablaSubDescuento?: { SubDescuento: EcfSubDescuento[] };
+  RecargoMonto?: number;
+  TablaSubRecargo?: { SubRecargo: EcfSubRecargo[] };
+  TablaImpuestoAdicional?: { ImpuestoAdicional: { TipoImpuesto: string }[] };
+  OtraMonedaDetalle?: EcfOtraMonedaDetalle;
+  MontoItem: number;
+}
+
+export interface EcfSubtotal {
+  NumeroSubTotal: number;
+  DescripcionSubtotal?: string;
+  Orden?: number;
+  SubTotalMontoGravadoTotal?: number;
+  SubTotalMontoGravadoI1?: number;
+  SubTotalMontoGravadoI2?: number;
+  SubTotalMontoGravadoI3?: number;
+  SubTotaITBIS?: number;
+  SubTotaITBIS1?: number;
+  SubTotaITBIS2?: number;
+  SubTotaITBIS3?: number;
+  SubTotalImpuestoAdicional?: number;
+  SubTotalExento?: number;
+  MontoSubTotal?: number;
+  Lineas?: number;
+}
+
+export interface EcfDescuentoORecargo {
+  NumeroLinea: number;
+  /** D = Descuento, R = Recargo */
+  TipoAjuste: 'D' | 'R';
+  IndicadorNorma1007?: 1;
+  DescripcionDescuentooRecargo?: string;
+  TipoValor?: '$' | '%';
+  ValorDescuentooRecargo?: number;
+  MontoDescuentooRecargo: number;
+  MontoDescuentooRecargoOtraMoneda?: number;
+  IndicadorFacturacionDescuentooRecargo: IndicadorFacturacion;
+}
+
+export interface EcfPagina {
+  PaginaNo: number;
+  NoLineaDesde: number;
+  NoLineaHasta: number;
+  SubtotalMontoGravadoPagina?: number;
+  SubtotalMontoGravado1Pagina?: number;
+  SubtotalMontoGravado2Pagina?: number;
+  SubtotalMontoGravado3Pagina?: number;
+  SubtotalExentoPagina?: number;
+  SubtotalItbisPagina?: number;
+  SubtotalItbis1Pagina?: number;
+  SubtotalItbis2Pagina?: number;
+  SubtotalItbis3Pagina?: number;
+  SubtotalImpuestoAdicionalPagina?: number;
+  SubtotalImpuestoAdicional?: {
+    SubtotalImpuestoSelectivoConsumoEspecificoPagina?: number;
+    SubtotalOtrosImpuesto?: number;
+  };
+  MontoSubtotalPagina: number;
+  SubtotalMontoNoFacturablePagina?: number;
+}
+
+export interface EcfInformacionReferencia {
+  NCFModificado: string;
+  RNCOtroContribuyente?: string;
+  FechaNCFModificado: EcfDate;
+  /** 1 = Anula, 2 = Corrige texto, 3 = Corrige montos, 4 = Reemplazo por contingencia, 5 = Referencia e-CF de consumo */
+  CodigoModificacion: 1 | 2 | 3 | 4 | 5;
+  RazonModificacion?: string;
+}
+
+export interface Ecf {
+  Encabezado: EcfEncabezado;
+  DetallesItems: { Item: EcfItem[] };
+  Subtotales?: { Subtotal: EcfSubtotal[] };
+  DescuentosORecargos?: { DescuentoORecargo: EcfDescuentoORecargo[] };
+  Paginacion?: { Pagina: EcfPagina[] };
+  InformacionReferencia?: EcfInformacionReferencia;
+  FechaHoraFirma?: EcfDateTime;
+}
+
+/**
+ * Error de construcción de un e-CF: campo obligatorio ausente, no permitido para el tipo, etc.
+ */
+export interface EcfFieldError {
+  xpath: string;
+  message: string;
+}
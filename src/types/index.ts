@@ -1,31 +1,65 @@
+import { Ecf, EcfEncabezado } from './ecf';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  details?: any;
   message?: string;
 }
 
+export * from './ecf';
+
 export interface InvoiceData {
-  ECF: {
-    Encabezado: any;
-    DetallesItems: any;
-    Subtotales: any;
+  ECF: Ecf;
+}
+
+/**
+ * Resumen (RFCE) de una factura de consumo armado por el cliente; se guardan su emisión, comprador y total
+ */
+export interface SummaryData {
+  RFCE: {
+    Encabezado: Partial<Pick<EcfEncabezado, 'Emisor' | 'Comprador' | 'Totales'>>;
   };
 }
 
 export interface SendInvoiceRequest {
   invoiceData: InvoiceData;
   rnc: string;
-  encf: string;
+  encf?: string;
   environment?: 'test' | 'cert' | 'prod';
 }
 
+/**
+ * ecf: e-CF completo enviado a DGII; summary: factura de consumo enviada como RFCE (resumen)
+ */
+export type InvoiceSubmissionMode = 'ecf' | 'summary';
+
+/**
+ * Factura firmada y lista para enviarse a DGII
+ */
+export interface PreparedInvoice {
+  rnc: string;
+  encf: string;
+  environment: string;
+  tipoEcf?: string;
+  rncComprador?: string;
+  fechaEmision?: string;
+  montoTotal?: number;
+  fileName: string;
+  signedXml: string;
+  securityCode: string;
+  qrCodeUrl: string;
+  parentId?: string; // e-CF que modifica (notas de crédito y débito)
+}
+
 export interface SignXmlRequest {
   xmlData: string;
   documentType: 'ECF' | 'ACECF' | 'ANECF' | 'RFCE' | 'ARECF';
 }
 
 export interface AuthRequest {
+  rnc?: string;
   environment?: 'test' | 'cert' | 'prod';
 }
 
@@ -42,8 +76,801 @@ export interface ApprovalData {
   };
 }
 
+export interface AnecfSecuencias {
+  SecuenciaeNCFDesde: string;
+  SecuenciaeNCFHasta: string;
+}
+
+export interface AnecfAnulacion {
+  NoLinea: number;
+  TipoeCF: string;
+  TablaRangoSecuenciasAnuladaseNCF: {
+    Secuencias: AnecfSecuencias[];
+  };
+  CantidadeNCFAnulados: number;
+}
+
 export interface VoidData {
   ANECF: {
+    Encabezado?: {
+      Version: string;
+      RncEmisor: string;
+      CantidadeNCFAnulados: number;
+      FechaHoraAnulacioneNCF: string; // dd-MM-yyyy HH:mm:ss
+    };
     DetalleAnulacion: any;
   };
 }
+
+export type DocumentDirection = 'emitted' | 'received';
+
+export type StoredDocumentType = 'ECF' | 'RFCE' | 'ARECF' | 'ACECF' | 'ANECF';
+
+export interface StoredDocument {
+  id: string;
+  direction: DocumentDirection;
+  documentType: StoredDocumentType;
+  tipoEcf?: string;
+  rncEmisor?: string;
+  rncComprador?: string;
+  encf?: string;
+  fileName?: string;
+  signedXml: string;
+  securityCode?: string;
+  trackId?: string;
+  qrCodeUrl?: string;
+  environment: string;
+  dgiiStatus?: string;
+  dgiiResponse?: any;
+  fechaEmision?: string;
+  montoTotal?: number;
+  parentId?: string;
+  statusCheckedAt?: string;
+  commercialStatus?: CommercialStatus;
+  commercialStatusReason?: string | null; // DetalleMotivoRechazo del ACECF; null lo borra al actualizar
+  commercialStatusAt?: string; // FechaHoraAprobacionComercial del ACECF
+  contingencyPeriodId?: string; // Período de contingencia en el que se emitió sin enviarlo a DGII
+  contingencyStatus?: ContingencyDocumentStatus;
+  contingencySentAt?: string;
+  contingencyError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Aprobación comercial del comprador (ACECF Estado 1 o 2) para un e-CF emitido
+export type CommercialStatus = 'approved' | 'rejected';
+
+// Envío diferido de un documento emitido en contingencia
+export type ContingencyDocumentStatus = 'pending' | 'sent' | 'failed';
+
+// manual: activada por el administrador; automatic: por fallas consecutivas de DGII
+export type ContingencySource = 'manual' | 'automatic';
+
+export interface ContingencyPeriod {
+  id: string;
+  environment: string;
+  source: ContingencySource;
+  reason?: string;
+  startedAt: string;
+  endedAt?: string;
+}
+
+export interface ContingencyState {
+  environment: string;
+  active: boolean;
+  period?: ContingencyPeriod;
+  pending: number; // Documentos firmados pendientes de enviar a DGII
+}
+
+export interface ContingencyReportItem {
+  documentId: string;
+  documentType: StoredDocumentType;
+  rncEmisor?: string;
+  encf?: string;
+  environment: string;
+  periodId?: string;
+  status: ContingencyDocumentStatus;
+  signedAt: string;
+  sentAt?: string;
+  delayMinutes?: number; // Tiempo entre la firma y el envío a DGII
+  trackId?: string;
+  dgiiStatus?: string;
+  error?: string;
+}
+
+export interface ContingencyReport {
+  total: number;
+  sent: number;
+  pending: number;
+  failed: number;
+  periods: ContingencyPeriod[];
+  items: ContingencyReportItem[];
+}
+
+export type NewStoredDocument = Omit<StoredDocument, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Estados finales de un e-CF en DGII; al alcanzarlos se deja de consultar el trackId
+ */
+export const FINAL_DGII_STATUSES = ['Aceptado', 'Rechazado', 'Aceptado Condicional'] as const;
+
+/**
+ * Tipos de documento cuyo estado se consulta por trackId. El RFCE recibe su estado en la respuesta de
+ * recepción y ARECF, ACECF y ANECF no tienen consulta de estado en DGII.
+ */
+export const POLLABLE_DOCUMENT_TYPES: readonly StoredDocumentType[] = ['ECF'];
+
+export interface DgiiMessage {
+  valor: string;
+  codigo: number;
+}
+
+export interface DocumentStatusChange {
+  id: string;
+  documentId: string;
+  trackId?: string;
+  status: string;
+  code?: number;
+  messages: DgiiMessage[];
+  createdAt: string;
+}
+
+export interface DocumentSearchFilters {
+  direction?: DocumentDirection;
+  documentType?: StoredDocumentType;
+  tipoEcf?: string;
+  rncEmisor?: string;
+  rncComprador?: string;
+  rncs?: string[]; // Documentos emitidos o recibidos por alguno de estos RNC
+  encf?: string;
+  trackId?: string;
+  environment?: string;
+  commercialStatus?: CommercialStatus;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Tipos de e-CF autorizados por DGII
+ */
+export const TIPOS_ECF = ['31', '32', '33', '34', '41', '43', '44', '45', '46', '47'] as const;
+
+export type TipoeCF = typeof TIPOS_ECF[number];
+
+export type SequenceRangeStatus = 'active' | 'disabled';
+
+export interface SequenceRange {
+  id: string;
+  rnc: string;
+  environment: string;
+  tipoeCF: TipoeCF;
+  startNumber: number;
+  endNumber: number;
+  nextNumber: number;
+  expiresAt: string; // YYYY-MM-DD
+  status: SequenceRangeStatus;
+  remaining: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RegisterSequenceRangeRequest {
+  rnc: string;
+  tipoeCF: TipoeCF;
+  startNumber: number;
+  endNumber: number;
+  expiresAt: string;
+  environment?: 'test' | 'cert' | 'prod';
+}
+
+export interface SequenceAllocation {
+  encf: string;
+  rnc: string;
+  environment: string;
+  tipoeCF: TipoeCF;
+  number: number;
+  rangeId: string;
+  fechaVencimientoSecuencia: string; // dd-MM-yyyy
+  warnings: string[];
+}
+
+// Estado de cada e-NCF registrado en el inventario (sequence_numbers)
+export type SequenceNumberStatus = 'allocated' | 'used' | 'voided';
+
+/**
+ * e-NCF a anular: una lista o un rango (desde/hasta, inclusive) del mismo TipoeCF
+ */
+export interface VoidSequenceRequest {
+  rnc: string;
+  tipoeCF: TipoeCF;
+  encfs?: string[];
+  range?: {
+    from: string;
+    to: string;
+  };
+  environment?: 'test' | 'cert' | 'prod';
+}
+
+/**
+ * e-NCF marcados como anulados antes de enviar el ANECF; permite liberarlos si DGII no lo recibe
+ */
+export interface SequenceVoidReservation {
+  rnc: string;
+  environment: string;
+  tipoeCF: TipoeCF;
+  encfs: string[];
+  inserted: string[]; // Nunca asignados
+  allocated: string[]; // Asignados pero no enviados a DGII
+}
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface Job<TPayload = any, TResult = any> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  payload: TPayload;
+  result?: TResult;
+  reference?: string;
+  rnc?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Eventos que se pueden notificar por webhook
+ */
+export const WEBHOOK_EVENTS = [
+  'document.status_changed',
+  'ecf.received',
+  'acecf.received',
+  'approval.reminder',
+  'approval.expired',
+  'certificate.expiring',
+  'contingency.started',
+  'contingency.ended',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// event: sobre { id, event, createdAt, data }; data: solo el contenido de data (integraciones existentes)
+export type WebhookPayloadFormat = 'event' | 'data';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  tenantId?: string; // Solo recibe eventos de los RNC del tenant
+  rnc?: string;
+  headers?: Record<string, string>;
+  payloadFormat: WebhookPayloadFormat;
+  description?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+  tenantId?: string;
+  rnc?: string;
+  headers?: Record<string, string>;
+  payloadFormat?: WebhookPayloadFormat;
+  description?: string;
+  active?: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+export type XsdDocumentType = 'ECF' | 'RFCE' | 'ARECF' | 'ACECF' | 'ANECF';
+
+export interface XsdValidationError {
+  message: string;
+  xpath?: string;
+  line?: number;
+}
+
+export interface ValidateDocumentRequest {
+  xmlData?: string;
+  invoiceData?: InvoiceData;
+}
+
+export interface XsdValidationResult {
+  valid: boolean;
+  documentType: XsdDocumentType;
+  schema: string;
+  errors: XsdValidationError[];
+}
+
+export interface ValidateTotalsRequest {
+  invoiceData: InvoiceData;
+}
+
+export interface InvoiceRuleViolation {
+  rule: string;
+  xpath: string;
+  message: string;
+  expected: number | null;
+  actual: number | string | null;
+}
+
+export interface InvoiceComputedTotals {
+  montoGravadoI1: number;
+  montoGravadoI2: number;
+  montoGravadoI3: number;
+  montoGravadoTotal: number;
+  montoExento: number;
+  montoNoFacturable: number;
+  totalITBIS1: number;
+  totalITBIS2: number;
+  totalITBIS3: number;
+  totalITBIS: number;
+  montoImpuestoAdicional: number;
+  montoTotal: number;
+  totalITBISRetenido: number;
+  totalISRRetencion: number;
+}
+
+export interface InvoiceRulesResult {
+  valid: boolean;
+  errors: InvoiceRuleViolation[];
+  computed: InvoiceComputedTotals;
+}
+
+/**
+ * Formato simplificado de factura (claves en inglés) que se traduce al e-CF de DGII.
+ * Ver SimpleInvoiceService para la correspondencia con los campos y tablas de códigos de DGII.
+ */
+export const SIMPLE_TAX_CODES = ['itbis18', 'itbis16', 'itbis0', 'exempt', 'non_billable'] as const;
+export const SIMPLE_INCOME_TYPES = ['operations', 'financial', 'extraordinary', 'leases', 'asset_sale', 'other'] as const;
+export const SIMPLE_PAYMENT_TYPES = ['cash', 'credit', 'free'] as const;
+export const SIMPLE_PAYMENT_METHODS = [
+  'cash',
+  'bank',
+  'card',
+  'credit',
+  'gift_certificate',
+  'swap',
+  'credit_note',
+  'other',
+] as const;
+export const SIMPLE_MODIFICATION_CODES = [
+  'void',
+  'text_correction',
+  'amount_correction',
+  'contingency_replacement',
+  'consumer_reference',
+] as const;
+
+export type SimpleTaxCode = (typeof SIMPLE_TAX_CODES)[number];
+export type SimpleIncomeType = (typeof SIMPLE_INCOME_TYPES)[number];
+export type SimplePaymentType = (typeof SIMPLE_PAYMENT_TYPES)[number];
+export type SimplePaymentMethod = (typeof SIMPLE_PAYMENT_METHODS)[number];
+export type SimpleModificationCode = (typeof SIMPLE_MODIFICATION_CODES)[number];
+
+export interface SimpleInvoiceIssuer {
+  name: string;
+  tradeName?: string;
+  branch?: string;
+  address: string;
+  municipality?: string;
+  province?: string;
+  phones?: string[];
+  email?: string;
+  website?: string;
+  economicActivity?: string;
+}
+
+export interface SimpleInvoiceCustomer {
+  rnc?: string;
+  foreignId?: string;
+  name?: string;
+  contact?: string;
+  email?: string;
+  address?: string;
+  municipality?: string;
+  province?: string;
+  deliveryDate?: string;
+  purchaseOrderNumber?: string;
+  purchaseOrderDate?: string;
+  internalCode?: string;
+}
+
+export interface SimpleInvoiceLine {
+  name: string;
+  description?: string;
+  kind?: 'good' | 'service';
+  quantity: number;
+  unitPrice: number;
+  unitCode?: number;
+  discount?: number;
+  discountPercent?: number;
+  surcharge?: number;
+  tax: SimpleTaxCode;
+  withholding?: {
+    agent?: 'withholding' | 'perception';
+    itbis?: number;
+    isr?: number;
+  };
+}
+
+export interface SimpleInvoiceAdjustment {
+  type: 'discount' | 'surcharge';
+  description?: string;
+  amount?: number;
+  percent?: number;
+  tax: SimpleTaxCode;
+}
+
+export interface SimpleInvoicePayment {
+  method: SimplePaymentMethod;
+  amount: number;
+}
+
+export interface SimpleInvoiceReference {
+  encf: string;
+  date: string;
+  code: SimpleModificationCode;
+  reason?: string;
+  otherRnc?: string;
+}
+
+export interface SimpleInvoice {
+  type: number | string;
+  issueDate?: string;
+  sequenceExpiryDate?: string;
+  incomeType?: SimpleIncomeType;
+  paymentType?: SimplePaymentType;
+  paymentDueDate?: string;
+  paymentTerms?: string;
+  payments?: SimpleInvoicePayment[];
+  pricesIncludeTax?: boolean;
+  internalNumber?: string;
+  orderNumber?: string;
+  sellerCode?: string;
+  currency?: {
+    code: string;
+    exchangeRate: number;
+  };
+  issuer: SimpleInvoiceIssuer;
+  customer?: SimpleInvoiceCustomer;
+  lines: SimpleInvoiceLine[];
+  adjustments?: SimpleInvoiceAdjustment[];
+  reference?: SimpleInvoiceReference;
+}
+
+export interface SendSimpleInvoiceRequest {
+  invoice: SimpleInvoice;
+  rnc: string;
+  encf?: string;
+  environment?: 'test' | 'cert' | 'prod';
+}
+
+/**
+ * Nota de crédito (34) o débito (33) construida a partir de un e-CF emitido (ver NoteService)
+ */
+export type NoteKind = 'credit' | 'debit';
+
+// Línea del e-CF original incluida en la nota, por cantidad o por monto
+export interface NoteLine {
+  line: number; // NumeroLinea en el e-CF original
+  quantity?: number;
+  amount?: number;
+}
+
+export interface CreateNoteRequest {
+  rnc: string;
+  encf?: string; // e-NCF de la nota; si se omite se asigna desde /api/sequences
+  sequenceExpiryDate?: string; // yyyy-MM-dd, solo notas de débito con encf
+  environment?: 'test' | 'cert' | 'prod'; // Ambiente del e-CF original si hay varios con el mismo e-NCF
+  code?: SimpleModificationCode;
+  reason?: string;
+  internalNumber?: string;
+  lines?: NoteLine[]; // Si se omite, la nota incluye todas las líneas del e-CF original
+}
+
+export interface BuiltNote {
+  invoiceData: InvoiceData;
+  parentId: string;
+  environment: string;
+}
+
+/**
+ * Empresa que usa el servicio con sus propias API keys, RNC y certificado.
+ * El certificado y su contraseña se guardan cifrados y nunca se exponen en la API.
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  rncs: string[];
+  environment?: 'test' | 'cert' | 'prod'; // Ambiente DGII de sus peticiones; sin él, DGII_ENVIRONMENT
+  receptorRules?: ReceptorRuleOverrides; // Reglas de recepción activadas o desactivadas para sus RNC
+  hasCertificate: boolean;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTenantRequest {
+  name: string;
+  rncs: string[];
+  environment?: 'test' | 'cert' | 'prod';
+  certificateBase64?: string;
+  certificatePassword?: string;
+  receptorRules?: ReceptorRuleOverrides;
+  active?: boolean;
+}
+
+export type UpdateTenantRequest = Partial<CreateTenantRequest>;
+
+export interface TenantApiKey {
+  id: string;
+  tenantId: string;
+  prefix: string; // Primeros caracteres de la key, para identificarla sin exponerla
+  description?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * La key en claro solo se retorna al crearla; se guarda únicamente su hash
+ */
+export interface CreatedTenantApiKey extends TenantApiKey {
+  apiKey: string;
+}
+
+export interface CreateTenantApiKeyRequest {
+  description?: string;
+}
+
+export type StoredCertificateStatus = 'active' | 'previous';
+
+/**
+ * Certificado subido para un RNC. El P12 y su contraseña se guardan cifrados y no se exponen.
+ * Por RNC hay un certificado activo y, tras una rotación, el anterior para rollback.
+ */
+export interface StoredCertificate {
+  id: string;
+  rnc: string;
+  status: StoredCertificateStatus;
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  fingerprint: string;
+  validFrom: string;
+  validTo: string;
+  createdAt: string;
+  activatedAt: string;
+}
+
+export interface UploadCertificateRequest {
+  rnc: string;
+  certificateBase64: string;
+  password: string;
+}
+
+// check: password, keyMatch, expired, notYetValid, subjectRnc, chain, keyUsage; en firmas recibidas también signature y digest;
+// al verificar documentos, documentType
+export interface CertificateValidationError {
+  check: string;
+  rnc?: string; // RNC que no coincide con el sujeto (subjectRnc)
+  message: string;
+}
+
+// stored: subido con POST /api/certificate; tenant: del tenant; file: CERTIFICATE_BASE64 o archivo .p12 cargado
+export type CertificateOrigin = 'stored' | 'tenant' | 'file';
+
+/**
+ * Certificado en uso revisado por el monitor de vencimiento.
+ * rncs vacío indica el certificado por defecto (sin RNC).
+ */
+export interface MonitoredCertificate {
+  origin: CertificateOrigin;
+  rncs: string[];
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  fingerprint: string;
+  validTo: string;
+}
+
+export interface CertificateExpiry extends MonitoredCertificate {
+  daysRemaining: number;
+  threshold?: number; // Menor umbral de alerta alcanzado (0 si ya venció)
+  expired: boolean;
+}
+
+/**
+ * Resumen del último chequeo de vencimiento incluido en /health (sin datos de los certificados)
+ */
+export interface CertificateHealth {
+  status: 'ok' | 'expiring' | 'expired';
+  checkedAt?: string;
+  expiring: number;
+  expired: number;
+  nextExpiry?: string;
+}
+
+/**
+ * Certificado incluido en la firma de un documento
+ */
+export interface SignerCertificate {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  fingerprint: string;
+  validFrom: string;
+  validTo: string;
+  subjectIds: string[]; // RNC o cédulas encontrados en el sujeto
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  documentType: string | null;
+  knownDocumentType: boolean;
+  encf?: string;
+  signerRnc?: string; // RNC que debe firmar: RNCEmisor (ECF, RFCE, ANECF) o RNCComprador (ARECF, ACECF)
+  signedAt?: string;
+  securityCode?: string; // Código de seguridad de 6 dígitos calculado desde la firma
+  signer?: SignerCertificate;
+  errors: CertificateValidationError[];
+}
+
+/**
+ * Token entregado a un emisor al validar su semilla firmada (Emisor-Receptor).
+ * El token en claro solo se retorna al emisor; se guarda su hash.
+ */
+export interface ReceptorToken {
+  id: string;
+  prefix: string; // Primeros caracteres del token, para identificarlo sin exponerlo
+  issuedAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  active: boolean; // Ni vencido ni revocado
+}
+
+// Motivo por el que se rechaza una semilla firmada en validacioncertificado
+export type SeedRejectionReason = 'unknown' | 'expired' | 'reused' | 'invalidSignature';
+
+/**
+ * Contadores de semillas desde el inicio del servicio, más las semillas aún pendientes de validar
+ */
+export interface ReceptorSeedStats {
+  since: string;
+  issued: number;
+  validated: number;
+  rejected: Record<SeedRejectionReason, number>;
+  pending: number; // Emitidas, sin validar y aún vigentes
+}
+
+/**
+ * Reglas con las que el receptor decide el ARECF de un e-CF recibido, cada una con su código de No Recibido:
+ * specification (1), signature (2), duplicate (3) y rncComprador (4)
+ */
+export type ReceptorRule = 'specification' | 'rncComprador' | 'signature' | 'duplicate';
+
+// true/false activa o desactiva la regla; las omitidas usan la configuración global
+export type ReceptorRuleOverrides = Partial<Record<ReceptorRule, boolean>>;
+
+export interface ReceptorRuleViolation {
+  rule: ReceptorRule;
+  code: string; // CodigoMotivoNoRecibido
+  message: string;
+  details?: any[];
+}
+
+/**
+ * Resultado de las reglas de recepción: el primer incumplimiento define el código del ARECF
+ */
+export interface ReceptorDecision {
+  accepted: boolean;
+  rejectCode?: string;
+  violations: ReceptorRuleViolation[];
+  receptorRnc: string; // RNC con el que se responde: el RNCComprador si es nuestro
+  tenantId?: string; // Tenant dueño del RNCComprador
+  environment?: string; // Ambiente DGII del tenant dueño del RNCComprador
+}
+
+// Aprobación comercial (ACECF) enviada para un e-CF recibido; expired: venció el plazo sin enviarla
+export type InboxApprovalStatus = 'pending' | 'sending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * e-CF recibido en la bandeja de entrada. El id es el del documento recibido en /api/documents
+ */
+export interface InboxEntry {
+  id: string;
+  tipoEcf?: string;
+  rncEmisor?: string;
+  rncComprador?: string;
+  encf?: string;
+  fechaEmision?: string;
+  montoTotal?: number;
+  fileName?: string;
+  environment: string;
+  receivedAt: string;
+  arecfDocumentId?: string;
+  arecfStatus: string; // e-CF Recibido o e-CF No Recibido
+  approvalStatus: InboxApprovalStatus;
+  approvalDeadline?: string; // Plazo para enviar el ACECF (solo e-CF Recibido)
+  approvalDocumentId?: string; // ACECF enviado
+  approvalReason?: string; // DetalleMotivoRechazo enviado
+  approvedAt?: string;
+  acknowledged: boolean; // El ERP confirmó que ya lo importó
+  acknowledgedAt?: string;
+}
+
+/**
+ * Resultado de aprobar o rechazar un e-CF de la bandeja; en las operaciones masivas, error si falló
+ */
+export interface CommercialApprovalResult {
+  id: string;
+  approvalStatus?: InboxApprovalStatus;
+  approvalDocumentId?: string; // ACECF enviado
+  fileName?: string;
+  error?: string;
+  statusCode?: number;
+}
+
+export interface InboxSearchFilters {
+  rncEmisor?: string;
+  rncComprador?: string;
+  rncs?: string[]; // e-CF recibidos por alguno de estos RNC
+  tipoEcf?: string;
+  arecfStatus?: string;
+  approvalStatus?: InboxApprovalStatus;
+  acknowledged?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Aprobación comercial (ACECF) recibida en /fe/aprobacioncomercial/api/ecf
+ */
+export interface ReceivedAcecf {
+  rncEmisor: string;
+  encf: string;
+  rncComprador: string;
+  fechaEmision?: string;
+  montoTotal?: number;
+  estado: '1' | '2'; // 1 = Aprobado, 2 = Rechazado
+  detalleMotivoRechazo?: string;
+  fechaHoraAprobacionComercial: string;
+}
+
+/**
+ * Respuesta al emisor de la aprobación comercial, con el formato de la respuesta de DGII
+ */
+export interface AcecfReceptionResponse {
+  codigo: '01' | '02';
+  estado: 'Aprobación Comercial Aprobada.' | 'Aprobacion Comercial Rechazada.';
+  mensaje: string[];
+}
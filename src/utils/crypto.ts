@@ -0,0 +1,59 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import config from '../config/environment';
+import { AppError } from '../middleware/errorHandler';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_SALT = 'dgii-ecf-secrets';
+const FORMAT_VERSION = 'v1';
+
+let cachedKey: { source: string; key: Buffer } | undefined;
+
+/**
+ * Clave AES-256 derivada de ENCRYPTION_KEY. Cambiar ENCRYPTION_KEY deja ilegibles
+ * los secretos ya guardados (certificados y contraseñas de los tenants).
+ */
+const getKey = (): Buffer => {
+  if (!config.encryptionKey) {
+    throw new AppError('ENCRYPTION_KEY is not configured', 500);
+  }
+  if (cachedKey?.source !== config.encryptionKey) {
+    cachedKey = { source: config.encryptionKey, key: scryptSync(config.encryptionKey, KEY_SALT, 32) };
+  }
+  return cachedKey.key;
+};
+
+/**
+ * Cifra un secreto con AES-256-GCM. El resultado es texto `v1:iv:tag:datos` (base64)
+ */
+export const encryptSecret = (value: string | Buffer): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+};
+
+export const decryptSecret = (value: string): Buffer => {
+  const [version, iv, tag, encrypted] = value.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || encrypted === undefined) {
+    throw new AppError('Invalid encrypted secret format', 500);
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]);
+  } catch (error: any) {
+    throw new AppError(`Could not decrypt secret (check ENCRYPTION_KEY): ${error.message}`, 500);
+  }
+};
+
+/**
+ * Las API keys se guardan como hash SHA-256: son aleatorias y largas, no necesitan un hash lento
+ */
+export const hashApiKey = (apiKey: string): string => createHash('sha256').update(apiKey).digest('hex');
+
+export const generateApiKey = (): string => `ecf_${randomBytes(32).toString('base64url')}`;
@@ -0,0 +1,80 @@
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Formatea una fecha al formato DGII dd-MM-yyyy
+ */
+export const formatDgiiDate = (date: Date): string =>
+  `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${date.getFullYear()}`;
+
+/**
+ * Formatea una fecha y hora al formato DGII dd-MM-yyyy HH:mm:ss
+ */
+export const formatDgiiDateTime = (date: Date): string =>
+  `${formatDgiiDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * Normaliza una fecha en formato DGII (dd-MM-yyyy) o ISO (yyyy-MM-dd) a yyyy-MM-dd.
+ * Retorna undefined si el valor no es una fecha válida.
+ */
+export const toIsoDate = (value: string): string | undefined => {
+  const dgii = /^(\d{2})-(\d{2})-(\d{4})$/.exec(value);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (dgii) {
+    [day, month, year] = [Number(dgii[1]), Number(dgii[2]), Number(dgii[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Convierte yyyy-MM-dd a dd-MM-yyyy sin pasar por Date (evita desfases de zona horaria)
+ */
+export const isoToDgiiDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}-${month}-${year}`;
+};
+
+/**
+ * Fecha local de hoy en formato yyyy-MM-dd
+ */
+export const todayIsoDate = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+/**
+ * Días calendario entre hoy y una fecha yyyy-MM-dd (negativo si ya pasó)
+ */
+export const daysUntil = (isoDate: string): number => {
+  const target = Date.parse(`${isoDate}T00:00:00Z`);
+  const today = Date.parse(`${todayIsoDate()}T00:00:00Z`);
+  return Math.round((target - today) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * Interpreta una fecha y hora DGII (dd-MM-yyyy HH:mm:ss) en hora de República Dominicana (UTC-4, sin horario de verano).
+ * Retorna undefined si el valor no tiene ese formato.
+ */
+export const parseDgiiDateTime = (value: string): Date | undefined => {
+  const match = /^(\d{2})-(\d{2})-(\d{4}) (\d{2}):(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, day, month, year, hours, minutes, seconds] = match;
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}-04:00`);
+  return isNaN(date.getTime()) ? undefined : date;
+};
@@ -0,0 +1,28 @@
+// Lista de tipos conocidos de DGII
+export const KNOWN_DOCUMENT_TYPES = ['ECF', 'RFCE', 'ARECF', 'ACECF', 'ANECF', 'SemillaModel'];
+
+/**
+ * Detecta el tipo de documento (nodo raíz) de un XML
+ */
+export function detectDocumentType(xmlData: string): string | null {
+  for (const type of KNOWN_DOCUMENT_TYPES) {
+    if (xmlData.includes(`<${type}`) || xmlData.includes(`<${type}>`)) {
+      return type;
+    }
+  }
+
+  // Si no es un tipo conocido, intentar detectar el primer elemento raíz
+  // Buscar el primer tag después del prólogo XML
+  const match = xmlData.match(/<\?xml[^?]*\?>\s*<([a-zA-Z_][a-zA-Z0-9_-]*)/);
+  if (match && match[1]) {
+    return match[1];
+  }
+
+  // Buscar el primer tag si no hay prólogo
+  const matchNoProlog = xmlData.match(/^\s*<([a-zA-Z_][a-zA-Z0-9_-]*)/);
+  if (matchNoProlog && matchNoProlog[1]) {
+    return matchNoProlog[1];
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+import { AppError } from '../middleware/errorHandler';
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+
+// Errores que dgii-ecf crea cuando axios falla sin respuesta del servidor
+const DGII_NO_RESPONSE_MESSAGES = ['API error without response data', 'Error sending summary API'];
+
+const MAX_BODY_LENGTH = 500;
+
+/**
+ * Falla de una petición a DGII (o al receptor) con el código HTTP, el código de red y el cuerpo de la respuesta
+ */
+export class DgiiRequestError extends Error {
+  code?: string;
+  status?: number;
+  response?: { status: number; data: any };
+
+  constructor(message: string, code?: string, response?: { status: number; data: any }) {
+    super(message);
+    this.name = 'DgiiRequestError';
+    this.code = code;
+    this.status = response?.status;
+    this.response = response;
+  }
+}
+
+const describeBody = (data: any): string => {
+  const body = typeof data === 'string' ? data.trim() : JSON.stringify(data);
+  if (!body || /^<(!DOCTYPE|html)/i.test(body)) {
+    return '';
+  }
+  return body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}...` : body;
+};
+
+/**
+ * Convierte un error de axios en DgiiRequestError. dgii-ecf relanza solo el cuerpo de la respuesta
+ * (o un Error sin código) de los errores de axios, pero el resto de errores los propaga tal cual:
+ * convertirlos antes, en un interceptor, conserva el código HTTP y el de red.
+ */
+export const toDgiiRequestError = (error: any): any => {
+  if (!error?.isAxiosError) {
+    return error;
+  }
+
+  if (!error.response) {
+    return new DgiiRequestError(`DGII did not respond: ${error.message}`, error.code || 'ERR_NETWORK');
+  }
+
+  const { status, data } = error.response;
+  const body = describeBody(data);
+  return new DgiiRequestError(`DGII responded with status ${status}${body ? `: ${body}` : ''}`, error.code, { status, data });
+};
+
+/**
+ * Indica si un error se debe a una falla transitoria (red, 429 o 5xx del servidor remoto)
+ * y por lo tanto la operación puede reintentarse
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (!error) {
+    return false;
+  }
+
+  if (error instanceof AppError) {
+    return [502, 503, 504].includes(error.statusCode);
+  }
+
+  if (error.code && NETWORK_ERROR_CODES.includes(error.code)) {
+    return true;
+  }
+
+  const status = error.response?.status ?? error.status;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 429;
+  }
+
+  if (typeof error.message === 'string' && DGII_NO_RESPONSE_MESSAGES.some((message) => error.message.startsWith(message))) {
+    return true;
+  }
+
+  // Error de axios sin respuesta: la petición no llegó al servidor
+  return Boolean(error.isAxiosError && !error.response);
+};
+
+/**
+ * Indica si DGII rechazó la petición (4xx distinto de autenticación, timeout o límite de peticiones).
+ * Solo en ese caso reenviar el mismo documento no tiene sentido; cualquier otra falla puede ser transitoria.
+ */
+export const isDgiiRejection = (error: any): boolean => {
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status);
+};
+
+/**
+ * Normaliza lo que lanza una llamada a dgii-ecf en un Error. Los errores de axios ya llegan como
+ * DgiiRequestError (ver toDgiiRequestError); un cuerpo de respuesta sin código HTTP, o la ausencia de error,
+ * no permite saber si DGII rechazó el documento y se trata como una falla de red.
+ */
+export const toDgiiError = (error: any): any => {
+  if (error instanceof Error || (error && typeof error.status === 'number')) {
+    return error;
+  }
+
+  const body = error === undefined || error === null ? '' : describeBody(error);
+  return new DgiiRequestError(body ? `DGII error without status: ${body}` : 'DGII did not respond', 'ERR_NETWORK');
+};
+
+/**
+ * Código HTTP a retornar cuando falla una operación contra DGII: conserva el de un AppError,
+ * 503 si la falla es transitoria (reintentable) y 500 en otro caso
+ */
+export const errorStatusCode = (error: any): number => {
+  if (error instanceof AppError) {
+    return error.statusCode;
+  }
+  return isRetryableError(error) ? 503 : 500;
+};
+
+/**
+ * Envuelve un error en un AppError con contexto, conservando el código HTTP y los detalles
+ * (p.ej. los errores de validación XSD) del error original
+ */
+export const wrapError = (message: string, error: any): AppError =>
+  new AppError(`${message}: ${error.message}`, errorStatusCode(error), error instanceof AppError ? error.details : undefined);
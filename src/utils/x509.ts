@@ -0,0 +1,57 @@
+import { X509Certificate } from 'crypto';
+
+// OID 2.5.29.15 (keyUsage) codificado en DER
+const KEY_USAGE_OID = Buffer.from([0x06, 0x03, 0x55, 0x1d, 0x0f]);
+
+// Bits de KeyUsage en el orden de RFC 5280
+const KEY_USAGE_NAMES = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly',
+];
+
+/**
+ * Usos de la llave (extensión keyUsage) del certificado.
+ * X509Certificate de Node solo expone el uso extendido, por lo que se lee la extensión del DER.
+ * Retorna undefined si el certificado no tiene la extensión (sin restricción de uso).
+ */
+export const getKeyUsage = (certificate: X509Certificate): string[] | undefined => {
+  const der = certificate.raw;
+  const index = der.indexOf(KEY_USAGE_OID);
+  if (index < 0) {
+    return undefined;
+  }
+
+  // Extension ::= SEQUENCE { extnID, critical BOOLEAN DEFAULT FALSE, extnValue OCTET STRING (BIT STRING) }
+  let offset = index + KEY_USAGE_OID.length;
+  if (der[offset] === 0x01) {
+    offset += 3;
+  }
+  if (der[offset] !== 0x04 || der[offset + 2] !== 0x03) {
+    return undefined;
+  }
+
+  const length = der[offset + 3];
+  const bits = der.subarray(offset + 5, offset + 4 + length);
+
+  return KEY_USAGE_NAMES.filter((name, bit) => (bits[bit >> 3] ?? 0) & (0x80 >> (bit & 7)));
+};
+
+/**
+ * Identificadores del sujeto donde las CA colocan el RNC o la cédula (p.ej. serialNumber=RNC130862346
+ * o IDCDO-00112345678). Si el sujeto no tiene serialNumber ni organizationIdentifier se buscan en todo el sujeto.
+ */
+export const getSubjectIds = (certificate: X509Certificate): string[] => {
+  const attributes = certificate.subject
+    .split('\n')
+    .filter((line) => /^(serialNumber|organizationIdentifier|2\.5\.4\.97)=/i.test(line));
+  const source = attributes.length ? attributes.join('\n') : certificate.subject;
+
+  return source.match(/\d{9,11}/g) || [];
+};